@@ -0,0 +1,92 @@
+// Schema migrations against DATABASE_URL (a local Postgres or the Supabase
+// database connection string).
+//
+//   pnpm migrate status
+//   pnpm migrate up [--to <version>]
+//   pnpm migrate down [--steps <n> | --to <version>]
+//   pnpm migrate baseline <version>
+import { Client } from "pg";
+import { MigrationRunner } from "../utils/migrations";
+
+const USAGE =
+  "Usage: migrate <status | up [--to N] | down [--steps N | --to N] | baseline N>";
+
+function option(args: string[], name: string): number | undefined {
+  const index = args.indexOf(`--${name}`);
+  if (index === -1) return undefined;
+  return toVersion(args[index + 1], `--${name}`);
+}
+
+function toVersion(value: string | undefined, what: string): number {
+  const number = Number(value);
+  if (!value || !Number.isInteger(number) || number < 0) {
+    throw new Error(`${what} expects a non-negative integer\n${USAGE}`);
+  }
+  return number;
+}
+
+async function main(args: string[]): Promise<void> {
+  const [command, ...rest] = args;
+  if (!["status", "up", "down", "baseline"].includes(command)) {
+    throw new Error(USAGE);
+  }
+
+  const connectionString = process.env.DATABASE_URL;
+  if (!connectionString) {
+    throw new Error("Missing DATABASE_URL");
+  }
+
+  const client = new Client({ connectionString });
+  await client.connect();
+
+  try {
+    const runner = new MigrationRunner(client, { log: console.log });
+
+    switch (command) {
+      case "status": {
+        for (const migration of await runner.status()) {
+          const state = migration.missing
+            ? "missing"
+            : migration.modified
+              ? "modified"
+              : migration.applied
+                ? `applied ${migration.applied_at}`
+                : "pending";
+          console.log(
+            `${String(migration.version).padStart(4, "0")}_${migration.name}  ${state}`
+          );
+        }
+        break;
+      }
+      case "up": {
+        const applied = await runner.up({ to: option(rest, "to") });
+        console.log(
+          applied.length
+            ? `Applied ${applied.length} migration(s)`
+            : "Up to date"
+        );
+        break;
+      }
+      case "down": {
+        const reverted = await runner.down({
+          steps: option(rest, "steps"),
+          to: option(rest, "to"),
+        });
+        console.log(`Rolled back ${reverted.length} migration(s)`);
+        break;
+      }
+      case "baseline": {
+        const recorded = await runner.baseline(toVersion(rest[0], "baseline"));
+        console.log(`Recorded ${recorded.length} migration(s) as applied`);
+        break;
+      }
+    }
+  } finally {
+    await client.end();
+  }
+}
+
+main(process.argv.slice(2)).catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,18 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "./supabase";
+
+// Storage adapter behind the operations classes.
+//
+// The operations classes only use the PostgREST query builder (`from`) and
+// database functions (`rpc`) of a Supabase client. Every Supabase client is
+// one; tests use a client whose requests are served by the embedded
+// Postgres of createMemoryDatabase() (see ./memory).
+export type DatabaseAdapter = Pick<SupabaseClient<Database>, "from" | "rpc">;
+
+// Error shape returned by PostgREST
+export interface DatabaseError {
+  message: string;
+  code: string;
+  details: string | null;
+  hint: string | null;
+}
@@ -0,0 +1,118 @@
+import { createHmac } from "crypto";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { BrandContext, getBrandConfig } from "../types/brand";
+import { signBrandSessionToken } from "./brand-session";
+
+const JWT_SECRET = "test-jwt-secret";
+const USER_ID = "55555555-5555-4555-8555-555555555555";
+
+const context: BrandContext = {
+  brand_id: "gnymble",
+  config: getBrandConfig("gnymble"),
+};
+
+// HS256 token as Supabase Auth issues it
+function accessToken(
+  claims: Record<string, unknown>,
+  secret = JWT_SECRET
+): string {
+  const encode = (value: object) =>
+    Buffer.from(JSON.stringify(value)).toString("base64url");
+  const unsigned = `${encode({ alg: "HS256", typ: "JWT" })}.${encode(claims)}`;
+  const signature = createHmac("sha256", secret)
+    .update(unsigned)
+    .digest("base64url");
+  return `${unsigned}.${signature}`;
+}
+
+function userToken(claims: Record<string, unknown> = {}): string {
+  return accessToken({
+    sub: USER_ID,
+    role: "authenticated",
+    exp: Math.floor(Date.now() / 1000) + 60,
+    ...claims,
+  });
+}
+
+function claimsOf(token: string): Record<string, unknown> {
+  return JSON.parse(Buffer.from(token.split(".")[1], "base64url").toString());
+}
+
+describe("signBrandSessionToken", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("signs the brand claim for the authenticated role", () => {
+    const token = signBrandSessionToken(context, { jwt_secret: JWT_SECRET });
+    const [header, payload, signature] = token.split(".");
+
+    expect(claimsOf(token)).toMatchObject({
+      role: "authenticated",
+      brand_id: "gnymble",
+    });
+    expect(signature).toBe(
+      createHmac("sha256", JWT_SECRET)
+        .update(`${header}.${payload}`)
+        .digest("base64url")
+    );
+  });
+
+  it("does not sign an unverified context.user_id", () => {
+    const token = signBrandSessionToken(
+      { ...context, user_id: USER_ID },
+      { jwt_secret: JWT_SECRET }
+    );
+    expect(claimsOf(token)).not.toHaveProperty("sub");
+  });
+
+  it("acts as the user of a verified access token", () => {
+    const exp = Math.floor(Date.now() / 1000) + 30;
+    const token = signBrandSessionToken(context, {
+      jwt_secret: JWT_SECRET,
+      access_token: userToken({ exp }),
+    });
+    expect(claimsOf(token)).toMatchObject({
+      sub: USER_ID,
+      brand_id: "gnymble",
+      exp, // Not past the user's token
+    });
+  });
+
+  it.each([
+    ["forged", accessToken({ sub: USER_ID, role: "authenticated" }, "other")],
+    ["expired", userToken({ exp: Math.floor(Date.now() / 1000) - 1 })],
+    ["not a user", userToken({ role: "anon", sub: undefined })],
+    ["malformed", "not-a-jwt"],
+  ])("rejects %s access tokens", (_, token) => {
+    expect(() =>
+      signBrandSessionToken(context, {
+        jwt_secret: JWT_SECRET,
+        access_token: token,
+      })
+    ).toThrow(expect.objectContaining({ code: "invalid_token", status: 401 }));
+  });
+
+  it("rejects access tokens for another user or brand", () => {
+    for (const [user_id, token] of [
+      ["66666666-6666-4666-8666-666666666666", userToken()],
+      [undefined, userToken({ brand_id: "percymd" })],
+    ] as const) {
+      expect(() =>
+        signBrandSessionToken(
+          { ...context, user_id },
+          { jwt_secret: JWT_SECRET, access_token: token }
+        )
+      ).toThrow(
+        expect.objectContaining({ code: "context_mismatch", status: 403 })
+      );
+    }
+  });
+
+  it("refuses to sign in the browser", () => {
+    vi.stubGlobal("window", {});
+    expect(() =>
+      signBrandSessionToken(context, { jwt_secret: JWT_SECRET })
+    ).toThrow("must not be created in the browser");
+  });
+});
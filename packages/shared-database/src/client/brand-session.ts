@@ -0,0 +1,157 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { BrandContext, BrandSessionError } from "../types/brand";
+import type { Database } from "./supabase";
+import { createScopedClient, SupabaseConfig } from "./factory";
+
+// Options for brand-scoped sessions; each falls back to its env var
+export interface BrandSessionOptions extends SupabaseConfig {
+  jwt_secret?: string; // SUPABASE_JWT_SECRET, the project's JWT signing secret
+  expires_in?: number; // Token lifetime in seconds (default 1 hour)
+  // The calling user's Supabase access token. The session acts as that user
+  // once the token is verified; without it, it acts for no user.
+  access_token?: string;
+}
+
+const DEFAULT_EXPIRES_IN = 60 * 60;
+
+function base64url(input: string | Buffer): string {
+  return Buffer.from(input)
+    .toString("base64")
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+function sign(input: string, secret: string): string {
+  return base64url(createHmac("sha256", secret).update(input).digest());
+}
+
+// Claims of a Supabase user access token signed with the project's secret
+interface UserTokenClaims {
+  sub: string;
+  exp: number;
+  brand_id?: string;
+}
+
+function verifyUserToken(
+  token: string,
+  secret: string,
+  context: BrandContext
+): UserTokenClaims {
+  const invalid = (reason: string) =>
+    new BrandSessionError(
+      "invalid_token",
+      `Invalid access token: ${reason}`,
+      context.brand_id
+    );
+
+  const [header, payload, signature, ...rest] = token.split(".");
+  if (!header || !payload || !signature || rest.length) {
+    throw invalid("malformed");
+  }
+
+  let claims: Record<string, unknown>;
+  try {
+    if (
+      JSON.parse(Buffer.from(header, "base64url").toString()).alg !== "HS256"
+    ) {
+      throw invalid("unsupported algorithm");
+    }
+    claims = JSON.parse(Buffer.from(payload, "base64url").toString());
+  } catch (error) {
+    throw error instanceof BrandSessionError ? error : invalid("malformed");
+  }
+
+  const expected = Buffer.from(sign(`${header}.${payload}`, secret));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    throw invalid("bad signature");
+  }
+  if (typeof claims.exp !== "number" || claims.exp <= Date.now() / 1000) {
+    throw invalid("expired");
+  }
+  if (claims.role !== "authenticated" || typeof claims.sub !== "string") {
+    throw invalid("not a user token");
+  }
+
+  return claims as unknown as UserTokenClaims;
+}
+
+// Sign a JWT carrying the brand claim read by current_brand_id() in the RLS
+// policies. The token acts as the `authenticated` role; its `sub` is taken
+// from a verified options.access_token, never from context.user_id alone.
+// The audit triggers record the `sub` as the actor of each change.
+// Server only: the secret can sign sessions for any brand.
+export function signBrandSessionToken(
+  context: BrandContext,
+  options: Pick<
+    BrandSessionOptions,
+    "jwt_secret" | "expires_in" | "access_token"
+  > = {}
+): string {
+  if (typeof window !== "undefined") {
+    throw new Error("Brand sessions must not be created in the browser");
+  }
+
+  const secret = options.jwt_secret || process.env.SUPABASE_JWT_SECRET;
+  if (!secret) {
+    throw new Error(
+      "Missing Supabase JWT secret (SUPABASE_JWT_SECRET) for brand sessions"
+    );
+  }
+
+  const issuedAt = Math.floor(Date.now() / 1000);
+  let expiresAt = issuedAt + (options.expires_in ?? DEFAULT_EXPIRES_IN);
+  let userId: string | undefined;
+
+  if (options.access_token) {
+    const user = verifyUserToken(options.access_token, secret, context);
+    if (context.user_id && context.user_id !== user.sub) {
+      throw new BrandSessionError(
+        "context_mismatch",
+        "Access token belongs to another user than the brand context",
+        context.brand_id
+      );
+    }
+    if (user.brand_id && user.brand_id !== context.brand_id) {
+      throw new BrandSessionError(
+        "context_mismatch",
+        `Access token is scoped to brand ${user.brand_id}`,
+        context.brand_id
+      );
+    }
+    userId = user.sub;
+    expiresAt = Math.min(expiresAt, user.exp); // Not past the user's token
+  }
+
+  const header = base64url(JSON.stringify({ alg: "HS256", typ: "JWT" }));
+  const payload = base64url(
+    JSON.stringify({
+      ...(userId && { sub: userId }),
+      role: "authenticated",
+      aud: "authenticated",
+      brand_id: context.brand_id,
+      iat: issuedAt,
+      exp: expiresAt,
+    })
+  );
+
+  return `${header}.${payload}.${sign(`${header}.${payload}`, secret)}`;
+}
+
+// Supabase client whose requests are scoped to one brand by the database's
+// RLS policies, so a query that forgets its brand filter still only sees
+// that brand. Create one per request; clients are not shared between brands.
+export function createBrandSessionClient(
+  context: BrandContext,
+  options: BrandSessionOptions = {}
+): SupabaseClient<Database> {
+  return createScopedClient({
+    ...options,
+    auth: {
+      type: "user",
+      access_token: signBrandSessionToken(context, options),
+    },
+  });
+}
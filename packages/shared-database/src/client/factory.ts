@@ -0,0 +1,66 @@
+import { createClient, SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "./supabase";
+
+// Supabase project to connect to; each falls back to its env var
+export interface SupabaseConfig {
+  url?: string; // NEXT_PUBLIC_SUPABASE_URL
+  anon_key?: string; // NEXT_PUBLIC_SUPABASE_ANON_KEY
+  service_role_key?: string; // SUPABASE_SERVICE_ROLE_KEY, server only
+  fetch?: typeof fetch; // Serves the requests, e.g. a MemoryDatabase's
+}
+
+// Who the client's requests act as. A user's own Supabase token has no brand
+// claim, so the brand tables' RLS policies hide every row from it; brand data
+// goes through a brand session (createBrandSessionClient) instead.
+export type SupabaseAuth =
+  | { type: "anon" }
+  | { type: "user"; access_token: string } // A user's (or brand session) JWT
+  | { type: "service_role" }; // Bypasses RLS; server only
+
+export interface ScopedClientOptions extends SupabaseConfig {
+  auth?: SupabaseAuth; // Default anon
+}
+
+// Create a new Supabase client for one project and one caller. Nothing is
+// cached or shared, so one request's auth never reaches another request;
+// create a client per request (or per job) and let it go afterwards.
+export function createScopedClient(
+  options: ScopedClientOptions = {}
+): SupabaseClient<Database> {
+  const auth = options.auth || { type: "anon" };
+  const url = options.url || process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const anonKey = options.anon_key || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+
+  if (auth.type === "service_role") {
+    if (typeof window !== "undefined") {
+      throw new Error(
+        "Service role clients must not be created in the browser"
+      );
+    }
+
+    const serviceRoleKey =
+      options.service_role_key || process.env.SUPABASE_SERVICE_ROLE_KEY;
+    if (!url || !serviceRoleKey) {
+      throw new Error("Missing Supabase service role configuration");
+    }
+
+    return createClient<Database>(url, serviceRoleKey, {
+      auth: { persistSession: false, autoRefreshToken: false },
+      global: { fetch: options.fetch },
+    });
+  }
+
+  if (!url || !anonKey) {
+    throw new Error("Missing Supabase configuration");
+  }
+
+  return createClient<Database>(url, anonKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+    global: {
+      fetch: options.fetch,
+      ...(auth.type === "user" && {
+        headers: { Authorization: `Bearer ${auth.access_token}` },
+      }),
+    },
+  });
+}
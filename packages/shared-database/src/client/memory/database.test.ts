@@ -0,0 +1,435 @@
+import { randomUUID } from "crypto";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { createBrandSessionClient } from "../brand-session";
+import type { Database } from "../supabase";
+import { getBrandConfig } from "../../types/brand";
+import { applyKeyset, toPaginatedResult } from "../../utils/pagination";
+import { createMemoryDatabase, MemoryDatabase } from "./index";
+import { signToken } from "./postgrest";
+
+// Supabase clients against the in-memory database: the PostgREST requests
+// they send, answered from the migrations' schema
+
+describe("MemoryDatabase", () => {
+  let memory: MemoryDatabase;
+  let db: SupabaseClient<Database>;
+
+  async function insertCustomer(row: Record<string, unknown>) {
+    const { data, error } = await db
+      .from("customers")
+      .insert({ brand_id: "gnymble", ...row })
+      .select()
+      .single();
+    expect(error).toBeNull();
+    return data!;
+  }
+
+  async function insertConversation(customer_id: unknown) {
+    const { data } = await db
+      .from("conversations")
+      .insert({
+        brand_id: "gnymble",
+        customer_id,
+        customer_phone: "+14155552671",
+        brand_phone: "+14155550100",
+      })
+      .select()
+      .single();
+    return data!;
+  }
+
+  const rows = (table: string) =>
+    memory.query(`SELECT * FROM ${table} ORDER BY created_at`);
+
+  beforeAll(async () => {
+    memory = await createMemoryDatabase();
+    db = memory.client();
+  });
+
+  afterAll(() => memory.close());
+
+  beforeEach(() => memory.reset());
+
+  describe("queries", () => {
+    it("fills column defaults and returns inserted rows when selected", async () => {
+      const customer = await insertCustomer({ email: "ann@example.com" });
+
+      expect(customer).toMatchObject({
+        brand_id: "gnymble",
+        email: "ann@example.com",
+        stage: "lead",
+        source: "website",
+        is_active: true,
+      });
+      expect(customer.id).toEqual(expect.any(String));
+
+      const result = await db
+        .from("customers")
+        .insert({ brand_id: "gnymble", email: "bob@example.com" });
+      expect(result).toMatchObject({ data: null, error: null, status: 201 });
+    });
+
+    it("applies filters, ordering and ranges", async () => {
+      for (const [email, stage] of [
+        ["ann@example.com", "lead"],
+        ["bob@example.com", "trial"],
+        ["cy@example.org", "active"],
+        ["dee@example.org", "lead"],
+      ]) {
+        await insertCustomer({ email, stage });
+      }
+      const emails = async (query: PromiseLike<{ data: unknown }>) =>
+        ((await query).data as { email: string }[]).map((row) => row.email);
+      const customers = () => db.from("customers").select("email");
+
+      expect(await emails(customers().eq("stage", "lead"))).toEqual([
+        "ann@example.com",
+        "dee@example.org",
+      ]);
+      expect(await emails(customers().ilike("email", "%.ORG"))).toHaveLength(2);
+      expect(
+        await emails(customers().in("stage", ["trial", "active"]))
+      ).toEqual(["bob@example.com", "cy@example.org"]);
+      expect(
+        await emails(customers().or("stage.eq.trial,email.like.cy*"))
+      ).toEqual(["bob@example.com", "cy@example.org"]);
+      expect(
+        await emails(customers().not("stage", "eq", "lead").is("phone", null))
+      ).toEqual(["bob@example.com", "cy@example.org"]);
+      expect(
+        await emails(
+          customers().order("email", { ascending: false }).range(1, 2)
+        )
+      ).toEqual(["cy@example.org", "bob@example.com"]);
+    });
+
+    it("counts matching rows", async () => {
+      await insertCustomer({ email: "ann@example.com" });
+      await insertCustomer({ email: "bob@example.com" });
+
+      const { data, count } = await db
+        .from("customers")
+        .select("*", { count: "exact", head: true })
+        .eq("brand_id", "gnymble");
+      expect(data).toBeNull();
+      expect(count).toBe(2);
+    });
+
+    it("embeds related rows and filters on them", async () => {
+      const customer = await insertCustomer({ email: "ann@example.com" });
+      const conversation = await insertConversation(customer.id);
+      await db.from("messages").insert([
+        {
+          conversation_id: conversation.id,
+          direction: "inbound",
+          content: "hi",
+        },
+        {
+          conversation_id: conversation.id,
+          direction: "outbound",
+          content: "hello",
+        },
+      ]);
+
+      const { data } = await db
+        .from("conversations")
+        .select("id, customers!inner(email), messages(content)")
+        .eq("customers.email", "ann@example.com")
+        .single();
+      expect(data).toMatchObject({
+        id: conversation.id,
+        customers: { email: "ann@example.com" },
+      });
+      expect(data!.messages).toHaveLength(2);
+
+      const { data: none } = await db
+        .from("conversations")
+        .select("id, customers!inner(email)")
+        .eq("customers.email", "bob@example.com");
+      expect(none).toEqual([]);
+    });
+
+    it("updates and upserts matching rows", async () => {
+      const customer = await insertCustomer({ email: "ann@example.com" });
+
+      const { data: updated } = await db
+        .from("customers")
+        .update({ first_name: "Ann" })
+        .eq("id", customer.id)
+        .select()
+        .single();
+      expect(updated).toMatchObject({ id: customer.id, first_name: "Ann" });
+
+      const { data: upserted } = await db
+        .from("customers")
+        .upsert(
+          { brand_id: "gnymble", email: "ann@example.com", last_name: "Lee" },
+          { onConflict: "brand_id,email" }
+        )
+        .select();
+      expect(upserted).toEqual([
+        expect.objectContaining({ id: customer.id, last_name: "Lee" }),
+      ]);
+    });
+
+    it("pages with applyKeyset", async () => {
+      for (const email of ["a@example.com", "b@example.com", "c@example.com"]) {
+        await insertCustomer({ email });
+      }
+
+      const page = async (cursor?: string) => {
+        const { data } = await applyKeyset(
+          db.from("customers").select("*"),
+          "email",
+          { cursor },
+          2
+        );
+        return toPaginatedResult(
+          data as { id: string; email: string }[],
+          "email",
+          2
+        );
+      };
+
+      const first = await page();
+      expect(first.items.map((row) => row.email)).toEqual([
+        "c@example.com",
+        "b@example.com",
+      ]);
+      expect(first.has_more).toBe(true);
+
+      const second = await page(first.next_cursor!);
+      expect(second.items.map((row) => row.email)).toEqual(["a@example.com"]);
+      expect(second).toMatchObject({ has_more: false, next_cursor: null });
+    });
+
+    it("returns PGRST116 from single() unless exactly one row matches", async () => {
+      const missing = await db
+        .from("customers")
+        .select()
+        .eq("email", "nobody@example.com")
+        .single();
+      expect(missing).toMatchObject({
+        data: null,
+        error: { code: "PGRST116" },
+        status: 406,
+      });
+
+      const maybe = await db
+        .from("customers")
+        .select()
+        .eq("email", "nobody@example.com")
+        .maybeSingle();
+      expect(maybe).toMatchObject({ data: null, error: null });
+    });
+  });
+
+  describe("constraints", () => {
+    it.each([
+      ["23505", { email: "ann@example.com" }],
+      ["23503", { email: "bob@example.com", brand_id: "unknown" }],
+      ["23502", { email: null }],
+      ["22P02", { email: "bob@example.com", stage: "prospect" }],
+      ["23514", { email: "bob@example.com", phone: "555-1234" }],
+    ])("returns %s for a violating row", async (code, row) => {
+      await insertCustomer({ email: "ann@example.com" });
+
+      const { data, error } = await db
+        .from("customers")
+        .insert({ brand_id: "gnymble", ...row });
+      expect(data).toBeNull();
+      expect(error).toMatchObject({ code });
+    });
+
+    it("keeps unique constraints per brand", async () => {
+      await insertCustomer({ email: "ann@example.com" });
+
+      const { error } = await db
+        .from("customers")
+        .insert({ brand_id: "percytext", email: "ann@example.com" });
+      expect(error).toBeNull();
+    });
+
+    it("rolls back a multi-row insert when one row fails", async () => {
+      const { error } = await db.from("customers").insert([
+        { brand_id: "gnymble", email: "ann@example.com" },
+        { brand_id: "gnymble", email: "ann@example.com" },
+      ]);
+      expect(error).toMatchObject({ code: "23505" });
+      expect(await rows("customers")).toEqual([]);
+      expect(await rows("audit_events")).toEqual([]);
+    });
+
+    it("cascades deletes and restricts deleting referenced brands", async () => {
+      const customer = await insertCustomer({ email: "ann@example.com" });
+      const conversation = await insertConversation(customer.id);
+      await db.from("messages").insert({
+        conversation_id: conversation.id,
+        direction: "inbound",
+        content: "hi",
+      });
+
+      const { error: restricted } = await db
+        .from("brands")
+        .delete()
+        .eq("id", "gnymble");
+      expect(restricted).toMatchObject({ code: "23503" });
+
+      await db.from("customers").delete().eq("id", customer.id);
+      expect(await rows("conversations")).toEqual([]);
+      expect(await rows("messages")).toEqual([]);
+    });
+  });
+
+  describe("rpc", () => {
+    it("runs database functions", async () => {
+      const customer = await insertCustomer({ email: "ann@example.com" });
+      const conversation = await insertConversation(customer.id);
+
+      const { data, error } = await db.rpc("add_message", {
+        p_brand_id: "gnymble",
+        p_conversation_id: conversation.id,
+        p_direction: "inbound",
+        p_content: "hi",
+      });
+      expect(error).toBeNull();
+      expect(data).toMatchObject({ content: "hi", direction: "inbound" });
+      expect((await rows("conversations"))[0].message_count).toBe(1);
+    });
+
+    it("records merge events instead of the moved rows' updates", async () => {
+      const survivor = await insertCustomer({ email: "ann@example.com" });
+      const duplicate = await insertCustomer({
+        email: "ann+shop@example.com",
+        first_name: "Ann",
+      });
+      await insertConversation(duplicate.id);
+      await memory.query("TRUNCATE audit_events");
+
+      const { error } = await db.rpc("merge_customers", {
+        p_brand_id: "gnymble",
+        p_survivor_id: survivor.id,
+        p_duplicate_id: duplicate.id,
+      });
+      expect(error).toBeNull();
+      expect(await rows("audit_events")).toMatchObject([
+        {
+          entity_id: survivor.id,
+          action: "merge",
+          changes: {
+            first_name: { from: null, to: "Ann" },
+            merged_customer_id: { from: null, to: duplicate.id },
+          },
+        },
+        {
+          entity_id: duplicate.id,
+          action: "merge",
+          changes: {
+            email: { from: "ann+shop@example.com", to: null },
+            merged_into: { from: null, to: survivor.id },
+          },
+        },
+      ]);
+    });
+
+    it("returns function errors and PGRST202 for unknown functions", async () => {
+      const notFound = await db.rpc("add_message", {
+        p_brand_id: "gnymble",
+        p_conversation_id: "00000000-0000-4000-8000-000000000000",
+        p_direction: "inbound",
+        p_content: "hi",
+      });
+      expect(notFound.error).toMatchObject({ code: "P0002" });
+
+      const unknown = await db.rpc("no_such_function");
+      expect(unknown.error).toMatchObject({ code: "PGRST202" });
+    });
+  });
+
+  describe("auth", () => {
+    it("applies the RLS policies to brand sessions", async () => {
+      await insertCustomer({ email: "ann@example.com" });
+      await db
+        .from("customers")
+        .insert({ brand_id: "percymd", email: "pat@example.com" });
+
+      const session = createBrandSessionClient(
+        { brand_id: "percymd", config: getBrandConfig("percymd") },
+        memory.config
+      );
+      const { data } = await session.from("customers").select("email");
+      expect(data).toEqual([{ email: "pat@example.com" }]);
+
+      const { error } = await session
+        .from("customers")
+        .insert({ brand_id: "gnymble", email: "eve@example.com" });
+      expect(error).toMatchObject({ code: "42501" });
+    });
+
+    it("records audit events as the session's user", async () => {
+      const user_id = randomUUID();
+      const session = createBrandSessionClient(
+        { brand_id: "gnymble", config: getBrandConfig("gnymble") },
+        {
+          ...memory.config,
+          access_token: signToken(
+            {
+              role: "authenticated",
+              sub: user_id,
+              exp: Math.floor(Date.now() / 1000) + 60,
+            },
+            memory.config.jwt_secret
+          ),
+        }
+      );
+
+      const { data } = await session
+        .from("customers")
+        .insert({ brand_id: "gnymble", email: "ann@example.com" })
+        .select()
+        .single();
+      for (let i = 0; i < 2; i++) {
+        await session
+          .from("customers")
+          .update({ first_name: "Ann" })
+          .eq("id", data!.id);
+      }
+
+      expect(await rows("audit_events")).toMatchObject([
+        { actor_id: user_id, entity_id: data!.id, action: "create" },
+        {
+          actor_id: user_id,
+          action: "update",
+          changes: { first_name: { from: null, to: "Ann" } },
+        },
+      ]);
+    });
+
+    it("rejects tokens not signed with the project's secret", async () => {
+      const forged = createBrandSessionClient(
+        { brand_id: "gnymble", config: getBrandConfig("gnymble") },
+        { ...memory.config, jwt_secret: "another-secret" }
+      );
+
+      const { error, status } = await forged.from("customers").select();
+      expect(status).toBe(401);
+      expect(error).toMatchObject({ code: "PGRST301" });
+    });
+  });
+
+  it("reset() clears rows but keeps the built-in brands", async () => {
+    await insertCustomer({ email: "ann@example.com" });
+
+    await memory.reset();
+    expect(await rows("customers")).toEqual([]);
+    expect((await rows("brands")).map((brand) => brand.id)).toContain(
+      "gnymble"
+    );
+  });
+
+  it("reports unknown tables as 42P01", async () => {
+    const { error } = await db.from("no_such_table").select();
+    expect(error).toMatchObject({ code: "42P01" });
+  });
+});
@@ -0,0 +1,108 @@
+import { randomBytes } from "crypto";
+import { PGlite } from "@electric-sql/pglite";
+import { pg_trgm } from "@electric-sql/pglite/contrib/pg_trgm";
+import { uuid_ossp } from "@electric-sql/pglite/contrib/uuid_ossp";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { BrandSessionOptions } from "../brand-session";
+import { createScopedClient, SupabaseAuth } from "../factory";
+import type { Database } from "../supabase";
+import { MigrationRunner } from "../../utils/migrations";
+import { PostgrestServer, signToken } from "./postgrest";
+
+const URL = "http://memory.localhost";
+
+// Roles of a Supabase project. service_role bypasses RLS and can use every
+// table; anon and authenticated only get what the migrations grant them.
+const ROLES_SQL = `
+  CREATE ROLE anon NOLOGIN NOINHERIT;
+  CREATE ROLE authenticated NOLOGIN NOINHERIT;
+  CREATE ROLE service_role NOLOGIN NOINHERIT BYPASSRLS;
+  GRANT USAGE ON SCHEMA public TO anon, authenticated, service_role;
+  ALTER DEFAULT PRIVILEGES IN SCHEMA public GRANT ALL ON TABLES TO service_role;
+  ALTER DEFAULT PRIVILEGES IN SCHEMA public GRANT ALL ON SEQUENCES TO service_role;
+  ALTER DEFAULT PRIVILEGES IN SCHEMA public GRANT ALL ON FUNCTIONS TO service_role;
+`;
+
+// Tables reset() keeps: the brands seeded by the migrations, and the
+// applied migrations
+const KEPT_TABLES = ["brands", "schema_migrations"];
+
+// In-memory Supabase project for tests and local development: an embedded
+// Postgres (PGlite) with the schema of the migrations, behind a PostgREST
+// API that Supabase clients reach through `config.fetch`. Queries run with
+// the same constraints, database functions, RLS policies and grants as on
+// Supabase. Create one with createMemoryDatabase().
+export class MemoryDatabase {
+  private server: PostgrestServer;
+
+  // Project settings for createScopedClient, createBrandSessionClient or
+  // createDatabaseClient's `session`
+  readonly config: Required<
+    Pick<
+      BrandSessionOptions,
+      "url" | "anon_key" | "service_role_key" | "jwt_secret" | "fetch"
+    >
+  >;
+
+  constructor(private db: PGlite) {
+    const jwt_secret = randomBytes(32).toString("hex");
+    this.server = new PostgrestServer(db, jwt_secret);
+    this.config = {
+      url: URL,
+      anon_key: signToken({ role: "anon" }, jwt_secret),
+      service_role_key: signToken({ role: "service_role" }, jwt_secret),
+      jwt_secret,
+      fetch: (input, init) => this.server.handle(new Request(input, init)),
+    };
+  }
+
+  // Supabase client of the project (default: the service role)
+  client(
+    auth: SupabaseAuth = { type: "service_role" }
+  ): SupabaseClient<Database> {
+    return createScopedClient({ ...this.config, auth });
+  }
+
+  // Run SQL as the database owner, bypassing the API
+  async query<T = Record<string, unknown>>(
+    sql: string,
+    params: unknown[] = []
+  ): Promise<T[]> {
+    return this.db.transaction(
+      async (tx) => (await tx.query<T>(sql, params)).rows
+    );
+  }
+
+  // Remove all rows, keeping the brands seeded by the migrations
+  async reset(): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      const { rows } = await tx.query<{ tablename: string }>(
+        "SELECT tablename FROM pg_tables WHERE schemaname = 'public' AND tablename <> ALL ($1)",
+        [KEPT_TABLES]
+      );
+      if (rows.length) {
+        await tx.query(
+          `TRUNCATE ${rows.map((row) => `"${row.tablename}"`).join(", ")} RESTART IDENTITY`
+        );
+      }
+    });
+  }
+
+  async close(): Promise<void> {
+    await this.db.close();
+  }
+}
+
+// Start an in-memory database and apply the migrations
+export async function createMemoryDatabase(): Promise<MemoryDatabase> {
+  const db = new PGlite({ extensions: { pg_trgm, uuid_ossp } });
+  await db.exec(ROLES_SQL);
+  await new MigrationRunner({
+    query: async (text, values) =>
+      values
+        ? db.query(text, values)
+        : ((await db.exec(text)).at(-1) ?? { rows: [] }),
+  }).up();
+
+  return new MemoryDatabase(db);
+}
@@ -0,0 +1,3 @@
+// In-memory database for tests and local development
+export { MemoryDatabase, createMemoryDatabase } from "./database";
+export { MemoryDatabaseError } from "./postgrest";
@@ -0,0 +1,850 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import type { PGlite, Transaction } from "@electric-sql/pglite";
+
+// The PostgREST API of an embedded Postgres, as far as supabase-js and the
+// operations classes use it: reads with embedded resources and filters,
+// inserts, upserts, updates, deletes and function calls. Each request runs in
+// its own transaction as the role of its JWT (anon, authenticated or
+// service_role) with the claims in request.jwt.claims, so the RLS policies
+// and grants of the migrations apply as on Supabase.
+
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const ROLES = ["anon", "authenticated", "service_role"];
+const SINGLE_OBJECT = "application/vnd.pgrst.object+json";
+
+const OPERATORS: Record<string, string> = {
+  eq: "=",
+  neq: "<>",
+  gt: ">",
+  gte: ">=",
+  lt: "<",
+  lte: "<=",
+  like: "LIKE",
+  ilike: "ILIKE",
+  cs: "@>",
+  cd: "<@",
+  ov: "&&",
+};
+
+// Error returned as a PostgREST error response
+export class MemoryDatabaseError extends Error {
+  constructor(
+    public code: string,
+    message: string,
+    public status = 400,
+    public details: string | null = null,
+    public hint: string | null = null
+  ) {
+    super(message);
+    this.name = "MemoryDatabaseError";
+  }
+}
+
+interface Relationship {
+  constraint: string;
+  table: string;
+  columns: string[];
+  foreign_table: string;
+  foreign_columns: string[];
+}
+
+interface FunctionSignature {
+  args: { name: string; type: string; optional: boolean }[];
+  returns_set: boolean;
+}
+
+interface SchemaCache {
+  relationships: Relationship[];
+  primary_keys: Map<string, string[]>;
+  functions: Map<string, FunctionSignature[]>;
+}
+
+interface ParsedRequest {
+  request: Request;
+  schema: SchemaCache;
+  body: unknown;
+}
+
+type SelectItem =
+  | { kind: "star" }
+  | { kind: "column"; name: string; alias?: string; cast?: string }
+  | { kind: "embed"; node: QueryNode };
+
+// A table of the query: the requested one, or a resource embedded in its
+// parent through a foreign key
+interface QueryNode {
+  relation: string;
+  name: string; // Key in the parent's JSON
+  alias: string; // SQL alias, unique in the query
+  hint?: string;
+  inner: boolean;
+  items: SelectItem[];
+  conditions: string[];
+  order: string[];
+  limit?: number;
+  offset?: number;
+  join?: string; // Condition on the parent's alias
+  to_one?: boolean;
+}
+
+// Query parameters, numbered in the order they are added
+class Params {
+  values: string[] = [];
+
+  add(value: string): string {
+    this.values.push(value);
+    return `$${this.values.length}`;
+  }
+}
+
+function quoteIdent(name: string): string {
+  if (!IDENTIFIER.test(name)) {
+    throw new MemoryDatabaseError("PGRST100", `Invalid identifier: ${name}`);
+  }
+  return `"${name}"`;
+}
+
+// Split at commas outside parentheses and double quotes
+function splitTopLevel(input: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quoted = false;
+  let start = 0;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (char === "\\" && quoted) {
+      i++;
+    } else if (char === '"') {
+      quoted = !quoted;
+    } else if (!quoted && char === "(") {
+      depth++;
+    } else if (!quoted && char === ")") {
+      depth--;
+    } else if (!quoted && depth === 0 && char === ",") {
+      parts.push(input.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(input.slice(start));
+
+  return parts.filter((part) => part !== "");
+}
+
+function unquote(value: string): string {
+  return value.startsWith('"') && value.endsWith('"') && value.length > 1
+    ? value.slice(1, -1).replace(/\\(.)/g, "$1")
+    : value;
+}
+
+function base64url(input: string | Buffer): string {
+  return Buffer.from(input).toString("base64url");
+}
+
+// Sign an HS256 JWT, as Supabase does for its API keys
+export function signToken(
+  claims: Record<string, unknown>,
+  secret: string
+): string {
+  const unsigned = `${base64url(JSON.stringify({ alg: "HS256", typ: "JWT" }))}.${base64url(JSON.stringify(claims))}`;
+  return `${unsigned}.${base64url(createHmac("sha256", secret).update(unsigned).digest())}`;
+}
+
+function verifyToken(token: string, secret: string): Record<string, unknown> {
+  const invalid = (message: string) =>
+    new MemoryDatabaseError("PGRST301", message, 401);
+
+  const [header, payload, signature, ...rest] = token.split(".");
+  if (!header || !payload || !signature || rest.length) {
+    throw invalid("JWSError JWSInvalidSignature");
+  }
+
+  const expected = Buffer.from(
+    base64url(
+      createHmac("sha256", secret).update(`${header}.${payload}`).digest()
+    )
+  );
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    throw invalid("JWSError JWSInvalidSignature");
+  }
+
+  const claims = JSON.parse(Buffer.from(payload, "base64url").toString());
+  if (typeof claims.exp === "number" && claims.exp <= Date.now() / 1000) {
+    throw new MemoryDatabaseError("PGRST303", "JWT expired", 401);
+  }
+  return claims;
+}
+
+// HTTP status PostgREST answers a Postgres error with
+function statusOf(code: string, role: string): number {
+  if (code === "42501") return role === "anon" ? 401 : 403;
+  if (code === "23503" || code === "23505") return 409;
+  if (code === "42883" || code === "42P01") return 404;
+  if (code === "P0001") return 400;
+  if (/^(08|53)/.test(code)) return 503;
+  if (/^(22|23|42)/.test(code)) return 400;
+  return 500;
+}
+
+function response(
+  status: number,
+  body: unknown,
+  headers: Record<string, string> = {}
+): Response {
+  return new Response(body === undefined ? null : JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...headers },
+  });
+}
+
+export class PostgrestServer {
+  private schema: SchemaCache | null = null;
+
+  constructor(
+    private db: PGlite,
+    private jwtSecret: string
+  ) {}
+
+  // Serve a request to /rest/v1/<table> or /rest/v1/rpc/<function>
+  async handle(request: Request): Promise<Response> {
+    let role = "anon";
+    try {
+      const claims = this.authenticate(request);
+      role = typeof claims.role === "string" ? claims.role : "anon";
+      if (!ROLES.includes(role)) {
+        throw new MemoryDatabaseError("PGRST301", `Unknown role ${role}`, 401);
+      }
+
+      const path = new URL(request.url).pathname.match(
+        /^\/rest\/v1\/(?:(rpc)\/)?([^/]+)$/
+      );
+      if (!path) {
+        throw new MemoryDatabaseError(
+          "PGRST125",
+          `Invalid path ${new URL(request.url).pathname}`,
+          404
+        );
+      }
+      const body = request.body ? await request.text() : "";
+
+      return await this.db.transaction(async (tx) => {
+        const schema = await this.loadSchema(tx);
+        await tx.query(`SET LOCAL ROLE ${quoteIdent(role)}`);
+        await tx.query("SELECT set_config('request.jwt.claims', $1, TRUE)", [
+          JSON.stringify(claims),
+        ]);
+
+        const parsed: ParsedRequest = {
+          request,
+          schema,
+          body: body ? JSON.parse(body) : undefined,
+        };
+        return path[1]
+          ? this.call(tx, path[2], parsed)
+          : this.query(tx, path[2], parsed);
+      });
+    } catch (error) {
+      if (error instanceof MemoryDatabaseError) {
+        return response(error.status, {
+          code: error.code,
+          message: error.message,
+          details: error.details,
+          hint: error.hint,
+        });
+      }
+      const failure = error as {
+        code?: string;
+        message: string;
+        detail?: string;
+        hint?: string;
+      };
+      const code = failure.code ?? "XX000";
+      return response(statusOf(code, role), {
+        code,
+        message: failure.message,
+        details: failure.detail ?? null,
+        hint: failure.hint ?? null,
+      });
+    }
+  }
+
+  private authenticate(request: Request): Record<string, unknown> {
+    const token =
+      request.headers.get("authorization")?.replace(/^Bearer\s+/i, "") ||
+      request.headers.get("apikey");
+    return token ? verifyToken(token, this.jwtSecret) : { role: "anon" };
+  }
+
+  // Foreign keys, primary keys and functions of the public schema, read once
+  private async loadSchema(tx: Transaction): Promise<SchemaCache> {
+    if (this.schema) return this.schema;
+
+    const { rows: relationships } = await tx.query<Relationship>(`
+      SELECT
+        c.conname AS constraint,
+        t.relname AS table,
+        f.relname AS foreign_table,
+        (SELECT json_agg(a.attname ORDER BY k.i)
+           FROM unnest(c.conkey) WITH ORDINALITY AS k (n, i)
+           JOIN pg_attribute a ON a.attrelid = c.conrelid AND a.attnum = k.n) AS columns,
+        (SELECT json_agg(a.attname ORDER BY k.i)
+           FROM unnest(c.confkey) WITH ORDINALITY AS k (n, i)
+           JOIN pg_attribute a ON a.attrelid = c.confrelid AND a.attnum = k.n) AS foreign_columns
+      FROM pg_constraint c
+      JOIN pg_class t ON t.oid = c.conrelid
+      JOIN pg_class f ON f.oid = c.confrelid
+      JOIN pg_namespace n ON n.oid = t.relnamespace
+      WHERE c.contype = 'f' AND n.nspname = 'public'
+    `);
+
+    const { rows: keys } = await tx.query<{
+      table: string;
+      columns: string[];
+    }>(`
+      SELECT t.relname AS table, json_agg(a.attname ORDER BY k.i) AS columns
+      FROM pg_index i
+      JOIN pg_class t ON t.oid = i.indrelid
+      JOIN pg_namespace n ON n.oid = t.relnamespace
+      CROSS JOIN unnest(i.indkey::int2[]) WITH ORDINALITY AS k (n, i)
+      JOIN pg_attribute a ON a.attrelid = i.indrelid AND a.attnum = k.n
+      WHERE i.indisprimary AND n.nspname = 'public'
+      GROUP BY t.relname
+    `);
+
+    const { rows: functions } = await tx.query<{
+      name: string;
+      returns_set: boolean;
+      defaults: number;
+      names: string[] | null;
+      modes: string[] | null;
+      types: string[] | null;
+    }>(`
+      SELECT
+        p.proname AS name,
+        p.proretset AS returns_set,
+        p.pronargdefaults AS defaults,
+        to_json(p.proargnames) AS names,
+        to_json(p.proargmodes::TEXT[]) AS modes,
+        (SELECT json_agg(format_type(a.t, NULL) ORDER BY a.i)
+           FROM unnest(p.proargtypes::oid[]) WITH ORDINALITY AS a (t, i)) AS types
+      FROM pg_proc p
+      JOIN pg_namespace n ON n.oid = p.pronamespace
+      WHERE n.nspname = 'public' AND p.prokind = 'f'
+    `);
+
+    const signatures = new Map<string, FunctionSignature[]>();
+    for (const fn of functions) {
+      const types = fn.types ?? [];
+      const names = (fn.names ?? []).filter(
+        (_, i) => !fn.modes || ["i", "b", "v"].includes(fn.modes[i])
+      );
+      const args = types.map((type, i) => ({
+        name: names[i] ?? "",
+        type,
+        optional: i >= types.length - fn.defaults,
+      }));
+      signatures.set(fn.name, [
+        ...(signatures.get(fn.name) ?? []),
+        { args, returns_set: fn.returns_set },
+      ]);
+    }
+
+    this.schema = {
+      relationships,
+      primary_keys: new Map(keys.map((key) => [key.table, key.columns])),
+      functions: signatures,
+    };
+    return this.schema;
+  }
+
+  // Read or write a table or view
+  private async query(
+    tx: Transaction,
+    relation: string,
+    { request, schema, body }: ParsedRequest
+  ): Promise<Response> {
+    const url = new URL(request.url);
+    const prefer = request.headers.get("prefer") ?? "";
+    const params = new Params();
+    const root = this.parseQuery(url, relation, schema, params);
+    const table = quoteIdent(relation);
+
+    let source = table;
+    let mutation = "";
+    let status = 200;
+
+    if (request.method === "POST") {
+      const rows = Array.isArray(body) ? body : [body];
+      const columns = url.searchParams.get("columns")
+        ? splitTopLevel(url.searchParams.get("columns")!).map(unquote)
+        : Object.keys(rows[0] ?? {});
+      const list = columns.map(quoteIdent).join(", ");
+      const json = params.add(JSON.stringify(rows));
+
+      let conflict = "";
+      const resolution = prefer.match(/resolution=(merge|ignore)-duplicates/);
+      if (resolution) {
+        const target = url.searchParams.get("on_conflict")
+          ? url.searchParams.get("on_conflict")!.split(",")
+          : (schema.primary_keys.get(relation) ?? []);
+        conflict =
+          resolution[1] === "ignore"
+            ? `ON CONFLICT (${target.map(quoteIdent).join(", ")}) DO NOTHING`
+            : `ON CONFLICT (${target.map(quoteIdent).join(", ")}) DO UPDATE SET ${columns
+                .map(
+                  (column) =>
+                    `${quoteIdent(column)} = EXCLUDED.${quoteIdent(column)}`
+                )
+                .join(", ")}`;
+      }
+
+      mutation = `INSERT INTO ${table} (${list})
+        SELECT ${list} FROM json_populate_recordset(NULL::${table}, ${json}::TEXT::JSON)
+        ${conflict}
+        RETURNING *`;
+      status = 201;
+    } else if (request.method === "PATCH") {
+      const columns = Object.keys(body ?? {});
+      if (!columns.length) {
+        throw new MemoryDatabaseError("PGRST100", "Empty update", 400);
+      }
+      const json = params.add(JSON.stringify(body));
+      mutation = `UPDATE ${table} AS ${quoteIdent(root.alias)}
+        SET ${columns
+          .map(
+            (column) =>
+              `${quoteIdent(column)} = pgrst_body.${quoteIdent(column)}`
+          )
+          .join(", ")}
+        FROM json_populate_record(NULL::${table}, ${json}::TEXT::JSON) AS pgrst_body
+        ${this.where(root)}
+        RETURNING ${quoteIdent(root.alias)}.*`;
+    } else if (request.method === "DELETE") {
+      mutation = `DELETE FROM ${table} AS ${quoteIdent(root.alias)}
+        ${this.where(root)}
+        RETURNING ${quoteIdent(root.alias)}.*`;
+    } else if (request.method !== "GET" && request.method !== "HEAD") {
+      throw new MemoryDatabaseError(
+        "PGRST117",
+        `Unsupported HTTP method: ${request.method}`,
+        405
+      );
+    }
+
+    if (mutation) {
+      // Filters were applied by the mutation; the returned rows are read as is
+      source = "pgrst_mutation";
+      root.conditions = [];
+    }
+
+    const sql = `${mutation ? `WITH pgrst_mutation AS (${mutation}) ` : ""}
+      SELECT
+        (SELECT coalesce(json_agg(pgrst_row), '[]')
+           FROM (${this.select(root, source)}) AS pgrst_row) AS body,
+        (SELECT count(*) FROM ${source} AS ${quoteIdent(root.alias)} ${this.where(root)})::INTEGER AS total`;
+
+    const { rows } = await tx.query<{ body: unknown[]; total: number }>(
+      sql,
+      params.values
+    );
+    const { body: result, total } = rows[0];
+
+    const representation =
+      !mutation || prefer.includes("return=representation");
+    return this.respond(request, result, total, {
+      status: representation ? status : status === 201 ? 201 : 204,
+      body: representation,
+      offset: root.offset ?? 0,
+    });
+  }
+
+  // Call a database function with named arguments
+  private async call(
+    tx: Transaction,
+    name: string,
+    { request, schema, body }: ParsedRequest
+  ): Promise<Response> {
+    const url = new URL(request.url);
+    const args = (body ?? {}) as Record<string, unknown>;
+    const given = Object.keys(args);
+    const signature = schema.functions
+      .get(name)
+      ?.find(
+        (candidate) =>
+          given.every((arg) => candidate.args.some((a) => a.name === arg)) &&
+          candidate.args.every((a) => a.optional || given.includes(a.name))
+      );
+    if (!signature) {
+      throw new MemoryDatabaseError(
+        "PGRST202",
+        `Could not find the function public.${name}(${given.join(", ")}) in the schema cache`,
+        404
+      );
+    }
+
+    const params = new Params();
+    const call = `${quoteIdent(name)}(${signature.args
+      .filter((arg) => given.includes(arg.name))
+      .map(
+        (arg) =>
+          `${quoteIdent(arg.name)} => ${this.argument(arg.type, args[arg.name], params)}`
+      )
+      .join(", ")})`;
+
+    if (!signature.returns_set) {
+      const { rows } = await tx.query<{ body: unknown }>(
+        `SELECT to_json(${call}) AS body`,
+        params.values
+      );
+      return response(200, rows[0].body);
+    }
+
+    const root = this.parseQuery(url, name, schema, params);
+    const { rows } = await tx.query<{ body: unknown[]; total: number }>(
+      `WITH pgrst_call AS MATERIALIZED (SELECT * FROM ${call})
+      SELECT
+        (SELECT coalesce(json_agg(pgrst_row), '[]')
+           FROM (${this.select(root, "pgrst_call")}) AS pgrst_row) AS body,
+        (SELECT count(*) FROM pgrst_call AS ${quoteIdent(root.alias)} ${this.where(root)})::INTEGER AS total`,
+      params.values
+    );
+    return this.respond(request, rows[0].body, rows[0].total, {
+      status: 200,
+      body: true,
+      offset: root.offset ?? 0,
+    });
+  }
+
+  // A function argument from its JSON value, cast to the parameter's type
+  private argument(type: string, value: unknown, params: Params): string {
+    if (value === null || value === undefined) return `NULL::${type}`;
+    if (type === "json" || type === "jsonb") {
+      return `${params.add(JSON.stringify(value))}::TEXT::${type}`;
+    }
+    if (type.endsWith("[]") && Array.isArray(value)) {
+      return `ARRAY(SELECT json_array_elements_text(${params.add(JSON.stringify(value))}::TEXT::JSON))::${type}`;
+    }
+    return `${params.add(typeof value === "string" ? value : JSON.stringify(value))}::TEXT::${type}`;
+  }
+
+  private respond(
+    request: Request,
+    rows: unknown[],
+    total: number,
+    options: { status: number; body: boolean; offset: number }
+  ): Response {
+    if (request.headers.get("accept") === SINGLE_OBJECT && rows.length !== 1) {
+      // PostgREST rolls the request back, writes included
+      throw new MemoryDatabaseError(
+        "PGRST116",
+        "JSON object requested, multiple (or no) rows returned",
+        406,
+        `The result contains ${rows.length} rows`
+      );
+    }
+
+    const range = rows.length
+      ? `${options.offset}-${options.offset + rows.length - 1}`
+      : "*";
+    const count = /count=exact/.test(request.headers.get("prefer") ?? "")
+      ? total
+      : "*";
+    const headers = { "Content-Range": `${range}/${count}` };
+
+    if (!options.body || request.method === "HEAD") {
+      return response(options.status, undefined, headers);
+    }
+    return response(
+      options.status,
+      request.headers.get("accept") === SINGLE_OBJECT ? rows[0] : rows,
+      headers
+    );
+  }
+
+  // The select tree of the request, with its filters, order and paging
+  private parseQuery(
+    url: URL,
+    relation: string,
+    schema: SchemaCache,
+    params: Params
+  ): QueryNode {
+    let aliases = 0;
+    const node = (name: string): QueryNode => ({
+      relation: name,
+      name,
+      alias: `t${aliases++}`,
+      inner: false,
+      items: [],
+      conditions: [],
+      order: [],
+    });
+
+    const parseSelect = (parent: QueryNode, select: string) => {
+      for (const item of splitTopLevel(select)) {
+        const embed = item.match(
+          /^(?:(\w+):)?(\w+)(?:!(\w+))?(?:!(\w+))?\((.*)\)$/
+        );
+        if (embed) {
+          const [, alias, name, first, second, inner] = embed;
+          const child = node(name);
+          child.name = alias ?? name;
+          for (const hint of [first, second]) {
+            if (hint === "inner") child.inner = true;
+            else if (hint && hint !== "left") child.hint = hint;
+          }
+          this.relate(schema, parent, child);
+          parseSelect(child, inner);
+          parent.items.push({ kind: "embed", node: child });
+        } else if (item === "*") {
+          parent.items.push({ kind: "star" });
+        } else {
+          const column = item.match(/^(?:(\w+):)?(\w+)(?:::(\w+))?$/);
+          if (!column) {
+            throw new MemoryDatabaseError(
+              "PGRST100",
+              `Unsupported select item: ${item}`
+            );
+          }
+          parent.items.push({
+            kind: "column",
+            alias: column[1],
+            name: column[2],
+            cast: column[3],
+          });
+        }
+      }
+    };
+
+    const root = node(relation);
+    parseSelect(root, url.searchParams.get("select") ?? "*");
+
+    const find = (path: string[]): QueryNode => {
+      let current = root;
+      for (const name of path) {
+        const embed = current.items.find(
+          (item): item is { kind: "embed"; node: QueryNode } =>
+            item.kind === "embed" &&
+            (item.node.name === name || item.node.relation === name)
+        );
+        if (!embed) {
+          throw new MemoryDatabaseError(
+            "PGRST108",
+            `'${name}' is not an embedded resource in this request`
+          );
+        }
+        current = embed.node;
+      }
+      return current;
+    };
+
+    for (const [key, value] of url.searchParams) {
+      const path = key.split(".");
+      const last = path.pop()!;
+      const negated =
+        path[path.length - 1] === "not" && ["and", "or"].includes(last);
+      if (negated) path.pop();
+
+      if (["select", "columns", "on_conflict"].includes(key)) continue;
+      const target = find(path);
+
+      if (last === "order") {
+        target.order = value.split(",").map((term) => {
+          const [column, ...modifiers] = term.split(".");
+          const direction = modifiers.includes("desc") ? "DESC" : "ASC";
+          const nulls = modifiers.includes("nullsfirst")
+            ? " NULLS FIRST"
+            : modifiers.includes("nullslast")
+              ? " NULLS LAST"
+              : "";
+          return `${quoteIdent(target.alias)}.${quoteIdent(column)} ${direction}${nulls}`;
+        });
+      } else if (last === "limit" || last === "offset") {
+        target[last] = Number(value);
+      } else if (last === "and" || last === "or") {
+        target.conditions.push(
+          this.logic(last, value.slice(1, -1), target, params, negated)
+        );
+      } else {
+        target.conditions.push(
+          this.filter(
+            `${quoteIdent(target.alias)}.${quoteIdent(last)}`,
+            value,
+            params,
+            false
+          )
+        );
+      }
+    }
+
+    return root;
+  }
+
+  // Join an embedded resource to its parent through their foreign key
+  private relate(schema: SchemaCache, parent: QueryNode, child: QueryNode) {
+    const candidates = schema.relationships.filter(
+      (fk) =>
+        ((fk.table === parent.relation &&
+          fk.foreign_table === child.relation) ||
+          (fk.table === child.relation &&
+            fk.foreign_table === parent.relation)) &&
+        (!child.hint ||
+          fk.constraint === child.hint ||
+          (fk.columns.length === 1 && fk.columns[0] === child.hint))
+    );
+    if (candidates.length !== 1) {
+      throw new MemoryDatabaseError(
+        candidates.length ? "PGRST201" : "PGRST200",
+        candidates.length
+          ? `Could not embed because more than one relationship was found for '${parent.relation}' and '${child.relation}'`
+          : `Could not find a relationship between '${parent.relation}' and '${child.relation}' in the schema cache`,
+        candidates.length ? 300 : 400
+      );
+    }
+
+    const [fk] = candidates;
+    const own = fk.table === parent.relation; // The parent holds the key
+    const parentColumns = own ? fk.columns : fk.foreign_columns;
+    const childColumns = own ? fk.foreign_columns : fk.columns;
+
+    child.to_one = own;
+    child.join = childColumns
+      .map(
+        (column, i) =>
+          `${quoteIdent(child.alias)}.${quoteIdent(column)} = ${quoteIdent(parent.alias)}.${quoteIdent(parentColumns[i])}`
+      )
+      .join(" AND ");
+  }
+
+  // A filter value such as "eq.5", "in.(a,b)" or "not.is.null" on a column
+  private filter(
+    column: string,
+    value: string,
+    params: Params,
+    quoted: boolean
+  ): string {
+    const negated = value.startsWith("not.");
+    const rest = negated ? value.slice(4) : value;
+    const dot = rest.indexOf(".");
+    const operator = rest.slice(0, dot);
+    const operand = rest.slice(dot + 1);
+    let condition: string;
+
+    if (dot < 0) {
+      throw new MemoryDatabaseError("PGRST100", `Invalid filter: ${value}`);
+    } else if (operator === "is") {
+      const values: Record<string, string> = {
+        null: "NULL",
+        true: "TRUE",
+        false: "FALSE",
+        unknown: "UNKNOWN",
+      };
+      if (!values[operand]) {
+        throw new MemoryDatabaseError("PGRST100", `Invalid filter: ${value}`);
+      }
+      condition = `${column} IS ${values[operand]}`;
+    } else if (operator === "in") {
+      const values = splitTopLevel(operand.replace(/^\(|\)$/g, "")).map(
+        unquote
+      );
+      condition = values.length
+        ? `${column} IN (${values.map((v) => params.add(v)).join(", ")})`
+        : "FALSE";
+    } else if (OPERATORS[operator]) {
+      let text = quoted ? unquote(operand) : operand;
+      if (operator === "like" || operator === "ilike") {
+        text = text.replace(/\*/g, "%");
+      }
+      condition = `${column} ${OPERATORS[operator]} ${params.add(text)}`;
+    } else {
+      throw new MemoryDatabaseError(
+        "PGRST100",
+        `Unsupported filter operator: ${operator}`
+      );
+    }
+
+    return negated ? `NOT (${condition})` : condition;
+  }
+
+  // An and/or tree such as "a.eq.1,and(b.lt.2,c.is.null)"
+  private logic(
+    operator: "and" | "or",
+    body: string,
+    node: QueryNode,
+    params: Params,
+    negated: boolean
+  ): string {
+    const terms = splitTopLevel(body).map((term) => {
+      const nested = term.match(/^(not\.)?(and|or)\((.*)\)$/);
+      if (nested) {
+        return this.logic(
+          nested[2] as "and" | "or",
+          nested[3],
+          node,
+          params,
+          Boolean(nested[1])
+        );
+      }
+      const dot = term.indexOf(".");
+      return this.filter(
+        `${quoteIdent(node.alias)}.${quoteIdent(term.slice(0, dot))}`,
+        term.slice(dot + 1),
+        params,
+        true
+      );
+    });
+    const condition = `(${terms.join(operator === "and" ? " AND " : " OR ")})`;
+    return negated ? `NOT ${condition}` : condition;
+  }
+
+  // WHERE clause of a node: its filters, and for inner embeds a match
+  private where(node: QueryNode): string {
+    const conditions = this.conditions(node);
+    return conditions.length ? `WHERE ${conditions.join(" AND ")}` : "";
+  }
+
+  private conditions(node: QueryNode): string[] {
+    const inner = node.items.flatMap((item) =>
+      item.kind === "embed" && item.node.inner
+        ? [
+            `EXISTS (SELECT 1 FROM ${quoteIdent(item.node.relation)} AS ${quoteIdent(item.node.alias)} WHERE ${[
+              item.node.join,
+              ...this.conditions(item.node),
+            ].join(" AND ")})`,
+          ]
+        : []
+    );
+    return [...node.conditions, ...inner];
+  }
+
+  // SELECT of a node's rows from source, embedded resources included
+  private select(node: QueryNode, source: string): string {
+    const alias = quoteIdent(node.alias);
+    const columns = node.items.map((item) => {
+      if (item.kind === "star") return `${alias}.*`;
+      if (item.kind === "column") {
+        const cast = item.cast ? `::${quoteIdent(item.cast)}` : "";
+        return `${alias}.${quoteIdent(item.name)}${cast} AS ${quoteIdent(item.alias ?? item.name)}`;
+      }
+
+      const child = item.node;
+      const rows = this.select(
+        { ...child, conditions: [child.join!, ...child.conditions] },
+        quoteIdent(child.relation)
+      );
+      return child.to_one
+        ? `(SELECT row_to_json(pgrst_row) FROM (${rows}) AS pgrst_row) AS ${quoteIdent(child.name)}`
+        : `(SELECT coalesce(json_agg(pgrst_row), '[]') FROM (${rows}) AS pgrst_row) AS ${quoteIdent(child.name)}`;
+    });
+
+    return [
+      `SELECT ${columns.join(", ")} FROM ${source} AS ${alias}`,
+      this.where(node),
+      node.order.length ? `ORDER BY ${node.order.join(", ")}` : "",
+      node.limit !== undefined ? `LIMIT ${Number(node.limit)}` : "",
+      node.offset !== undefined ? `OFFSET ${Number(node.offset)}` : "",
+    ]
+      .filter(Boolean)
+      .join(" ");
+  }
+}
@@ -1,10 +1,58 @@
-import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import type { SupabaseClient } from '@supabase/supabase-js';
 import type { BrandId, BrandContext } from '../types/brand';
+import type { SmsComplianceConfig } from '../types/compliance';
+import type { BrandEncryptionPolicy } from '../types/encryption';
+import { createBrandSessionClient, BrandSessionOptions } from './brand-session';
+import { createScopedClient } from './factory';
 
 // Database interface for type safety
 export interface Database {
   public: {
     Tables: {
+      brands: {
+        Row: {
+          id: BrandId;
+          name: string;
+          domain: string;
+          platform_domain: string;
+          primary_color: string;
+          logo_url: string;
+          support_email: string;
+          sms_compliance: Partial<SmsComplianceConfig> | null;
+          encryption: BrandEncryptionPolicy | null;
+          is_active: boolean;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id: BrandId;
+          name: string;
+          domain: string;
+          platform_domain: string;
+          primary_color: string;
+          logo_url: string;
+          support_email: string;
+          sms_compliance?: Partial<SmsComplianceConfig> | null;
+          encryption?: BrandEncryptionPolicy | null;
+          is_active?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: BrandId;
+          name?: string;
+          domain?: string;
+          platform_domain?: string;
+          primary_color?: string;
+          logo_url?: string;
+          support_email?: string;
+          sms_compliance?: Partial<SmsComplianceConfig> | null;
+          encryption?: BrandEncryptionPolicy | null;
+          is_active?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
       customers: {
         Row: {
           id: string;
@@ -25,6 +73,7 @@ export interface Database {
           created_at: string;
           updated_at: string;
           created_by: string | null;
+          erased_at: string | null;
         };
         Insert: {
           id?: string;
@@ -45,6 +94,7 @@ export interface Database {
           created_at?: string;
           updated_at?: string;
           created_by?: string | null;
+          erased_at?: string | null;
         };
         Update: {
           id?: string;
@@ -65,6 +115,57 @@ export interface Database {
           created_at?: string;
           updated_at?: string;
           created_by?: string | null;
+          erased_at?: string | null;
+        };
+      };
+      campaigns: {
+        Row: {
+          id: string;
+          brand_id: BrandId;
+          name: string;
+          description: string | null;
+          brand_phone: string | null;
+          status: string;
+          started_at: string | null;
+          paused_at: string | null;
+          finished_at: string | null;
+          metadata: Record<string, unknown> | null;
+          tags: string[] | null;
+          created_at: string;
+          updated_at: string;
+          created_by: string | null;
+        };
+        Insert: {
+          id?: string;
+          brand_id: BrandId;
+          name: string;
+          description?: string | null;
+          brand_phone?: string | null;
+          status?: string;
+          started_at?: string | null;
+          paused_at?: string | null;
+          finished_at?: string | null;
+          metadata?: Record<string, unknown> | null;
+          tags?: string[] | null;
+          created_at?: string;
+          updated_at?: string;
+          created_by?: string | null;
+        };
+        Update: {
+          id?: string;
+          brand_id?: BrandId;
+          name?: string;
+          description?: string | null;
+          brand_phone?: string | null;
+          status?: string;
+          started_at?: string | null;
+          paused_at?: string | null;
+          finished_at?: string | null;
+          metadata?: Record<string, unknown> | null;
+          tags?: string[] | null;
+          created_at?: string;
+          updated_at?: string;
+          created_by?: string | null;
         };
       };
       conversations: {
@@ -72,7 +173,7 @@ export interface Database {
           id: string;
           brand_id: BrandId;
           customer_id: string;
-          customer_phone: string;
+          customer_phone: string | null;
           brand_phone: string;
           status: string;
           campaign_id: string | null;
@@ -87,12 +188,13 @@ export interface Database {
           tags: string[] | null;
           created_at: string;
           updated_at: string;
+          erased_at: string | null;
         };
         Insert: {
           id?: string;
           brand_id: BrandId;
           customer_id: string;
-          customer_phone: string;
+          customer_phone?: string | null;
           brand_phone: string;
           status?: string;
           campaign_id?: string | null;
@@ -107,12 +209,13 @@ export interface Database {
           tags?: string[] | null;
           created_at?: string;
           updated_at?: string;
+          erased_at?: string | null;
         };
         Update: {
           id?: string;
           brand_id?: BrandId;
           customer_id?: string;
-          customer_phone?: string;
+          customer_phone?: string | null;
           brand_phone?: string;
           status?: string;
           campaign_id?: string | null;
@@ -127,6 +230,7 @@ export interface Database {
           tags?: string[] | null;
           created_at?: string;
           updated_at?: string;
+          erased_at?: string | null;
         };
       };
       messages: {
@@ -138,6 +242,7 @@ export interface Database {
           media_urls: string[] | null;
           status: string | null;
           external_id: string | null;
+          error_code: string | null;
           metadata: Record<string, unknown> | null;
           sent_at: string;
           delivered_at: string | null;
@@ -151,6 +256,7 @@ export interface Database {
           media_urls?: string[] | null;
           status?: string | null;
           external_id?: string | null;
+          error_code?: string | null;
           metadata?: Record<string, unknown> | null;
           sent_at?: string;
           delivered_at?: string | null;
@@ -164,79 +270,440 @@ export interface Database {
           media_urls?: string[] | null;
           status?: string | null;
           external_id?: string | null;
+          error_code?: string | null;
           metadata?: Record<string, unknown> | null;
           sent_at?: string;
           delivered_at?: string | null;
           created_at?: string;
         };
       };
+      message_status_events: {
+        Row: {
+          id: string;
+          message_id: string;
+          previous_status: string | null;
+          status: string;
+          error_code: string | null;
+          outcome: string;
+          occurred_at: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          message_id: string;
+          previous_status?: string | null;
+          status: string;
+          error_code?: string | null;
+          outcome: string;
+          occurred_at: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          message_id?: string;
+          previous_status?: string | null;
+          status?: string;
+          error_code?: string | null;
+          outcome?: string;
+          occurred_at?: string;
+          created_at?: string;
+        };
+      };
+      customer_stage_history: {
+        Row: {
+          id: string;
+          brand_id: BrandId;
+          customer_id: string;
+          from_stage: string;
+          to_stage: string;
+          transition: string;
+          reason: string | null;
+          actor_id: string | null;
+          changed_at: string;
+        };
+        Insert: {
+          id?: string;
+          brand_id: BrandId;
+          customer_id: string;
+          from_stage: string;
+          to_stage: string;
+          transition?: string;
+          reason?: string | null;
+          actor_id?: string | null;
+          changed_at?: string;
+        };
+        Update: {
+          id?: string;
+          brand_id?: BrandId;
+          customer_id?: string;
+          from_stage?: string;
+          to_stage?: string;
+          transition?: string;
+          reason?: string | null;
+          actor_id?: string | null;
+          changed_at?: string;
+        };
+      };
+      cross_brand_access_log: {
+        Row: {
+          id: string;
+          actor_id: string;
+          brand_ids: BrandId[];
+          resource: string;
+          action: string;
+          filters: Record<string, unknown> | null;
+          reason: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          actor_id: string;
+          brand_ids: BrandId[];
+          resource: string;
+          action: string;
+          filters?: Record<string, unknown> | null;
+          reason?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          actor_id?: string;
+          brand_ids?: BrandId[];
+          resource?: string;
+          action?: string;
+          filters?: Record<string, unknown> | null;
+          reason?: string | null;
+          created_at?: string;
+        };
+      };
+      customer_data_requests: {
+        Row: {
+          id: string;
+          brand_id: BrandId;
+          customer_id: string;
+          request_type: string;
+          actor_id: string | null;
+          reason: string | null;
+          summary: Record<string, number>;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          brand_id: BrandId;
+          customer_id: string;
+          request_type: string;
+          actor_id?: string | null;
+          reason?: string | null;
+          summary?: Record<string, number>;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          brand_id?: BrandId;
+          customer_id?: string;
+          request_type?: string;
+          actor_id?: string | null;
+          reason?: string | null;
+          summary?: Record<string, number>;
+          created_at?: string;
+        };
+      };
+      audit_events: {
+        Row: {
+          id: string;
+          brand_id: BrandId;
+          actor_id: string | null;
+          entity_type: string;
+          entity_id: string;
+          action: string;
+          changes: Record<string, { from: unknown; to: unknown }>;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          brand_id: BrandId;
+          actor_id?: string | null;
+          entity_type: string;
+          entity_id: string;
+          action: string;
+          changes?: Record<string, { from: unknown; to: unknown }>;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          brand_id?: BrandId;
+          actor_id?: string | null;
+          entity_type?: string;
+          entity_id?: string;
+          action?: string;
+          changes?: Record<string, { from: unknown; to: unknown }>;
+          created_at?: string;
+        };
+      };
+    };
+    Functions: {
+      add_message: {
+        Args: {
+          p_brand_id: BrandId;
+          p_conversation_id: string;
+          p_direction: string;
+          p_content: string;
+          p_media_urls?: string[] | null;
+          p_external_id?: string | null;
+          p_metadata?: Record<string, unknown> | null;
+          p_sent_at?: string;
+        };
+        Returns: Database['public']['Tables']['messages']['Row'];
+      };
+      update_message_status: {
+        Args: {
+          p_brand_id: BrandId;
+          p_external_id: string;
+          p_status: string;
+          p_occurred_at?: string;
+          p_error_code?: string | null;
+        };
+        Returns: {
+          outcome: string;
+          message: Database['public']['Tables']['messages']['Row'] | null;
+          previous_status: string | null;
+        };
+      };
+      transition_customer_stage: {
+        Args: {
+          p_brand_id: BrandId;
+          p_customer_id: string;
+          p_from_stage: string;
+          p_to_stage: string;
+          p_transition?: string;
+          p_reason?: string | null;
+          p_actor_id?: string | null;
+        };
+        Returns: Database['public']['Tables']['customers']['Row'];
+      };
+      erase_customer: {
+        Args: {
+          p_brand_id: BrandId;
+          p_customer_id: string;
+          p_actor_id?: string | null;
+          p_reason?: string | null;
+        };
+        Returns: Database['public']['Tables']['customer_data_requests']['Row'];
+      };
+      record_audit_events: {
+        Args: {
+          p_brand_id: BrandId;
+          p_events: {
+            actor_id: string | null;
+            entity_type: string;
+            entity_id: string;
+            action: string;
+            changes: Record<string, unknown>;
+          }[];
+        };
+        Returns: Database['public']['Tables']['audit_events']['Row'][];
+      };
+      redact_erased_customer_audit: {
+        Args: {
+          p_brand_id: BrandId;
+          p_customer_id: string;
+        };
+        Returns: number;
+      };
+      find_duplicate_customers: {
+        Args: {
+          p_brand_id: BrandId;
+          p_customer_id?: string | null;
+          p_match_names?: boolean;
+          p_min_similarity?: number;
+          p_limit?: number;
+          p_offset?: number;
+        };
+        Returns: {
+          customer: Database['public']['Tables']['customers']['Row'];
+          duplicate: Database['public']['Tables']['customers']['Row'];
+          matched_on: string[];
+          name_similarity: number;
+        }[];
+      };
+      merge_customers: {
+        Args: {
+          p_brand_id: BrandId;
+          p_survivor_id: string;
+          p_duplicate_id: string;
+        };
+        Returns: Database['public']['Tables']['customers']['Row'];
+      };
+      import_customers: {
+        Args: {
+          p_brand_id: BrandId;
+          p_rows: Database['public']['Tables']['customers']['Insert'][];
+          p_dry_run?: boolean;
+        };
+        Returns: {
+          ordinal: number; // Position in p_rows (1-based)
+          status: 'created' | 'updated' | 'skipped' | 'error';
+          customer_id: string | null;
+          reason: string | null;
+        }[];
+      };
+      get_customer_analytics: {
+        Args: {
+          p_brand_id: BrandId;
+          p_group_by?: string | null;
+          p_interval?: string | null;
+          p_start?: string | null;
+          p_end?: string | null;
+        };
+        Returns: {
+          bucket: string | null;
+          group_key: string | null;
+          count: number;
+          active: number;
+          converted: number;
+          avg_days_to_conversion: number | null;
+        }[];
+      };
+      get_customer_funnel: {
+        Args: {
+          p_brand_id: BrandId;
+          p_start?: string | null;
+          p_end?: string | null;
+          p_by_source?: boolean;
+        };
+        Returns: {
+          source: string | null;
+          from_step: string;
+          to_step: string;
+          entered: number;
+          converted: number;
+          median_days: number | null;
+          p90_days: number | null;
+        }[];
+      };
+      get_customer_cohorts: {
+        Args: {
+          p_brand_id: BrandId;
+          p_start?: string | null;
+          p_end?: string | null;
+          p_months?: number;
+          p_by_source?: boolean;
+        };
+        Returns: {
+          cohort: string;
+          source: string | null;
+          month: number;
+          customers: number;
+          subscribed: number;
+          retained: number;
+          churned: number;
+        }[];
+      };
+      get_conversation_analytics: {
+        Args: {
+          p_brand_id: BrandId;
+          p_group_by?: string | null;
+          p_interval?: string | null;
+          p_start?: string | null;
+          p_end?: string | null;
+        };
+        Returns: {
+          bucket: string | null;
+          group_key: string | null;
+          count: number;
+          active: number;
+          opted_out: number;
+          total_messages: number;
+        }[];
+      };
+      search_customers: {
+        Args: {
+          p_brand_id: BrandId;
+          p_query: string;
+          p_limit?: number;
+          p_offset?: number;
+        };
+        Returns: {
+          customer: Database['public']['Tables']['customers']['Row'];
+          rank: number;
+          matched_field: string | null;
+        }[];
+      };
+      search_conversations: {
+        Args: {
+          p_brand_id: BrandId;
+          p_query: string;
+          p_limit?: number;
+          p_offset?: number;
+        };
+        Returns: {
+          conversation: Database['public']['Tables']['conversations']['Row'];
+          rank: number;
+          matched_field: string | null;
+        }[];
+      };
     };
   };
 }
 
-// Singleton Supabase client
+// Default anon client from the env vars, created on first use. It carries no
+// user auth, so sharing it between requests is safe.
 let supabaseClient: SupabaseClient<Database> | null = null;
 
+// Create an anon client for the given project (env vars by default). Each call
+// returns a new client; use createScopedClient to act as a user or the
+// service role.
 export function createSupabaseClient(
   url?: string,
   anonKey?: string
 ): SupabaseClient<Database> {
-  if (supabaseClient) {
-    return supabaseClient;
-  }
-
-  const supabaseUrl = url || process.env.NEXT_PUBLIC_SUPABASE_URL;
-  const supabaseAnonKey = anonKey || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
-
-  if (!supabaseUrl || !supabaseAnonKey) {
-    throw new Error('Missing Supabase configuration');
-  }
-
-  supabaseClient = createClient<Database>(supabaseUrl, supabaseAnonKey, {
-    auth: {
-      persistSession: false, // Handle sessions at app level
-    },
-  });
-
-  return supabaseClient;
+  return createScopedClient({ url, anon_key: anonKey });
 }
 
-// Get existing client
+// Get the default anon client
 export function getSupabaseClient(): SupabaseClient<Database> {
   if (!supabaseClient) {
-    return createSupabaseClient();
+    supabaseClient = createSupabaseClient();
   }
   return supabaseClient;
 }
 
-// Brand-aware client wrapper
+// Brand-aware client wrapper, backed by the given Supabase client (a brand
+// session, the service role, or one of the in-memory database)
 export class BrandAwareSupabase {
   private client: SupabaseClient<Database>;
   private brandContext: BrandContext;
 
-  constructor(brandContext: BrandContext, client?: SupabaseClient<Database>) {
+  constructor(brandContext: BrandContext, client: SupabaseClient<Database>) {
     this.brandContext = brandContext;
-    this.client = client || getSupabaseClient();
+    this.client = client;
   }
 
   // Get customers for this brand
-  get customers(): any {
-    return this.client
-      .from('customers')
-      .select('*')
-      .eq('brand_id', this.brandContext.brand_id);
+  get customers(): ReturnType<BrandAwareSupabase['brandRows']> {
+    return this.brandRows('customers');
   }
 
   // Get conversations for this brand
-  get conversations(): any {
+  get conversations(): ReturnType<BrandAwareSupabase['brandRows']> {
+    return this.brandRows('conversations');
+  }
+
+  // Get campaigns for this brand
+  get campaigns(): ReturnType<BrandAwareSupabase['brandRows']> {
+    return this.brandRows('campaigns');
+  }
+
+  // Query of the brand's rows of a table
+  private brandRows(table: 'customers' | 'conversations' | 'campaigns') {
     return this.client
-      .from('conversations')
+      .from(table)
       .select('*')
       .eq('brand_id', this.brandContext.brand_id);
   }
 
   // Raw client access
-  get raw() {
+  get raw(): SupabaseClient<Database> {
     return this.client;
   }
 
@@ -246,7 +713,25 @@ export class BrandAwareSupabase {
   }
 }
 
-// Factory function for brand-aware client
-export function createBrandClient(brandContext: BrandContext): BrandAwareSupabase {
-  return new BrandAwareSupabase(brandContext);
+// Factory function for brand-aware client: the given client, else with
+// `session` (server only) a new brand-scoped session, so RLS enforces the
+// brand inside the database too. Throws without either: the anon client
+// sees no brand rows, so every read would come back empty.
+export function createBrandClient(
+  brandContext: BrandContext,
+  adapter?: SupabaseClient<Database>,
+  session?: BrandSessionOptions
+): BrandAwareSupabase {
+  if (adapter) {
+    return new BrandAwareSupabase(brandContext, adapter);
+  }
+  if (!session) {
+    throw new Error(
+      'Brand clients need a brand session (`session`) or a service role client (`adapter`)'
+    );
+  }
+  return new BrandAwareSupabase(
+    brandContext,
+    createBrandSessionClient(brandContext, session)
+  );
 }
@@ -1,17 +1,45 @@
 // Main exports for @percytech/shared-database package
 
 // Type exports
-export type { BrandId, BrandConfig, BrandContext } from "./types/brand";
-import type { BrandContext } from "./types/brand";
+export type {
+  BrandId,
+  BrandConfig,
+  BrandContext,
+  BrandResolverOptions,
+  BrandResolutionErrorCode,
+  BrandSessionErrorCode,
+  BuiltInBrandId,
+} from "./types/brand";
+import type { BrandContext, BrandId } from "./types/brand";
+import type { BrandKeyring } from "./types/encryption";
+import { FieldEncryption } from "./utils/field-encryption";
+import { AuditLog } from "./utils/audit-log";
+import { getActiveBrandConfig } from "./types/brand";
 import { createBrandClient } from "./client/supabase";
+import type { BrandSessionOptions } from "./client/brand-session";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "./client/supabase";
+import { createScopedClient, SupabaseConfig } from "./client/factory";
 import { CustomerOperations } from "./utils/customer-ops";
 import { ConversationOperations } from "./utils/conversation-ops";
+import { CampaignOperations } from "./utils/campaign-ops";
+import { AdminOperations } from "./utils/admin-ops";
+import type { AdminContext } from "./types/admin";
+import type { ValidationOptions } from "./utils/validation";
 export type {
   Customer,
   CreateCustomer,
   UpdateCustomer,
   CustomerStage,
   CustomerSource,
+  CustomerSearchField,
+  CustomerSearchResult,
+  CustomerDuplicateMatch,
+  CustomerDuplicate,
+  CustomerDuplicateOptions,
+  CustomerStageChange,
+  CustomerStageTransition,
+  CustomerStageTransitionErrorCode,
 } from "./types/customer";
 export type {
   Conversation,
@@ -20,15 +48,114 @@ export type {
   CreateMessage,
   MessageDirection,
   MessageStatus,
+  MessageStatusOutcome,
+  MessageStatusEvent,
+  MessageStatusUpdate,
   ConversationStatus,
+  ConversationSearchField,
+  ConversationSearchResult,
 } from "./types/conversation";
+export type {
+  Campaign,
+  CreateCampaign,
+  UpdateCampaign,
+  CampaignStats,
+  CampaignStatus,
+} from "./types/campaign";
+export type {
+  ComplianceAction,
+  ComplianceResult,
+  SmsComplianceConfig,
+} from "./types/compliance";
+export type {
+  PaginationOptions,
+  PaginatedResult,
+  CursorPosition,
+} from "./types/pagination";
+export type { PhoneNumber } from "./types/phone";
+export type { DatabaseErrorContext, ValidationIssue } from "./types/errors";
+export type {
+  AdminContext,
+  AdminAccessErrorCode,
+  CrossBrandAccess,
+  CrossBrandAccessFilters,
+  CrossBrandAction,
+  CrossBrandAnalyticsOptions,
+  CrossBrandConversationFilters,
+  CrossBrandCustomerFilters,
+  CrossBrandOptions,
+  CrossBrandResource,
+} from "./types/admin";
+export type {
+  CustomerDataExport,
+  CustomerDataRequest,
+  CustomerDataRequestOptions,
+  CustomerDataRequestType,
+  ExportedConversation,
+  ExportedMessage,
+} from "./types/data-request";
+export type {
+  ConversationExportFormat,
+  ConversationExportOptions,
+  ConversationExportRecord,
+} from "./types/conversation-export";
+export type {
+  CustomerImportField,
+  CustomerImportFormat,
+  CustomerImportOptions,
+  CustomerImportReport,
+  CustomerImportRowResult,
+  CustomerImportSource,
+  CustomerImportStatus,
+} from "./types/customer-import";
+export type {
+  AuditAction,
+  AuditEntityType,
+  AuditEvent,
+  AuditEventFilters,
+  AuditEventInput,
+  AuditFieldChange,
+} from "./types/audit";
+export type {
+  BrandEncryptionPolicy,
+  BrandKeyring,
+  EncryptedField,
+  EncryptionErrorCode,
+  EncryptionRotationOptions,
+  EncryptionRotationReport,
+} from "./types/encryption";
+export type {
+  AnalyticsInterval,
+  AnalyticsRange,
+  AnalyticsSeriesOptions,
+  CustomerAnalytics,
+  CustomerAnalyticsGroupBy,
+  CustomerAnalyticsPoint,
+  ConversationAnalytics,
+  ConversationAnalyticsGroupBy,
+  ConversationAnalyticsPoint,
+  FunnelStep,
+  FunnelOptions,
+  FunnelConversion,
+  CohortOptions,
+  CohortPoint,
+} from "./types/analytics";
 
 // Schema exports
 export {
   BrandId as BrandIdSchema,
+  BuiltInBrandId as BuiltInBrandIdSchema,
   BRAND_CONFIGS,
   getBrandConfig,
+  getBrandConfigs,
+  setBrandConfigs,
+  getActiveBrandConfig,
   validateBrandId,
+  getBrandFromDomain,
+  getBrandFromRequest,
+  BrandResolutionError,
+  BrandSessionError,
+  DEFAULT_BRAND_OVERRIDE_HOSTS,
 } from "./types/brand";
 export {
   CustomerSchema,
@@ -36,6 +163,15 @@ export {
   UpdateCustomerSchema,
   CustomerStage as CustomerStageSchema,
   CustomerSource as CustomerSourceSchema,
+  CustomerSearchField as CustomerSearchFieldSchema,
+  CustomerDuplicateMatch as CustomerDuplicateMatchSchema,
+  CustomerStageTransition as CustomerStageTransitionSchema,
+  CustomerStageChangeSchema,
+  CustomerStageTransitionError,
+  CUSTOMER_STAGE_TRANSITIONS,
+  CUSTOMER_REACTIVATION_STAGES,
+  canTransitionCustomerStage,
+  canReactivateCustomer,
   getCustomerDisplayName,
   isTrialCustomer,
   isPaidCustomer,
@@ -48,12 +184,89 @@ export {
   CreateMessageSchema,
   MessageDirection as MessageDirectionSchema,
   MessageStatus as MessageStatusSchema,
+  MessageStatusOutcome as MessageStatusOutcomeSchema,
+  MessageStatusEventSchema,
+  MESSAGE_STATUS_TRANSITIONS,
   ConversationStatus as ConversationStatusSchema,
+  ConversationSearchField as ConversationSearchFieldSchema,
   isOptedOut,
   canSendMessage,
+  canTransitionMessageStatus,
   getConversationDisplayName,
   getLastMessageDirection,
 } from "./types/conversation";
+export {
+  CampaignSchema,
+  CreateCampaignSchema,
+  UpdateCampaignSchema,
+  CampaignStatus as CampaignStatusSchema,
+  CAMPAIGN_STATUS_TRANSITIONS,
+  canTransitionCampaign,
+  isCampaignSending,
+} from "./types/campaign";
+export {
+  ComplianceAction as ComplianceActionSchema,
+  DEFAULT_SMS_COMPLIANCE,
+  getSmsComplianceConfig,
+  matchComplianceKeyword,
+  renderComplianceReply,
+  getComplianceReply,
+} from "./types/compliance";
+export {
+  PaginationOptionsSchema,
+  MAX_PAGE_SIZE,
+  encodeCursor,
+  decodeCursor,
+  encodeOffsetCursor,
+  decodeOffsetCursor,
+} from "./types/pagination";
+export {
+  PhoneNumber as PhoneNumberSchema,
+  DEFAULT_PHONE_REGION,
+  createPhoneNumberSchema,
+  normalizePhoneNumber,
+  normalizeValidPhoneNumber,
+  toE164,
+  isE164,
+} from "./types/phone";
+export {
+  AnalyticsInterval as AnalyticsIntervalSchema,
+  AnalyticsRangeSchema,
+  CustomerAnalyticsGroupBy as CustomerAnalyticsGroupBySchema,
+  ConversationAnalyticsGroupBy as ConversationAnalyticsGroupBySchema,
+  FunnelStep as FunnelStepSchema,
+} from "./types/analytics";
+export {
+  CrossBrandAccessSchema,
+  CrossBrandResource as CrossBrandResourceSchema,
+  CrossBrandAction as CrossBrandActionSchema,
+  AdminAccessError,
+} from "./types/admin";
+export {
+  CustomerDataRequestSchema,
+  CustomerDataRequestType as CustomerDataRequestTypeSchema,
+} from "./types/data-request";
+export {
+  AuditEventSchema,
+  AuditFieldChangeSchema,
+  AuditEntityType as AuditEntityTypeSchema,
+  AuditAction as AuditActionSchema,
+} from "./types/audit";
+export {
+  EncryptedField as EncryptedFieldSchema,
+  EncryptionError,
+  PHI_FIELDS,
+} from "./types/encryption";
+export {
+  DatabaseOperationError,
+  NotFoundError,
+  UniqueConflictError,
+  ForeignKeyError,
+  ValidationError,
+  BrandIsolationError,
+  TransientError,
+  toOperationError,
+} from "./types/errors";
 
 // Client exports
 export type { Database } from "./client/supabase";
@@ -63,19 +276,95 @@ export {
   BrandAwareSupabase,
   createBrandClient,
 } from "./client/supabase";
+export {
+  createBrandSessionClient,
+  signBrandSessionToken,
+} from "./client/brand-session";
+export type { BrandSessionOptions } from "./client/brand-session";
+export { createScopedClient } from "./client/factory";
+export type {
+  SupabaseConfig,
+  SupabaseAuth,
+  ScopedClientOptions,
+} from "./client/factory";
+export type { DatabaseAdapter, DatabaseError } from "./client/adapter";
 
 // Utility exports
 export { CustomerOperations } from "./utils/customer-ops";
 export { ConversationOperations } from "./utils/conversation-ops";
+export type { InboundMessageResult } from "./utils/conversation-ops";
+export { normalizeStoredPhoneNumbers } from "./utils/phone-normalization";
+export type {
+  PhoneNormalizationOptions,
+  PhoneNormalizationReport,
+  PhoneNormalizationChange,
+  PhoneDuplicate,
+  InvalidPhoneNumber,
+} from "./utils/phone-normalization";
+export {
+  FieldEncryption,
+  generateEncryptionKey,
+  getEnvKeyring,
+  rotateEncryptedFields,
+} from "./utils/field-encryption";
+export type { EncryptedTable } from "./utils/field-encryption";
+export { CampaignOperations } from "./utils/campaign-ops";
+export { AuditLog, REDACTED, diffFields } from "./utils/audit-log";
+export { BrandRegistry, getBrandRegistry } from "./utils/brand-registry";
+export { AdminOperations } from "./utils/admin-ops";
+export type { BrandRegistryOptions } from "./utils/brand-registry";
+export {
+  fromDatabaseRow,
+  parseInput,
+  parseRow,
+  parseRows,
+} from "./utils/validation";
+export type { ValidationOptions } from "./utils/validation";
 
-// Convenience factory function for complete database operations
-export function createDatabaseClient(brandContext: BrandContext) {
-  const client = createBrandClient(brandContext);
+// Convenience factory function for complete database operations.
+// Queries use `adapter` when given: a client from createScopedClient (the
+// service role, another project, or a MemoryDatabase's client()).
+// Otherwise, on the server, `session` runs them in a new brand-scoped session
+// (see createBrandSessionClient) acting as the user of its verified
+// access_token. Throws without either, rather than using the anon client,
+// which sees no brand rows.
+// Inputs and rows are checked against the Zod schemas unless turned off
+// with `validation`. Fields under the brand's encryption policy use `keyring`,
+// or the brand's entry in FIELD_ENCRYPTION_KEYRINGS. Throws
+// BrandResolutionError for unknown or deactivated brands.
+export function createDatabaseClient(
+  brandContext: BrandContext,
+  options: {
+    adapter?: SupabaseClient<Database>;
+    session?: BrandSessionOptions;
+    validation?: ValidationOptions;
+    keyring?: BrandKeyring;
+  } = {}
+) {
+  getActiveBrandConfig(brandContext.brand_id);
+  const client = createBrandClient(
+    brandContext,
+    options.adapter,
+    options.session
+  );
+  const encryption = FieldEncryption.forBrand(brandContext, options.keyring);
+  const audit = new AuditLog(client, options.validation, encryption);
 
   return {
     client,
-    customers: new CustomerOperations(client),
-    conversations: new ConversationOperations(client),
+    customers: new CustomerOperations(
+      client,
+      options.validation,
+      encryption,
+      audit
+    ),
+    conversations: new ConversationOperations(
+      client,
+      options.validation,
+      encryption
+    ),
+    campaigns: new CampaignOperations(client, options.validation),
+    audit,
 
     // Direct access to raw client and context
     raw: client.raw,
@@ -83,5 +372,27 @@ export function createDatabaseClient(brandContext: BrandContext) {
   };
 }
 
+// Cross-brand operations for admin routes (/api/shared/*), using a new
+// service-role client unless one is passed.
+// Throws AdminAccessError unless context.is_admin is set; every query is
+// recorded in cross_brand_access_log.
+export function createAdminDatabaseClient(
+  context: AdminContext,
+  options: {
+    adapter?: SupabaseClient<Database>;
+    config?: SupabaseConfig;
+    validation?: ValidationOptions;
+    keyrings?: Record<BrandId, BrandKeyring>;
+  } = {}
+): AdminOperations {
+  return new AdminOperations(
+    context,
+    options.adapter ||
+      createScopedClient({ ...options.config, auth: { type: "service_role" } }),
+    options.validation,
+    options.keyrings
+  );
+}
+
 // Re-export common types for convenience
 export type DatabaseClient = ReturnType<typeof createDatabaseClient>;
@@ -0,0 +1,208 @@
+import { PGlite, Transaction } from "@electric-sql/pglite";
+import { pg_trgm } from "@electric-sql/pglite/contrib/pg_trgm";
+import { uuid_ossp } from "@electric-sql/pglite/contrib/uuid_ossp";
+import { beforeAll, describe, expect, it } from "vitest";
+import { signBrandSessionToken } from "../client/brand-session";
+import { BrandId, getBrandConfig } from "../types/brand";
+import { MigrationRunner } from "../utils/migrations";
+
+// The RLS policies of the migrations, exercised the way PostgREST runs a
+// request: as the `authenticated` role with the verified JWT payload in
+// request.jwt.claims
+
+const JWT_SECRET = "test-jwt-secret";
+
+const GNYMBLE_CUSTOMER = "11111111-1111-4111-8111-111111111111";
+const PERCYMD_CUSTOMER = "22222222-2222-4222-8222-222222222222";
+const GNYMBLE_CONVERSATION = "33333333-3333-4333-8333-333333333333";
+const PERCYMD_CONVERSATION = "44444444-4444-4444-8444-444444444444";
+
+// Claims PostgREST would set for a brand session of the brand
+function brandSessionClaims(brand_id: BrandId): Record<string, unknown> {
+  const token = signBrandSessionToken(
+    { brand_id, config: getBrandConfig(brand_id) },
+    { jwt_secret: JWT_SECRET }
+  );
+  return JSON.parse(Buffer.from(token.split(".")[1], "base64url").toString());
+}
+
+describe("brand RLS policies", () => {
+  let db: PGlite;
+
+  // Run a statement in its own request, rolled back afterwards
+  async function asSession<T>(
+    claims: Record<string, unknown>,
+    run: (tx: Transaction) => Promise<T>
+  ): Promise<T> {
+    let result: T;
+    await db.transaction(async (tx) => {
+      await tx.query("SET LOCAL ROLE authenticated");
+      await tx.query("SELECT set_config('request.jwt.claims', $1, TRUE)", [
+        JSON.stringify(claims),
+      ]);
+      result = await run(tx);
+      await tx.rollback();
+    });
+    return result!;
+  }
+
+  const gnymble = () => brandSessionClaims("gnymble");
+
+  beforeAll(async () => {
+    db = new PGlite({ extensions: { pg_trgm, uuid_ossp } });
+    await db.exec(
+      "CREATE ROLE authenticated; CREATE ROLE anon; CREATE ROLE service_role;"
+    );
+    await new MigrationRunner({
+      query: async (text, values) =>
+        values
+          ? db.query(text, values)
+          : ((await db.exec(text)).at(-1) ?? { rows: [] }),
+    }).up();
+
+    await db.query(
+      `INSERT INTO customers (id, brand_id, email) VALUES
+         ($1, 'gnymble', 'g@example.com'), ($2, 'percymd', 'p@example.com')`,
+      [GNYMBLE_CUSTOMER, PERCYMD_CUSTOMER]
+    );
+    await db.query(
+      `INSERT INTO conversations (id, brand_id, customer_id, customer_phone, brand_phone) VALUES
+         ($1, 'gnymble', $2, '+14155552671', '+14155550100'),
+         ($3, 'percymd', $4, '+14155552672', '+14155550101')`,
+      [
+        GNYMBLE_CONVERSATION,
+        GNYMBLE_CUSTOMER,
+        PERCYMD_CONVERSATION,
+        PERCYMD_CUSTOMER,
+      ]
+    );
+    await db.query(
+      `INSERT INTO messages (conversation_id, direction, content) VALUES
+         ($1, 'inbound', 'hi gnymble'), ($2, 'inbound', 'hi percymd')`,
+      [GNYMBLE_CONVERSATION, PERCYMD_CONVERSATION]
+    );
+  }, 60_000);
+
+  it("reads only the session brand's rows without a brand filter", async () => {
+    const rows = await asSession(gnymble(), async (tx) => ({
+      customers: (await tx.query("SELECT brand_id FROM customers")).rows,
+      conversations: (await tx.query("SELECT brand_id FROM conversations"))
+        .rows,
+      messages: (await tx.query("SELECT content FROM messages")).rows,
+    }));
+
+    expect(rows.customers).toEqual([{ brand_id: "gnymble" }]);
+    expect(rows.conversations).toEqual([{ brand_id: "gnymble" }]);
+    expect(rows.messages).toEqual([{ content: "hi gnymble" }]);
+  });
+
+  it("hides another brand's rows even when asked for them", async () => {
+    const { rows } = await asSession(gnymble(), (tx) =>
+      tx.query("SELECT id FROM customers WHERE id = $1", [PERCYMD_CUSTOMER])
+    );
+    expect(rows).toEqual([]);
+  });
+
+  it("shows no brand rows to a session without a brand claim", async () => {
+    const { rows } = await asSession(
+      { role: "authenticated", sub: "55555555-5555-4555-8555-555555555555" },
+      (tx) => tx.query("SELECT id FROM customers")
+    );
+    expect(rows).toEqual([]);
+  });
+
+  it("rejects inserts for another brand", async () => {
+    await expect(
+      asSession(gnymble(), (tx) =>
+        tx.query(
+          "INSERT INTO customers (brand_id, email) VALUES ('percymd', 'x@example.com')"
+        )
+      )
+    ).rejects.toMatchObject({ code: "42501" });
+  });
+
+  it("rejects moving a row to another brand", async () => {
+    await expect(
+      asSession(gnymble(), (tx) =>
+        tx.query("UPDATE customers SET brand_id = 'percymd' WHERE id = $1", [
+          GNYMBLE_CUSTOMER,
+        ])
+      )
+    ).rejects.toMatchObject({ code: "42501" });
+  });
+
+  it("updates and deletes nothing of another brand", async () => {
+    const changed = await asSession(gnymble(), async (tx) => [
+      (
+        await tx.query("UPDATE customers SET first_name = 'X' WHERE id = $1", [
+          PERCYMD_CUSTOMER,
+        ])
+      ).affectedRows,
+      (
+        await tx.query("DELETE FROM customers WHERE id = $1", [
+          PERCYMD_CUSTOMER,
+        ])
+      ).affectedRows,
+    ]);
+    expect(changed).toEqual([0, 0]);
+  });
+
+  it("grants sessions only the privileges the operations use", async () => {
+    for (const sql of [
+      "DELETE FROM conversations",
+      "DELETE FROM messages",
+      "UPDATE brands SET is_active = FALSE",
+      "SELECT * FROM cross_brand_access_log",
+      "TRUNCATE customers",
+    ]) {
+      await expect(
+        asSession(gnymble(), (tx) => tx.query(sql))
+      ).rejects.toMatchObject({ code: "42501" });
+    }
+  });
+
+  it("keeps database functions to the session brand", async () => {
+    await expect(
+      asSession(gnymble(), (tx) =>
+        tx.query(
+          "SELECT * FROM transition_customer_stage('percymd', $1, 'lead', 'trial')",
+          [PERCYMD_CUSTOMER]
+        )
+      )
+    ).rejects.toMatchObject({ code: "P0002" });
+
+    await expect(
+      asSession(gnymble(), (tx) =>
+        tx.query(
+          "SELECT * FROM add_message('percymd', $1, 'outbound', 'spoofed')",
+          [PERCYMD_CONVERSATION]
+        )
+      )
+    ).rejects.toMatchObject({ code: "P0002" });
+  });
+
+  it("appends audit events only for the session brand", async () => {
+    await expect(
+      asSession(gnymble(), (tx) =>
+        tx.query(
+          `INSERT INTO audit_events (brand_id, entity_type, entity_id, action)
+           VALUES ('gnymble', 'customer', $1, 'update')`,
+          [GNYMBLE_CUSTOMER]
+        )
+      )
+    ).rejects.toMatchObject({ code: "42501" });
+
+    const events = JSON.stringify([
+      {
+        entity_type: "customer",
+        entity_id: PERCYMD_CUSTOMER,
+        action: "update",
+      },
+    ]);
+    await expect(
+      asSession(gnymble(), (tx) =>
+        tx.query("SELECT * FROM record_audit_events('percymd', $1)", [events])
+      )
+    ).rejects.toMatchObject({ code: "42501" });
+  });
+});
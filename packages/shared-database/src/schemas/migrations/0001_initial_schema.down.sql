@@ -0,0 +1,39 @@
+-- Revert migration 0001: drop everything the initial schema created.
+-- Extensions and the authenticated role are shared and left in place.
+
+DROP VIEW IF EXISTS campaign_stats;
+DROP VIEW IF EXISTS conversation_analytics;
+DROP VIEW IF EXISTS customer_analytics;
+
+-- Functions returning table row types go before their tables
+DROP FUNCTION IF EXISTS get_customer_cohorts;
+DROP FUNCTION IF EXISTS get_customer_funnel;
+DROP FUNCTION IF EXISTS get_conversation_analytics;
+DROP FUNCTION IF EXISTS get_customer_analytics;
+DROP FUNCTION IF EXISTS search_conversations;
+DROP FUNCTION IF EXISTS search_customers;
+DROP FUNCTION IF EXISTS transition_customer_stage;
+DROP FUNCTION IF EXISTS update_message_status;
+DROP FUNCTION IF EXISTS add_message;
+
+-- Tables in reverse dependency order; their indexes, triggers and policies
+-- go with them
+DROP TABLE IF EXISTS cross_brand_access_log;
+DROP TABLE IF EXISTS customer_stage_history;
+DROP TABLE IF EXISTS message_status_events;
+DROP TABLE IF EXISTS messages;
+DROP TABLE IF EXISTS conversations;
+DROP TABLE IF EXISTS campaigns;
+DROP TABLE IF EXISTS customers;
+DROP TABLE IF EXISTS brands;
+
+DROP FUNCTION IF EXISTS current_brand_id;
+DROP FUNCTION IF EXISTS update_updated_at_column;
+
+DROP TYPE IF EXISTS campaign_status;
+DROP TYPE IF EXISTS conversation_status;
+DROP TYPE IF EXISTS message_status;
+DROP TYPE IF EXISTS message_direction;
+DROP TYPE IF EXISTS customer_source;
+DROP TYPE IF EXISTS customer_stage;
+DROP DOMAIN IF EXISTS brand_id;
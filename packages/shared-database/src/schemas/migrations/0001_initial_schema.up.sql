@@ -0,0 +1,957 @@
+-- PercyTech Multi-Brand Database Schema
+-- This schema supports unified database with brand isolation
+-- Migration 0001: initial schema. Applied migrations are never edited; later
+-- changes go in new numbered migrations (see src/migrations).
+
+-- Enable necessary extensions
+CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
+CREATE EXTENSION IF NOT EXISTS "pg_trgm";
+
+-- Brand identifier; valid brands are the rows of the brands table
+CREATE DOMAIN brand_id AS VARCHAR(50) CHECK (VALUE ~ '^[a-z][a-z0-9_-]{1,49}$');
+
+-- Customer stage enum
+CREATE TYPE customer_stage AS ENUM ('lead', 'marketing', 'trial', 'active', 'churned', 'dormant');
+
+-- Customer source enum  
+CREATE TYPE customer_source AS ENUM ('website', 'sms_campaign', 'email_campaign', 'referral', 'organic', 'paid_ads', 'social', 'other');
+
+-- Message direction enum
+CREATE TYPE message_direction AS ENUM ('inbound', 'outbound');
+
+-- Message status enum
+CREATE TYPE message_status AS ENUM ('pending', 'sent', 'delivered', 'failed', 'undelivered');
+
+-- Conversation status enum
+CREATE TYPE conversation_status AS ENUM ('active', 'paused', 'completed', 'archived');
+
+-- Campaign status enum
+CREATE TYPE campaign_status AS ENUM ('draft', 'active', 'paused', 'finished');
+
+-- Brands table (source of truth for BrandConfig)
+CREATE TABLE brands (
+    id brand_id PRIMARY KEY,
+    
+    -- Identity
+    name VARCHAR(100) NOT NULL,
+    domain VARCHAR(255) NOT NULL,
+    platform_domain VARCHAR(255) NOT NULL,
+    
+    -- Appearance
+    primary_color VARCHAR(20) NOT NULL,
+    logo_url TEXT NOT NULL,
+    
+    -- Support
+    support_email VARCHAR(255) NOT NULL,
+    sms_compliance JSONB, -- Overrides for STOP/START/HELP keywords and replies
+    
+    -- Status
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    
+    -- Audit
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    
+    -- Constraints
+    CONSTRAINT brands_domain_unique UNIQUE (domain),
+    CONSTRAINT brands_platform_domain_unique UNIQUE (platform_domain)
+);
+
+-- Built-in brands (mirrors BRAND_CONFIGS in types/brand.ts)
+INSERT INTO brands (id, name, domain, platform_domain, primary_color, logo_url, support_email) VALUES
+    ('gnymble', 'Gnymble', 'gnymble.com', 'app.gnymble.com', '#4F46E5', '/brands/gnymble/logo.svg', 'support@gnymble.com'),
+    ('percymd', 'PercyMD', 'percymd.com', 'app.percymd.com', '#059669', '/brands/percymd/logo.svg', 'support@percymd.com'),
+    ('percytext', 'PercyText', 'percytext.com', 'app.percytext.com', '#DC2626', '/brands/percytext/logo.svg', 'support@percytext.com')
+ON CONFLICT (id) DO NOTHING;
+
+-- Customers table
+CREATE TABLE customers (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    brand_id brand_id NOT NULL REFERENCES brands(id),
+    
+    -- Identity
+    email VARCHAR(255) NOT NULL,
+    phone VARCHAR(20),
+    first_name VARCHAR(100),
+    last_name VARCHAR(100),
+    
+    -- Status tracking
+    stage customer_stage NOT NULL DEFAULT 'lead',
+    source customer_source NOT NULL DEFAULT 'website',
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    
+    -- Journey tracking
+    marketing_qualified_at TIMESTAMPTZ,
+    trial_started_at TIMESTAMPTZ,
+    subscribed_at TIMESTAMPTZ,
+    churned_at TIMESTAMPTZ,
+    
+    -- Metadata
+    metadata JSONB,
+    tags TEXT[],
+    
+    -- Audit
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    created_by UUID,
+    
+    -- Constraints
+    CONSTRAINT customers_brand_email_unique UNIQUE (brand_id, email),
+    CONSTRAINT customers_brand_phone_unique UNIQUE (brand_id, phone) DEFERRABLE INITIALLY DEFERRED,
+    CONSTRAINT customers_phone_e164 CHECK (phone IS NULL OR phone ~ '^\+[1-9][0-9]{1,14}$')
+);
+
+-- Campaigns table
+CREATE TABLE campaigns (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    brand_id brand_id NOT NULL REFERENCES brands(id),
+    
+    -- Details
+    name VARCHAR(255) NOT NULL,
+    description TEXT,
+    brand_phone VARCHAR(20),
+    
+    -- Status
+    status campaign_status NOT NULL DEFAULT 'draft',
+    started_at TIMESTAMPTZ,
+    paused_at TIMESTAMPTZ,
+    finished_at TIMESTAMPTZ,
+    
+    -- Metadata
+    metadata JSONB,
+    tags TEXT[],
+    
+    -- Audit
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    created_by UUID,
+    
+    -- Constraints
+    CONSTRAINT campaigns_brand_phone_e164 CHECK (brand_phone IS NULL OR brand_phone ~ '^\+[1-9][0-9]{1,14}$')
+);
+
+-- Conversations table
+CREATE TABLE conversations (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    brand_id brand_id NOT NULL REFERENCES brands(id),
+    customer_id UUID NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+    
+    -- Phone numbers
+    customer_phone VARCHAR(20) NOT NULL,
+    brand_phone VARCHAR(20) NOT NULL,
+    
+    -- Status
+    status conversation_status NOT NULL DEFAULT 'active',
+    
+    -- Campaign tracking
+    campaign_id UUID REFERENCES campaigns(id) ON DELETE SET NULL,
+    campaign_name VARCHAR(255),
+    
+    -- Message counts
+    message_count INTEGER NOT NULL DEFAULT 0,
+    last_message_at TIMESTAMPTZ,
+    last_inbound_at TIMESTAMPTZ,
+    last_outbound_at TIMESTAMPTZ,
+    
+    -- Opt-out tracking
+    opted_out_at TIMESTAMPTZ,
+    opt_out_reason TEXT,
+    
+    -- Metadata
+    metadata JSONB,
+    tags TEXT[],
+    
+    -- Audit
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    
+    -- Constraints
+    CONSTRAINT conversations_brand_phones_unique UNIQUE (brand_id, customer_phone, brand_phone),
+    CONSTRAINT conversations_customer_phone_e164 CHECK (customer_phone ~ '^\+[1-9][0-9]{1,14}$'),
+    CONSTRAINT conversations_brand_phone_e164 CHECK (brand_phone ~ '^\+[1-9][0-9]{1,14}$')
+);
+
+-- Messages table
+CREATE TABLE messages (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    conversation_id UUID NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+    
+    -- Message content
+    direction message_direction NOT NULL,
+    content TEXT NOT NULL,
+    media_urls TEXT[],
+    
+    -- Status tracking (for outbound messages)
+    status message_status,
+    external_id VARCHAR(255), -- Provider message ID
+    error_code VARCHAR(50), -- Provider/carrier error code for failures
+    
+    -- Metadata
+    metadata JSONB,
+    
+    -- Timing
+    sent_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    delivered_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Message status history (every provider callback, applied or not)
+CREATE TABLE message_status_events (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    message_id UUID NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+    
+    -- Status change
+    previous_status message_status,
+    status message_status NOT NULL,
+    error_code VARCHAR(50),
+    
+    -- Outcome: applied, duplicate or out_of_order
+    outcome VARCHAR(20) NOT NULL,
+    
+    -- Timing
+    occurred_at TIMESTAMPTZ NOT NULL, -- Provider timestamp
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Customer stage history (every lifecycle stage change)
+CREATE TABLE customer_stage_history (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    brand_id brand_id NOT NULL REFERENCES brands(id),
+    customer_id UUID NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+    
+    -- Stage change
+    from_stage customer_stage NOT NULL,
+    to_stage customer_stage NOT NULL,
+    transition VARCHAR(20) NOT NULL DEFAULT 'progress', -- progress or reactivate
+    reason TEXT,
+    
+    -- Audit
+    actor_id UUID, -- User who made the change
+    changed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Cross-brand access by admins (the ADR-003 escape hatch), append-only
+CREATE TABLE cross_brand_access_log (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    actor_id UUID NOT NULL, -- Admin who made the request
+    brand_ids brand_id[] NOT NULL, -- Brands the request could read
+    resource VARCHAR(50) NOT NULL, -- customers, conversations, ...
+    action VARCHAR(50) NOT NULL, -- list, get, analytics
+    filters JSONB, -- Query filters, for reconstructing what was read
+    reason TEXT, -- Why the access was needed (e.g. a support ticket)
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    
+    CONSTRAINT cross_brand_access_log_brands CHECK (cardinality(brand_ids) > 0)
+);
+
+-- Indexes for performance
+CREATE INDEX idx_customers_brand_id ON customers(brand_id);
+CREATE INDEX idx_customers_email ON customers(email);
+CREATE INDEX idx_customers_phone ON customers(phone);
+CREATE INDEX idx_customers_stage ON customers(brand_id, stage);
+CREATE INDEX idx_customers_source ON customers(brand_id, source);
+CREATE INDEX idx_customers_created_at ON customers(created_at);
+CREATE INDEX idx_customers_tags ON customers USING GIN(tags);
+
+CREATE INDEX idx_campaigns_brand_id ON campaigns(brand_id);
+CREATE INDEX idx_campaigns_status ON campaigns(brand_id, status);
+CREATE INDEX idx_campaigns_created_at ON campaigns(created_at);
+
+CREATE INDEX idx_conversations_brand_id ON conversations(brand_id);
+CREATE INDEX idx_conversations_customer_id ON conversations(customer_id);
+CREATE INDEX idx_conversations_status ON conversations(brand_id, status);
+CREATE INDEX idx_conversations_phones ON conversations(customer_phone, brand_phone);
+CREATE INDEX idx_conversations_last_message ON conversations(last_message_at DESC NULLS LAST);
+CREATE INDEX idx_conversations_campaign ON conversations(campaign_id);
+CREATE INDEX idx_conversations_tags ON conversations USING GIN(tags);
+
+CREATE INDEX idx_messages_conversation_id ON messages(conversation_id);
+CREATE INDEX idx_messages_direction ON messages(direction);
+CREATE INDEX idx_messages_status ON messages(status);
+CREATE INDEX idx_messages_sent_at ON messages(sent_at DESC);
+CREATE INDEX idx_messages_external_id ON messages(external_id);
+
+CREATE INDEX idx_message_status_events_message_id ON message_status_events(message_id, created_at);
+
+CREATE INDEX idx_customer_stage_history_customer ON customer_stage_history(customer_id, changed_at);
+CREATE INDEX idx_customer_stage_history_brand ON customer_stage_history(brand_id, to_stage, changed_at);
+
+CREATE INDEX idx_cross_brand_access_log_actor ON cross_brand_access_log(actor_id, created_at DESC);
+CREATE INDEX idx_cross_brand_access_log_created_at ON cross_brand_access_log(created_at DESC);
+CREATE INDEX idx_cross_brand_access_log_brands ON cross_brand_access_log USING GIN(brand_ids);
+
+-- Full text search indexes
+CREATE INDEX idx_customers_search ON customers USING GIN(
+    to_tsvector('english', COALESCE(first_name, '') || ' ' || COALESCE(last_name, '') || ' ' || email)
+);
+
+-- Trigram and digit indexes for fuzzy and phone search
+CREATE INDEX idx_customers_email_trgm ON customers USING GIN(email gin_trgm_ops);
+CREATE INDEX idx_customers_name_trgm ON customers USING GIN(
+    (COALESCE(first_name, '') || ' ' || COALESCE(last_name, '')) gin_trgm_ops
+);
+CREATE INDEX idx_customers_phone_digits ON customers USING GIN(
+    regexp_replace(COALESCE(phone, ''), '\D', '', 'g') gin_trgm_ops
+);
+CREATE INDEX idx_conversations_campaign_name_trgm ON conversations USING GIN(
+    COALESCE(campaign_name, '') gin_trgm_ops
+);
+CREATE INDEX idx_conversations_phone_digits ON conversations USING GIN(
+    regexp_replace(customer_phone, '\D', '', 'g') gin_trgm_ops
+);
+
+-- Functions for updated_at timestamps
+CREATE OR REPLACE FUNCTION update_updated_at_column()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+-- Triggers for updated_at
+CREATE TRIGGER update_brands_updated_at
+    BEFORE UPDATE ON brands
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_customers_updated_at
+    BEFORE UPDATE ON customers
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_conversations_updated_at
+    BEFORE UPDATE ON conversations
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_campaigns_updated_at
+    BEFORE UPDATE ON campaigns
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Brand of the current session, read by the RLS policies: the brand_id claim
+-- of the request JWT (PostgREST), else the app.current_brand setting (direct
+-- connections). NULL when neither is set, so brand tables appear empty.
+CREATE OR REPLACE FUNCTION current_brand_id()
+RETURNS brand_id AS $$
+    SELECT NULLIF(COALESCE(
+        NULLIF(current_setting('request.jwt.claims', TRUE), '')::jsonb ->> 'brand_id',
+        current_setting('app.current_brand', TRUE)
+    ), '')::brand_id;
+$$ LANGUAGE sql STABLE;
+
+-- Insert a message and update its conversation's stats atomically.
+-- The UPDATE takes a row lock on the conversation, so concurrent messages
+-- serialize and message_count stays exact. GREATEST keeps timestamps from
+-- moving backwards when messages arrive out of order.
+CREATE OR REPLACE FUNCTION add_message(
+    p_brand_id brand_id,
+    p_conversation_id UUID,
+    p_direction message_direction,
+    p_content TEXT,
+    p_media_urls TEXT[] DEFAULT NULL,
+    p_external_id VARCHAR(255) DEFAULT NULL,
+    p_metadata JSONB DEFAULT NULL,
+    p_sent_at TIMESTAMPTZ DEFAULT NOW()
+)
+RETURNS messages AS $$
+DECLARE
+    v_message messages;
+BEGIN
+    UPDATE conversations
+    SET message_count = message_count + 1,
+        last_message_at = GREATEST(last_message_at, p_sent_at),
+        last_inbound_at = CASE WHEN p_direction = 'inbound'
+            THEN GREATEST(last_inbound_at, p_sent_at) ELSE last_inbound_at END,
+        last_outbound_at = CASE WHEN p_direction = 'outbound'
+            THEN GREATEST(last_outbound_at, p_sent_at) ELSE last_outbound_at END
+    WHERE id = p_conversation_id
+      AND brand_id = p_brand_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Conversation % not found for brand %', p_conversation_id, p_brand_id
+            USING ERRCODE = 'no_data_found';
+    END IF;
+
+    INSERT INTO messages (conversation_id, direction, content, media_urls, status, external_id, metadata, sent_at)
+    VALUES (
+        p_conversation_id, p_direction, p_content, p_media_urls,
+        CASE WHEN p_direction = 'outbound' THEN 'pending'::message_status END,
+        p_external_id, p_metadata, p_sent_at
+    )
+    RETURNING * INTO v_message;
+
+    RETURN v_message;
+END;
+$$ language 'plpgsql';
+
+-- Apply a provider delivery callback to a message, found by external_id.
+-- Legal transitions (mirrors MESSAGE_STATUS_TRANSITIONS in types/conversation.ts):
+--   NULL    → any status
+--   pending → sent, delivered, failed, undelivered
+--   sent    → delivered, failed, undelivered
+--   delivered, failed and undelivered are final
+-- Duplicate and out-of-order callbacks are recorded but not applied.
+CREATE OR REPLACE FUNCTION update_message_status(
+    p_brand_id brand_id,
+    p_external_id VARCHAR(255),
+    p_status message_status,
+    p_occurred_at TIMESTAMPTZ DEFAULT NOW(),
+    p_error_code VARCHAR(50) DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+    v_message messages;
+    v_previous message_status;
+    v_outcome VARCHAR(20);
+BEGIN
+    SELECT m.* INTO v_message
+    FROM messages m
+    JOIN conversations c ON c.id = m.conversation_id
+    WHERE m.external_id = p_external_id
+      AND c.brand_id = p_brand_id
+    ORDER BY m.created_at DESC
+    LIMIT 1
+    FOR UPDATE OF m;
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object('outcome', 'not_found', 'message', NULL, 'previous_status', NULL);
+    END IF;
+
+    v_previous := v_message.status;
+
+    IF v_previous = p_status THEN
+        v_outcome := 'duplicate';
+    ELSIF v_previous IS NULL
+        OR (v_previous = 'pending' AND p_status IN ('sent', 'delivered', 'failed', 'undelivered'))
+        OR (v_previous = 'sent' AND p_status IN ('delivered', 'failed', 'undelivered')) THEN
+        v_outcome := 'applied';
+    ELSE
+        v_outcome := 'out_of_order';
+    END IF;
+
+    INSERT INTO message_status_events (message_id, previous_status, status, error_code, outcome, occurred_at)
+    VALUES (v_message.id, v_previous, p_status, p_error_code, v_outcome, p_occurred_at);
+
+    IF v_outcome = 'applied' THEN
+        UPDATE messages
+        SET status = p_status,
+            error_code = COALESCE(p_error_code, error_code),
+            delivered_at = CASE WHEN p_status = 'delivered' THEN p_occurred_at ELSE delivered_at END
+        WHERE id = v_message.id
+        RETURNING * INTO v_message;
+    END IF;
+
+    RETURN jsonb_build_object(
+        'outcome', v_outcome,
+        'message', to_jsonb(v_message),
+        'previous_status', v_previous
+    );
+END;
+$$ language 'plpgsql';
+
+-- Move a customer to a new lifecycle stage and record it in
+-- customer_stage_history. Legal moves are checked by CustomerOperations
+-- (CUSTOMER_STAGE_TRANSITIONS in types/customer.ts); p_from_stage guards
+-- against concurrent changes. Journey timestamps keep the first time each
+-- stage was reached, so re-entering a stage does not overwrite them.
+CREATE OR REPLACE FUNCTION transition_customer_stage(
+    p_brand_id brand_id,
+    p_customer_id UUID,
+    p_from_stage customer_stage,
+    p_to_stage customer_stage,
+    p_transition VARCHAR(20) DEFAULT 'progress',
+    p_reason TEXT DEFAULT NULL,
+    p_actor_id UUID DEFAULT NULL
+)
+RETURNS customers AS $$
+DECLARE
+    v_customer customers;
+BEGIN
+    UPDATE customers
+    SET stage = p_to_stage,
+        marketing_qualified_at = CASE WHEN p_to_stage = 'marketing'
+            THEN COALESCE(marketing_qualified_at, NOW()) ELSE marketing_qualified_at END,
+        trial_started_at = CASE WHEN p_to_stage = 'trial'
+            THEN COALESCE(trial_started_at, NOW()) ELSE trial_started_at END,
+        subscribed_at = CASE WHEN p_to_stage = 'active'
+            THEN COALESCE(subscribed_at, NOW()) ELSE subscribed_at END,
+        churned_at = CASE WHEN p_to_stage = 'churned'
+            THEN COALESCE(churned_at, NOW()) ELSE churned_at END,
+        is_active = CASE
+            WHEN p_to_stage = 'churned' THEN FALSE
+            WHEN p_transition = 'reactivate' THEN TRUE
+            ELSE is_active END
+    WHERE id = p_customer_id
+      AND brand_id = p_brand_id
+      AND stage = p_from_stage
+    RETURNING * INTO v_customer;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Customer % is not in stage % for brand %', p_customer_id, p_from_stage, p_brand_id
+            USING ERRCODE = 'serialization_failure';
+    END IF;
+
+    INSERT INTO customer_stage_history (brand_id, customer_id, from_stage, to_stage, transition, reason, actor_id)
+    VALUES (p_brand_id, p_customer_id, p_from_stage, p_to_stage, p_transition, p_reason, p_actor_id);
+
+    RETURN v_customer;
+END;
+$$ language 'plpgsql';
+
+-- Ranked customer search. The query is only ever used as a value (never
+-- spliced into SQL or a filter string); LIKE wildcards in it are escaped.
+-- Combines full-text (idx_customers_search), trigram word similarity and
+-- phone digits, so "(555) 123-4567" matches "+15551234567".
+CREATE OR REPLACE FUNCTION search_customers(
+    p_brand_id brand_id,
+    p_query TEXT,
+    p_limit INTEGER DEFAULT 20,
+    p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (customer customers, rank REAL, matched_field TEXT) AS $$
+    WITH q AS (
+        SELECT
+            trim(p_query) AS text,
+            '%' || replace(replace(replace(lower(trim(p_query)), '\', '\\'), '%', '\%'), '_', '\_') || '%' AS pattern,
+            regexp_replace(p_query, '\D', '', 'g') AS digits,
+            websearch_to_tsquery('english', p_query) AS tsquery
+    ),
+    scored AS (
+        SELECT
+            c,
+            c.created_at,
+            c.id,
+            CASE
+                WHEN q.text = '' THEN 0
+                WHEN lower(c.email) LIKE q.pattern THEN 1
+                ELSE word_similarity(q.text, c.email)
+            END AS email_score,
+            CASE
+                WHEN q.text = '' THEN 0
+                WHEN lower(COALESCE(c.first_name, '') || ' ' || COALESCE(c.last_name, '')) LIKE q.pattern THEN 1
+                ELSE GREATEST(
+                    ts_rank(to_tsvector('english', COALESCE(c.first_name, '') || ' ' || COALESCE(c.last_name, '') || ' ' || c.email), q.tsquery),
+                    word_similarity(q.text, COALESCE(c.first_name, '') || ' ' || COALESCE(c.last_name, ''))
+                )
+            END AS name_score,
+            CASE
+                WHEN length(q.digits) >= 3
+                    AND regexp_replace(COALESCE(c.phone, ''), '\D', '', 'g') LIKE '%' || q.digits || '%' THEN 1
+                ELSE 0
+            END AS phone_score
+        FROM customers c, q
+        WHERE c.brand_id = p_brand_id
+          AND c.is_active = TRUE
+          AND (
+              q.text = ''
+              OR to_tsvector('english', COALESCE(c.first_name, '') || ' ' || COALESCE(c.last_name, '') || ' ' || c.email) @@ q.tsquery
+              OR lower(c.email) LIKE q.pattern
+              OR lower(COALESCE(c.first_name, '') || ' ' || COALESCE(c.last_name, '')) LIKE q.pattern
+              OR q.text <% c.email
+              OR q.text <% (COALESCE(c.first_name, '') || ' ' || COALESCE(c.last_name, ''))
+              OR (length(q.digits) >= 3 AND regexp_replace(COALESCE(c.phone, ''), '\D', '', 'g') LIKE '%' || q.digits || '%')
+          )
+    )
+    SELECT
+        c,
+        GREATEST(email_score, name_score, phone_score)::REAL,
+        CASE
+            WHEN GREATEST(email_score, name_score, phone_score) = 0 THEN NULL
+            WHEN phone_score >= GREATEST(email_score, name_score) THEN 'phone'
+            WHEN email_score >= name_score THEN 'email'
+            ELSE 'name'
+        END
+    FROM scored
+    ORDER BY 2 DESC, created_at DESC, id DESC
+    LIMIT p_limit OFFSET p_offset;
+$$ LANGUAGE sql STABLE;
+
+-- Ranked conversation search over customer phone, campaign name and the
+-- linked customer's name and email. Same escaping rules as search_customers.
+CREATE OR REPLACE FUNCTION search_conversations(
+    p_brand_id brand_id,
+    p_query TEXT,
+    p_limit INTEGER DEFAULT 20,
+    p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (conversation conversations, rank REAL, matched_field TEXT) AS $$
+    WITH q AS (
+        SELECT
+            trim(p_query) AS text,
+            '%' || replace(replace(replace(lower(trim(p_query)), '\', '\\'), '%', '\%'), '_', '\_') || '%' AS pattern,
+            regexp_replace(p_query, '\D', '', 'g') AS digits,
+            websearch_to_tsquery('english', p_query) AS tsquery
+    ),
+    scored AS (
+        SELECT
+            conv,
+            conv.last_message_at,
+            conv.id,
+            CASE
+                WHEN length(q.digits) >= 3
+                    AND regexp_replace(conv.customer_phone, '\D', '', 'g') LIKE '%' || q.digits || '%' THEN 1
+                ELSE 0
+            END AS phone_score,
+            CASE
+                WHEN q.text = '' THEN 0
+                WHEN lower(COALESCE(conv.campaign_name, '')) LIKE q.pattern THEN 1
+                ELSE word_similarity(q.text, COALESCE(conv.campaign_name, ''))
+            END AS campaign_score,
+            CASE
+                WHEN q.text = '' THEN 0
+                WHEN lower(COALESCE(cust.first_name, '') || ' ' || COALESCE(cust.last_name, '')) LIKE q.pattern THEN 1
+                ELSE GREATEST(
+                    ts_rank(to_tsvector('english', COALESCE(cust.first_name, '') || ' ' || COALESCE(cust.last_name, '') || ' ' || cust.email), q.tsquery),
+                    word_similarity(q.text, COALESCE(cust.first_name, '') || ' ' || COALESCE(cust.last_name, ''))
+                )
+            END AS name_score,
+            CASE
+                WHEN q.text = '' THEN 0
+                WHEN lower(cust.email) LIKE q.pattern THEN 1
+                ELSE word_similarity(q.text, cust.email)
+            END AS email_score
+        FROM conversations conv
+        JOIN customers cust ON cust.id = conv.customer_id, q
+        WHERE conv.brand_id = p_brand_id
+          AND (
+              q.text = ''
+              OR (length(q.digits) >= 3 AND regexp_replace(conv.customer_phone, '\D', '', 'g') LIKE '%' || q.digits || '%')
+              OR lower(COALESCE(conv.campaign_name, '')) LIKE q.pattern
+              OR q.text <% COALESCE(conv.campaign_name, '')
+              OR to_tsvector('english', COALESCE(cust.first_name, '') || ' ' || COALESCE(cust.last_name, '') || ' ' || cust.email) @@ q.tsquery
+              OR lower(cust.email) LIKE q.pattern
+              OR lower(COALESCE(cust.first_name, '') || ' ' || COALESCE(cust.last_name, '')) LIKE q.pattern
+              OR q.text <% (COALESCE(cust.first_name, '') || ' ' || COALESCE(cust.last_name, ''))
+          )
+    )
+    SELECT
+        conv,
+        GREATEST(phone_score, campaign_score, name_score, email_score)::REAL,
+        CASE
+            WHEN GREATEST(phone_score, campaign_score, name_score, email_score) = 0 THEN NULL
+            WHEN phone_score >= GREATEST(campaign_score, name_score, email_score) THEN 'customer_phone'
+            WHEN campaign_score >= GREATEST(name_score, email_score) THEN 'campaign_name'
+            WHEN name_score >= email_score THEN 'customer_name'
+            ELSE 'customer_email'
+        END
+    FROM scored
+    ORDER BY 2 DESC, last_message_at DESC NULLS LAST, id DESC
+    LIMIT p_limit OFFSET p_offset;
+$$ LANGUAGE sql STABLE;
+
+-- Customer analytics computed in the database: counts of customers created
+-- in an optional time range, grouped by stage or source (p_group_by) and
+-- bucketed by day, week or month in UTC (p_interval). bucket and group_key
+-- are NULL when not requested.
+CREATE OR REPLACE FUNCTION get_customer_analytics(
+    p_brand_id brand_id,
+    p_group_by TEXT DEFAULT NULL,
+    p_interval TEXT DEFAULT NULL,
+    p_start TIMESTAMPTZ DEFAULT NULL,
+    p_end TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS TABLE (
+    bucket TIMESTAMPTZ,
+    group_key TEXT,
+    count INTEGER,
+    active INTEGER,
+    converted INTEGER, -- Customers who subscribed
+    avg_days_to_conversion REAL -- Signup to subscription, for converted customers
+) AS $$
+    SELECT
+        CASE WHEN p_interval IS NOT NULL THEN date_trunc(p_interval, c.created_at, 'UTC') END,
+        CASE p_group_by
+            WHEN 'stage' THEN c.stage::TEXT
+            WHEN 'source' THEN c.source::TEXT
+        END,
+        COUNT(*)::INTEGER,
+        (COUNT(*) FILTER (WHERE c.is_active))::INTEGER,
+        (COUNT(*) FILTER (WHERE c.subscribed_at IS NOT NULL))::INTEGER,
+        (AVG(EXTRACT(EPOCH FROM (c.subscribed_at - c.created_at)) / 86400))::REAL
+    FROM customers c
+    WHERE c.brand_id = p_brand_id
+      AND (p_start IS NULL OR c.created_at >= p_start)
+      AND (p_end IS NULL OR c.created_at <= p_end)
+    GROUP BY 1, 2
+    ORDER BY 1, 2;
+$$ LANGUAGE sql STABLE;
+
+-- Conversation analytics computed in the database, grouped by status or
+-- campaign and bucketed like get_customer_analytics.
+CREATE OR REPLACE FUNCTION get_conversation_analytics(
+    p_brand_id brand_id,
+    p_group_by TEXT DEFAULT NULL,
+    p_interval TEXT DEFAULT NULL,
+    p_start TIMESTAMPTZ DEFAULT NULL,
+    p_end TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS TABLE (
+    bucket TIMESTAMPTZ,
+    group_key TEXT,
+    count INTEGER,
+    active INTEGER,
+    opted_out INTEGER,
+    total_messages INTEGER
+) AS $$
+    SELECT
+        CASE WHEN p_interval IS NOT NULL THEN date_trunc(p_interval, c.created_at, 'UTC') END,
+        CASE p_group_by
+            WHEN 'status' THEN c.status::TEXT
+            WHEN 'campaign' THEN c.campaign_id::TEXT
+        END,
+        COUNT(*)::INTEGER,
+        (COUNT(*) FILTER (WHERE c.status = 'active'))::INTEGER,
+        (COUNT(*) FILTER (WHERE c.opted_out_at IS NOT NULL))::INTEGER,
+        COALESCE(SUM(c.message_count), 0)::INTEGER
+    FROM conversations c
+    WHERE c.brand_id = p_brand_id
+      AND (p_start IS NULL OR c.created_at >= p_start)
+      AND (p_end IS NULL OR c.created_at <= p_end)
+    GROUP BY 1, 2
+    ORDER BY 1, 2;
+$$ LANGUAGE sql STABLE;
+
+-- Conversion funnel from the journey timestamps of customers who signed up
+-- in an optional time range. For each step pair: customers who reached the
+-- first step, how many of them reached the second, and the median and p90
+-- days between the two. Segmented by source when p_by_source.
+CREATE OR REPLACE FUNCTION get_customer_funnel(
+    p_brand_id brand_id,
+    p_start TIMESTAMPTZ DEFAULT NULL,
+    p_end TIMESTAMPTZ DEFAULT NULL,
+    p_by_source BOOLEAN DEFAULT FALSE
+)
+RETURNS TABLE (
+    source TEXT,
+    from_step TEXT,
+    to_step TEXT,
+    entered INTEGER,
+    converted INTEGER,
+    median_days REAL,
+    p90_days REAL
+) AS $$
+    WITH steps (position, from_step, to_step) AS (
+        VALUES
+            (1, 'signup', 'marketing_qualified'),
+            (2, 'marketing_qualified', 'trial'),
+            (3, 'trial', 'subscribed'),
+            (4, 'signup', 'trial'),
+            (5, 'signup', 'subscribed'),
+            (6, 'subscribed', 'churned')
+    ),
+    reached AS (
+        SELECT
+            c.id,
+            CASE WHEN p_by_source THEN c.source::TEXT END AS source,
+            step.name,
+            step.at
+        FROM customers c
+        CROSS JOIN LATERAL (
+            VALUES
+                ('signup', c.created_at),
+                ('marketing_qualified', c.marketing_qualified_at),
+                ('trial', c.trial_started_at),
+                ('subscribed', c.subscribed_at),
+                ('churned', c.churned_at)
+        ) AS step (name, at)
+        WHERE c.brand_id = p_brand_id
+          AND (p_start IS NULL OR c.created_at >= p_start)
+          AND (p_end IS NULL OR c.created_at <= p_end)
+          AND step.at IS NOT NULL
+    ),
+    pairs AS (
+        SELECT
+            s.position,
+            s.from_step,
+            s.to_step,
+            f.source,
+            EXTRACT(EPOCH FROM (t.at - f.at)) / 86400 AS days
+        FROM steps s
+        JOIN reached f ON f.name = s.from_step
+        LEFT JOIN reached t ON t.id = f.id AND t.name = s.to_step
+    )
+    SELECT
+        source,
+        from_step,
+        to_step,
+        COUNT(*)::INTEGER,
+        COUNT(days)::INTEGER,
+        (percentile_cont(0.5) WITHIN GROUP (ORDER BY days))::REAL,
+        (percentile_cont(0.9) WITHIN GROUP (ORDER BY days))::REAL
+    FROM pairs
+    GROUP BY position, source, from_step, to_step
+    ORDER BY source, position;
+$$ LANGUAGE sql STABLE;
+
+-- Monthly signup cohorts (UTC). For each cohort and month since signup
+-- (0 = the signup month, up to p_months and the current month): customers
+-- who had subscribed by the end of that month, and of those how many were
+-- still paying (retained) or had churned. Segmented by source when
+-- p_by_source.
+CREATE OR REPLACE FUNCTION get_customer_cohorts(
+    p_brand_id brand_id,
+    p_start TIMESTAMPTZ DEFAULT NULL,
+    p_end TIMESTAMPTZ DEFAULT NULL,
+    p_months INTEGER DEFAULT 12,
+    p_by_source BOOLEAN DEFAULT FALSE
+)
+RETURNS TABLE (
+    cohort TIMESTAMPTZ,
+    source TEXT,
+    month INTEGER,
+    customers INTEGER,
+    subscribed INTEGER,
+    retained INTEGER,
+    churned INTEGER
+) AS $$
+    WITH members AS (
+        SELECT
+            date_trunc('month', c.created_at, 'UTC') AS cohort,
+            CASE WHEN p_by_source THEN c.source::TEXT END AS source,
+            c.subscribed_at,
+            c.churned_at
+        FROM customers c
+        WHERE c.brand_id = p_brand_id
+          AND (p_start IS NULL OR c.created_at >= p_start)
+          AND (p_end IS NULL OR c.created_at <= p_end)
+    ),
+    periods AS (
+        SELECT
+            m.*,
+            offsets.month,
+            ((m.cohort AT TIME ZONE 'UTC') + make_interval(months => offsets.month + 1)) AT TIME ZONE 'UTC' AS period_end
+        FROM members m
+        CROSS JOIN generate_series(0, p_months) AS offsets (month)
+        WHERE ((m.cohort AT TIME ZONE 'UTC') + make_interval(months => offsets.month)) AT TIME ZONE 'UTC' <= NOW()
+    )
+    SELECT
+        cohort,
+        source,
+        month,
+        COUNT(*)::INTEGER,
+        (COUNT(*) FILTER (WHERE subscribed_at < period_end))::INTEGER,
+        (COUNT(*) FILTER (WHERE subscribed_at < period_end
+            AND (churned_at IS NULL OR churned_at >= period_end)))::INTEGER,
+        (COUNT(*) FILTER (WHERE subscribed_at < period_end
+            AND churned_at < period_end))::INTEGER
+    FROM periods
+    GROUP BY cohort, source, month
+    ORDER BY cohort, source, month;
+$$ LANGUAGE sql STABLE;
+
+-- Row Level Security (RLS) policies
+ALTER TABLE brands ENABLE ROW LEVEL SECURITY;
+ALTER TABLE customers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE conversations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE messages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE campaigns ENABLE ROW LEVEL SECURITY;
+ALTER TABLE message_status_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE customer_stage_history ENABLE ROW LEVEL SECURITY;
+ALTER TABLE cross_brand_access_log ENABLE ROW LEVEL SECURITY;
+
+-- Policies scope every brand table to current_brand_id(); the service role
+-- bypasses RLS for cross-brand admin access
+
+-- Brand configs are public; changes go through the service role
+CREATE POLICY brands_read ON brands
+    FOR SELECT
+    USING (TRUE);
+
+-- Brand isolation policy for customers
+CREATE POLICY customers_brand_isolation ON customers
+    FOR ALL
+    USING (brand_id = current_brand_id());
+
+-- Brand isolation policy for conversations
+CREATE POLICY conversations_brand_isolation ON conversations
+    FOR ALL
+    USING (brand_id = current_brand_id());
+
+-- Brand isolation policy for campaigns
+CREATE POLICY campaigns_brand_isolation ON campaigns
+    FOR ALL
+    USING (brand_id = current_brand_id());
+
+-- Brand isolation policy for customer stage history
+CREATE POLICY customer_stage_history_brand_isolation ON customer_stage_history
+    FOR ALL
+    USING (brand_id = current_brand_id());
+
+-- Cross-brand access is recorded by anyone but only read with the service role
+CREATE POLICY cross_brand_access_log_append ON cross_brand_access_log
+    FOR INSERT
+    WITH CHECK (TRUE);
+
+-- Messages are accessible through conversations (brand isolation inherited)
+CREATE POLICY messages_conversation_access ON messages
+    FOR ALL
+    USING (
+        conversation_id IN (
+            SELECT id FROM conversations 
+            WHERE brand_id = current_brand_id()
+        )
+    );
+
+-- Status history is accessible through messages (brand isolation inherited)
+CREATE POLICY message_status_events_message_access ON message_status_events
+    FOR ALL
+    USING (
+        message_id IN (
+            SELECT m.id FROM messages m
+            JOIN conversations c ON c.id = m.conversation_id
+            WHERE c.brand_id = current_brand_id()
+        )
+    );
+
+-- Views for common queries, run with the caller's RLS policies
+CREATE VIEW customer_analytics WITH (security_invoker = true) AS
+SELECT 
+    brand_id,
+    stage,
+    source,
+    COUNT(*) as count,
+    COUNT(*) FILTER (WHERE created_at >= NOW() - INTERVAL '30 days') as count_30d,
+    AVG(EXTRACT(EPOCH FROM (subscribed_at - created_at))/86400) FILTER (WHERE subscribed_at IS NOT NULL) as avg_days_to_subscription
+FROM customers
+WHERE is_active = TRUE
+GROUP BY brand_id, stage, source;
+
+CREATE VIEW conversation_analytics WITH (security_invoker = true) AS
+SELECT 
+    brand_id,
+    status,
+    COUNT(*) as count,
+    AVG(message_count) as avg_message_count,
+    COUNT(*) FILTER (WHERE created_at >= NOW() - INTERVAL '30 days') as count_30d,
+    COUNT(*) FILTER (WHERE opted_out_at IS NOT NULL) as opted_out_count
+FROM conversations
+GROUP BY brand_id, status;
+
+-- Campaign stats built from conversation counters
+CREATE VIEW campaign_stats WITH (security_invoker = true) AS
+SELECT 
+    brand_id,
+    campaign_id,
+    COUNT(*)::INTEGER as conversations_started,
+    COUNT(*) FILTER (WHERE last_inbound_at IS NOT NULL)::INTEGER as replies,
+    COUNT(*) FILTER (WHERE opted_out_at IS NOT NULL)::INTEGER as opt_outs,
+    COALESCE(SUM(message_count), 0)::INTEGER as total_messages
+FROM conversations
+WHERE campaign_id IS NOT NULL
+GROUP BY brand_id, campaign_id;
+
+-- Grant permissions (adjust based on your needs)
+-- These are examples - customize for your auth setup
+-- Supabase provides the authenticated role; create it on a plain local Postgres
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'authenticated') THEN
+        CREATE ROLE authenticated NOLOGIN;
+    END IF;
+END $$;
+
+GRANT USAGE ON SCHEMA public TO authenticated;
+GRANT ALL ON ALL TABLES IN SCHEMA public TO authenticated;
+GRANT ALL ON ALL SEQUENCES IN SCHEMA public TO authenticated;
@@ -0,0 +1,20 @@
+-- Revert migration 0002. Erased personal data cannot be restored; erased
+-- conversations get unique placeholder numbers (unassigned country code 999)
+-- so customer_phone can be NOT NULL again.
+
+DROP FUNCTION IF EXISTS erase_customer;
+DROP TABLE IF EXISTS customer_data_requests;
+
+ALTER TABLE conversations DROP CONSTRAINT IF EXISTS conversations_customer_phone_required;
+UPDATE conversations c
+SET customer_phone = '+999' || lpad(e.n::TEXT, 11, '0')
+FROM (
+    SELECT id, row_number() OVER (ORDER BY id) AS n
+    FROM conversations
+    WHERE customer_phone IS NULL
+) e
+WHERE c.id = e.id;
+ALTER TABLE conversations ALTER COLUMN customer_phone SET NOT NULL;
+
+ALTER TABLE conversations DROP COLUMN IF EXISTS erased_at;
+ALTER TABLE customers DROP COLUMN IF EXISTS erased_at;
@@ -0,0 +1,126 @@
+-- Data subject requests: customer data export and right to erasure
+
+-- Erased customers and conversations keep their rows (and so the aggregate
+-- counts) with the personal data removed
+ALTER TABLE customers ADD COLUMN erased_at TIMESTAMPTZ;
+ALTER TABLE conversations ADD COLUMN erased_at TIMESTAMPTZ;
+
+-- Only erased conversations have no customer phone
+ALTER TABLE conversations ALTER COLUMN customer_phone DROP NOT NULL;
+ALTER TABLE conversations ADD CONSTRAINT conversations_customer_phone_required
+    CHECK (customer_phone IS NOT NULL OR erased_at IS NOT NULL);
+
+-- Record of every export and erasure, append-only
+CREATE TABLE customer_data_requests (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    brand_id brand_id NOT NULL REFERENCES brands(id),
+    customer_id UUID NOT NULL, -- No foreign key: the record outlives the customer
+    request_type VARCHAR(20) NOT NULL, -- export or erasure
+    actor_id UUID, -- User who made the request
+    reason TEXT, -- e.g. a ticket reference
+    summary JSONB NOT NULL DEFAULT '{}', -- Row counts exported or erased
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    CONSTRAINT customer_data_requests_type CHECK (request_type IN ('export', 'erasure'))
+);
+
+CREATE INDEX idx_customer_data_requests_customer ON customer_data_requests(brand_id, customer_id, created_at);
+
+ALTER TABLE customer_data_requests ENABLE ROW LEVEL SECURITY;
+
+-- Readable and appendable within the brand; never updated or deleted
+CREATE POLICY customer_data_requests_brand_read ON customer_data_requests
+    FOR SELECT
+    USING (brand_id = current_brand_id());
+
+CREATE POLICY customer_data_requests_brand_append ON customer_data_requests
+    FOR INSERT
+    WITH CHECK (brand_id = current_brand_id());
+
+GRANT SELECT, INSERT ON customer_data_requests TO authenticated;
+
+-- Irreversibly remove a customer's personal data and record the erasure, in
+-- one transaction. Names, contact details, free text, metadata and tags are
+-- cleared; stages, timestamps, message counts and directions are kept for
+-- analytics.
+CREATE OR REPLACE FUNCTION erase_customer(
+    p_brand_id brand_id,
+    p_customer_id UUID,
+    p_actor_id UUID DEFAULT NULL,
+    p_reason TEXT DEFAULT NULL
+)
+RETURNS customer_data_requests AS $$
+DECLARE
+    v_customer customers;
+    v_conversations INTEGER;
+    v_messages INTEGER;
+    v_stage_changes INTEGER;
+    v_request customer_data_requests;
+BEGIN
+    SELECT * INTO v_customer
+    FROM customers
+    WHERE id = p_customer_id AND brand_id = p_brand_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Customer % not found for brand %', p_customer_id, p_brand_id
+            USING ERRCODE = 'P0002';
+    END IF;
+
+    IF v_customer.erased_at IS NOT NULL THEN
+        RAISE EXCEPTION 'Customer % was already erased', p_customer_id
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    UPDATE messages m
+    SET content = '', media_urls = NULL, metadata = NULL
+    FROM conversations c
+    WHERE m.conversation_id = c.id
+      AND c.customer_id = p_customer_id
+      AND c.brand_id = p_brand_id;
+    GET DIAGNOSTICS v_messages = ROW_COUNT;
+
+    UPDATE conversations
+    SET customer_phone = NULL,
+        opt_out_reason = NULL,
+        metadata = NULL,
+        tags = NULL,
+        erased_at = NOW()
+    WHERE customer_id = p_customer_id AND brand_id = p_brand_id;
+    GET DIAGNOSTICS v_conversations = ROW_COUNT;
+
+    UPDATE customer_stage_history
+    SET reason = NULL
+    WHERE customer_id = p_customer_id AND brand_id = p_brand_id;
+    GET DIAGNOSTICS v_stage_changes = ROW_COUNT;
+
+    -- email is NOT NULL and unique per brand, so it becomes a placeholder
+    UPDATE customers
+    SET email = 'erased-' || id || '@erased.invalid',
+        phone = NULL,
+        first_name = NULL,
+        last_name = NULL,
+        metadata = NULL,
+        tags = NULL,
+        erased_at = NOW()
+    WHERE id = p_customer_id;
+
+    INSERT INTO customer_data_requests (brand_id, customer_id, request_type, actor_id, reason, summary)
+    VALUES (
+        p_brand_id,
+        p_customer_id,
+        'erasure',
+        p_actor_id,
+        p_reason,
+        jsonb_build_object(
+            'customers', 1,
+            'conversations', v_conversations,
+            'messages', v_messages,
+            'stage_changes', v_stage_changes
+        )
+    )
+    RETURNING * INTO v_request;
+
+    RETURN v_request;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,7 @@
+-- Revert migration 0003. Fails while encrypted names are stored; decrypt them
+-- (or erase the customers) first.
+
+ALTER TABLE customers ALTER COLUMN last_name TYPE VARCHAR(100);
+ALTER TABLE customers ALTER COLUMN first_name TYPE VARCHAR(100);
+
+ALTER TABLE brands DROP COLUMN IF EXISTS encryption;
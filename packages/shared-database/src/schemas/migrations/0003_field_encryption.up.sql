@@ -0,0 +1,12 @@
+-- Field-level encryption at rest (BrandConfig.encryption, see FieldEncryption)
+
+ALTER TABLE brands ADD COLUMN encryption JSONB;
+
+-- PercyMD stores protected health information
+UPDATE brands
+SET encryption = '{"fields": ["customers.first_name", "customers.last_name", "messages.content", "messages.media_urls"], "required": true}'
+WHERE id = 'percymd';
+
+-- Encrypted names ("enc:v1:..." envelopes) are longer than 100 characters
+ALTER TABLE customers ALTER COLUMN first_name TYPE TEXT;
+ALTER TABLE customers ALTER COLUMN last_name TYPE TEXT;
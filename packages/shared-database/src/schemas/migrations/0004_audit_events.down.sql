@@ -0,0 +1,90 @@
+-- Revert migration 0004: restore erase_customer from 0002, then drop the log
+
+-- Irreversibly remove a customer's personal data and record the erasure, in
+-- one transaction. Names, contact details, free text, metadata and tags are
+-- cleared; stages, timestamps, message counts and directions are kept for
+-- analytics.
+CREATE OR REPLACE FUNCTION erase_customer(
+    p_brand_id brand_id,
+    p_customer_id UUID,
+    p_actor_id UUID DEFAULT NULL,
+    p_reason TEXT DEFAULT NULL
+)
+RETURNS customer_data_requests AS $$
+DECLARE
+    v_customer customers;
+    v_conversations INTEGER;
+    v_messages INTEGER;
+    v_stage_changes INTEGER;
+    v_request customer_data_requests;
+BEGIN
+    SELECT * INTO v_customer
+    FROM customers
+    WHERE id = p_customer_id AND brand_id = p_brand_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Customer % not found for brand %', p_customer_id, p_brand_id
+            USING ERRCODE = 'P0002';
+    END IF;
+
+    IF v_customer.erased_at IS NOT NULL THEN
+        RAISE EXCEPTION 'Customer % was already erased', p_customer_id
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    UPDATE messages m
+    SET content = '', media_urls = NULL, metadata = NULL
+    FROM conversations c
+    WHERE m.conversation_id = c.id
+      AND c.customer_id = p_customer_id
+      AND c.brand_id = p_brand_id;
+    GET DIAGNOSTICS v_messages = ROW_COUNT;
+
+    UPDATE conversations
+    SET customer_phone = NULL,
+        opt_out_reason = NULL,
+        metadata = NULL,
+        tags = NULL,
+        erased_at = NOW()
+    WHERE customer_id = p_customer_id AND brand_id = p_brand_id;
+    GET DIAGNOSTICS v_conversations = ROW_COUNT;
+
+    UPDATE customer_stage_history
+    SET reason = NULL
+    WHERE customer_id = p_customer_id AND brand_id = p_brand_id;
+    GET DIAGNOSTICS v_stage_changes = ROW_COUNT;
+
+    -- email is NOT NULL and unique per brand, so it becomes a placeholder
+    UPDATE customers
+    SET email = 'erased-' || id || '@erased.invalid',
+        phone = NULL,
+        first_name = NULL,
+        last_name = NULL,
+        metadata = NULL,
+        tags = NULL,
+        erased_at = NOW()
+    WHERE id = p_customer_id;
+
+    INSERT INTO customer_data_requests (brand_id, customer_id, request_type, actor_id, reason, summary)
+    VALUES (
+        p_brand_id,
+        p_customer_id,
+        'erasure',
+        p_actor_id,
+        p_reason,
+        jsonb_build_object(
+            'customers', 1,
+            'conversations', v_conversations,
+            'messages', v_messages,
+            'stage_changes', v_stage_changes
+        )
+    )
+    RETURNING * INTO v_request;
+
+    RETURN v_request;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP FUNCTION IF EXISTS redact_erased_customer_audit;
+DROP TABLE IF EXISTS audit_events;
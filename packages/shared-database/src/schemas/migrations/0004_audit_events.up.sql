@@ -0,0 +1,171 @@
+-- Audit log: who changed which customer, conversation or campaign fields
+
+CREATE TABLE audit_events (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    brand_id brand_id NOT NULL REFERENCES brands(id),
+    actor_id UUID, -- BrandContext.user_id; NULL for system changes
+    entity_type VARCHAR(20) NOT NULL, -- customer, conversation or campaign
+    entity_id UUID NOT NULL, -- No foreign key: events outlive the entity
+    action VARCHAR(30) NOT NULL, -- create, update, stage_change, ...
+    changes JSONB NOT NULL DEFAULT '{}', -- { field: { from, to } }
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    CONSTRAINT audit_events_entity_type CHECK (entity_type IN ('customer', 'conversation', 'campaign'))
+);
+
+CREATE INDEX idx_audit_events_entity ON audit_events(brand_id, entity_type, entity_id, created_at DESC);
+CREATE INDEX idx_audit_events_actor ON audit_events(brand_id, actor_id, created_at DESC);
+CREATE INDEX idx_audit_events_created_at ON audit_events(brand_id, created_at DESC);
+
+ALTER TABLE audit_events ENABLE ROW LEVEL SECURITY;
+
+-- Readable and appendable within the brand; only erase_customer changes rows
+CREATE POLICY audit_events_brand_read ON audit_events
+    FOR SELECT
+    USING (brand_id = current_brand_id());
+
+CREATE POLICY audit_events_brand_append ON audit_events
+    FOR INSERT
+    WITH CHECK (brand_id = current_brand_id());
+
+GRANT SELECT, INSERT ON audit_events TO authenticated;
+
+-- Replace erased values in the audit diffs of an erased customer and their
+-- conversations; the diffs keep which fields changed. Runs as the owner
+-- because the brand can only read and append audit events, and refuses
+-- customers that are not erased.
+CREATE OR REPLACE FUNCTION redact_erased_customer_audit(
+    p_brand_id brand_id,
+    p_customer_id UUID
+)
+RETURNS INTEGER AS $$
+DECLARE
+    v_count INTEGER;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM customers
+        WHERE id = p_customer_id
+          AND brand_id = p_brand_id
+          AND erased_at IS NOT NULL
+          AND (current_brand_id() IS NULL OR brand_id = current_brand_id())
+    ) THEN
+        RAISE EXCEPTION 'Customer % is not erased', p_customer_id
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    UPDATE audit_events a
+    SET changes = (
+        SELECT COALESCE(jsonb_object_agg(
+            d.key,
+            CASE WHEN d.key = ANY (
+                CASE a.entity_type
+                    WHEN 'customer' THEN ARRAY['email', 'phone', 'first_name', 'last_name', 'metadata', 'tags']
+                    ELSE ARRAY['customer_phone', 'opt_out_reason', 'metadata', 'tags']
+                END
+            ) THEN '{"from": "[erased]", "to": "[erased]"}'::JSONB ELSE d.value END
+        ), '{}'::JSONB)
+        FROM jsonb_each(a.changes) d
+    )
+    WHERE a.brand_id = p_brand_id
+      AND (
+          (a.entity_type = 'customer' AND a.entity_id = p_customer_id)
+          OR (a.entity_type = 'conversation' AND a.entity_id IN (
+              SELECT id FROM conversations
+              WHERE customer_id = p_customer_id AND brand_id = p_brand_id
+          ))
+      );
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+
+    RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Irreversibly remove a customer's personal data (including from audit
+-- diffs) and record the erasure, in one transaction. Names, contact details, free text, metadata and tags are
+-- cleared; stages, timestamps, message counts and directions are kept for
+-- analytics.
+CREATE OR REPLACE FUNCTION erase_customer(
+    p_brand_id brand_id,
+    p_customer_id UUID,
+    p_actor_id UUID DEFAULT NULL,
+    p_reason TEXT DEFAULT NULL
+)
+RETURNS customer_data_requests AS $$
+DECLARE
+    v_customer customers;
+    v_conversations INTEGER;
+    v_messages INTEGER;
+    v_stage_changes INTEGER;
+    v_audit_events INTEGER;
+    v_request customer_data_requests;
+BEGIN
+    SELECT * INTO v_customer
+    FROM customers
+    WHERE id = p_customer_id AND brand_id = p_brand_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Customer % not found for brand %', p_customer_id, p_brand_id
+            USING ERRCODE = 'P0002';
+    END IF;
+
+    IF v_customer.erased_at IS NOT NULL THEN
+        RAISE EXCEPTION 'Customer % was already erased', p_customer_id
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    UPDATE messages m
+    SET content = '', media_urls = NULL, metadata = NULL
+    FROM conversations c
+    WHERE m.conversation_id = c.id
+      AND c.customer_id = p_customer_id
+      AND c.brand_id = p_brand_id;
+    GET DIAGNOSTICS v_messages = ROW_COUNT;
+
+    UPDATE conversations
+    SET customer_phone = NULL,
+        opt_out_reason = NULL,
+        metadata = NULL,
+        tags = NULL,
+        erased_at = NOW()
+    WHERE customer_id = p_customer_id AND brand_id = p_brand_id;
+    GET DIAGNOSTICS v_conversations = ROW_COUNT;
+
+    UPDATE customer_stage_history
+    SET reason = NULL
+    WHERE customer_id = p_customer_id AND brand_id = p_brand_id;
+    GET DIAGNOSTICS v_stage_changes = ROW_COUNT;
+
+    -- email is NOT NULL and unique per brand, so it becomes a placeholder
+    UPDATE customers
+    SET email = 'erased-' || id || '@erased.invalid',
+        phone = NULL,
+        first_name = NULL,
+        last_name = NULL,
+        metadata = NULL,
+        tags = NULL,
+        erased_at = NOW()
+    WHERE id = p_customer_id;
+
+    v_audit_events := redact_erased_customer_audit(p_brand_id, p_customer_id);
+
+    INSERT INTO customer_data_requests (brand_id, customer_id, request_type, actor_id, reason, summary)
+    VALUES (
+        p_brand_id,
+        p_customer_id,
+        'erasure',
+        p_actor_id,
+        p_reason,
+        jsonb_build_object(
+            'customers', 1,
+            'conversations', v_conversations,
+            'messages', v_messages,
+            'stage_changes', v_stage_changes,
+            'audit_events', v_audit_events
+        )
+    )
+    RETURNING * INTO v_request;
+
+    RETURN v_request;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,54 @@
+-- Revert migration 0005: restore the 0004 audit redaction, drop merge functions
+
+DROP FUNCTION IF EXISTS merge_customers(brand_id, UUID, UUID);
+DROP FUNCTION IF EXISTS find_duplicate_customers(brand_id, UUID, BOOLEAN, REAL, INTEGER, INTEGER);
+
+-- Replace erased values in the audit diffs of an erased customer and their
+-- conversations; the diffs keep which fields changed. Runs as the owner
+-- because the brand can only read and append audit events, and refuses
+-- customers that are not erased.
+CREATE OR REPLACE FUNCTION redact_erased_customer_audit(
+    p_brand_id brand_id,
+    p_customer_id UUID
+)
+RETURNS INTEGER AS $$
+DECLARE
+    v_count INTEGER;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM customers
+        WHERE id = p_customer_id
+          AND brand_id = p_brand_id
+          AND erased_at IS NOT NULL
+          AND (current_brand_id() IS NULL OR brand_id = current_brand_id())
+    ) THEN
+        RAISE EXCEPTION 'Customer % is not erased', p_customer_id
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    UPDATE audit_events a
+    SET changes = (
+        SELECT COALESCE(jsonb_object_agg(
+            d.key,
+            CASE WHEN d.key = ANY (
+                CASE a.entity_type
+                    WHEN 'customer' THEN ARRAY['email', 'phone', 'first_name', 'last_name', 'metadata', 'tags']
+                    ELSE ARRAY['customer_phone', 'opt_out_reason', 'metadata', 'tags']
+                END
+            ) THEN '{"from": "[erased]", "to": "[erased]"}'::JSONB ELSE d.value END
+        ), '{}'::JSONB)
+        FROM jsonb_each(a.changes) d
+    )
+    WHERE a.brand_id = p_brand_id
+      AND (
+          (a.entity_type = 'customer' AND a.entity_id = p_customer_id)
+          OR (a.entity_type = 'conversation' AND a.entity_id IN (
+              SELECT id FROM conversations
+              WHERE customer_id = p_customer_id AND brand_id = p_brand_id
+          ))
+      );
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+
+    RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,234 @@
+-- Customer duplicate detection and merging
+
+-- Likely duplicate customers of a brand, as pairs. Two customers match when
+-- they share a phone number (their own or one they texted from), the same
+-- email once lowercased and stripped of a "+tag", or, with p_match_names,
+-- names at least p_min_similarity alike (pg_trgm, idx_customers_name_trgm).
+-- customer is the older of the pair, the suggested survivor. Erased
+-- customers are never matched. With p_customer_id, only that customer's
+-- pairs.
+CREATE OR REPLACE FUNCTION find_duplicate_customers(
+    p_brand_id brand_id,
+    p_customer_id UUID DEFAULT NULL,
+    p_match_names BOOLEAN DEFAULT TRUE,
+    p_min_similarity REAL DEFAULT 0.6,
+    p_limit INTEGER DEFAULT 50,
+    p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (customer customers, duplicate customers, matched_on TEXT[], name_similarity REAL) AS $$
+BEGIN
+    PERFORM set_config('pg_trgm.similarity_threshold', p_min_similarity::TEXT, TRUE);
+
+    RETURN QUERY
+    WITH candidates AS (
+        SELECT c.id, c.phone, c.email
+        FROM customers c
+        WHERE c.brand_id = p_brand_id AND c.erased_at IS NULL
+    ),
+    phones AS (
+        SELECT c.id, c.phone AS number FROM candidates c WHERE c.phone IS NOT NULL
+        UNION
+        SELECT c.id, cv.customer_phone
+        FROM candidates c
+        JOIN conversations cv ON cv.customer_id = c.id AND cv.brand_id = p_brand_id
+    ),
+    emails AS (
+        SELECT c.id, regexp_replace(lower(trim(c.email)), '\+[^@]*@', '@') AS address
+        FROM candidates c
+    ),
+    pairs AS (
+        SELECT a.id AS a_id, b.id AS b_id, 'phone' AS reason
+        FROM phones a JOIN phones b ON a.number = b.number AND a.id < b.id
+        UNION
+        SELECT a.id, b.id, 'email'
+        FROM emails a JOIN emails b ON a.address = b.address AND a.id < b.id
+        UNION
+        SELECT a.id, b.id, 'name'
+        FROM customers a
+        JOIN customers b
+          ON b.brand_id = a.brand_id
+         AND a.id < b.id
+         AND (COALESCE(a.first_name, '') || ' ' || COALESCE(a.last_name, ''))
+             % (COALESCE(b.first_name, '') || ' ' || COALESCE(b.last_name, ''))
+        WHERE p_match_names
+          AND a.brand_id = p_brand_id
+          AND a.erased_at IS NULL
+          AND b.erased_at IS NULL
+          AND trim(COALESCE(a.first_name, '') || COALESCE(a.last_name, '')) <> ''
+          AND trim(COALESCE(b.first_name, '') || COALESCE(b.last_name, '')) <> ''
+          AND (p_customer_id IS NULL OR p_customer_id IN (a.id, b.id))
+    ),
+    grouped AS (
+        SELECT p.a_id, p.b_id, array_agg(p.reason ORDER BY p.reason) AS reasons
+        FROM pairs p
+        WHERE p_customer_id IS NULL OR p_customer_id IN (p.a_id, p.b_id)
+        GROUP BY p.a_id, p.b_id
+    ),
+    scored AS (
+        SELECT
+            a, b, g.reasons, g.a_id, g.b_id,
+            CASE WHEN p_match_names THEN similarity(
+                COALESCE(a.first_name, '') || ' ' || COALESCE(a.last_name, ''),
+                COALESCE(b.first_name, '') || ' ' || COALESCE(b.last_name, '')
+            ) ELSE 0 END::REAL AS score,
+            (a.created_at, a.id) <= (b.created_at, b.id) AS a_first
+        FROM grouped g
+        JOIN customers a ON a.id = g.a_id
+        JOIN customers b ON b.id = g.b_id
+    )
+    SELECT
+        CASE WHEN s.a_first THEN s.a ELSE s.b END,
+        CASE WHEN s.a_first THEN s.b ELSE s.a END,
+        s.reasons,
+        s.score
+    FROM scored s
+    ORDER BY array_length(s.reasons, 1) DESC, s.score DESC, s.a_id, s.b_id
+    LIMIT p_limit OFFSET p_offset;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Merge a duplicate customer into the survivor, in one transaction. The
+-- duplicate's conversations and stage history move to the survivor and the
+-- duplicate is deleted. The survivor keeps its own values, takes phone and
+-- names from the duplicate where it has none, gets the union of both tag
+-- lists and metadata (the survivor's keys win), and the earliest created,
+-- marketing qualified, trial and subscription timestamps.
+CREATE OR REPLACE FUNCTION merge_customers(
+    p_brand_id brand_id,
+    p_survivor_id UUID,
+    p_duplicate_id UUID
+)
+RETURNS customers AS $$
+DECLARE
+    v_survivor customers;
+    v_duplicate customers;
+BEGIN
+    IF p_survivor_id = p_duplicate_id THEN
+        RAISE EXCEPTION 'Cannot merge customer % into itself', p_survivor_id
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    -- Lock both rows in id order so concurrent merges cannot deadlock
+    PERFORM 1 FROM customers
+    WHERE id IN (p_survivor_id, p_duplicate_id) AND brand_id = p_brand_id
+    ORDER BY id
+    FOR UPDATE;
+
+    SELECT * INTO v_survivor
+    FROM customers
+    WHERE id = p_survivor_id AND brand_id = p_brand_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Customer % not found for brand %', p_survivor_id, p_brand_id
+            USING ERRCODE = 'P0002';
+    END IF;
+
+    SELECT * INTO v_duplicate
+    FROM customers
+    WHERE id = p_duplicate_id AND brand_id = p_brand_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Customer % not found for brand %', p_duplicate_id, p_brand_id
+            USING ERRCODE = 'P0002';
+    END IF;
+
+    IF v_survivor.erased_at IS NOT NULL OR v_duplicate.erased_at IS NOT NULL THEN
+        RAISE EXCEPTION 'Cannot merge erased customers'
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    UPDATE conversations
+    SET customer_id = p_survivor_id
+    WHERE customer_id = p_duplicate_id AND brand_id = p_brand_id;
+
+    UPDATE customer_stage_history
+    SET customer_id = p_survivor_id
+    WHERE customer_id = p_duplicate_id AND brand_id = p_brand_id;
+
+    DELETE FROM customers WHERE id = p_duplicate_id;
+
+    UPDATE customers
+    SET
+        phone = COALESCE(phone, v_duplicate.phone),
+        first_name = COALESCE(first_name, v_duplicate.first_name),
+        last_name = COALESCE(last_name, v_duplicate.last_name),
+        tags = CASE
+            WHEN tags IS NULL AND v_duplicate.tags IS NULL THEN NULL
+            ELSE ARRAY(
+                SELECT DISTINCT t
+                FROM unnest(COALESCE(tags, '{}') || COALESCE(v_duplicate.tags, '{}')) t
+                ORDER BY t
+            )
+        END,
+        metadata = CASE
+            WHEN metadata IS NULL AND v_duplicate.metadata IS NULL THEN NULL
+            ELSE COALESCE(v_duplicate.metadata, '{}') || COALESCE(metadata, '{}')
+        END,
+        created_at = LEAST(created_at, v_duplicate.created_at),
+        marketing_qualified_at = LEAST(marketing_qualified_at, v_duplicate.marketing_qualified_at),
+        trial_started_at = LEAST(trial_started_at, v_duplicate.trial_started_at),
+        subscribed_at = LEAST(subscribed_at, v_duplicate.subscribed_at)
+    WHERE id = p_survivor_id
+    RETURNING * INTO v_survivor;
+
+    RETURN v_survivor;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Also redact the audit events of customers merged into the erased one
+-- (recorded as merge events with merged_into), which hold their old values.
+CREATE OR REPLACE FUNCTION redact_erased_customer_audit(
+    p_brand_id brand_id,
+    p_customer_id UUID
+)
+RETURNS INTEGER AS $$
+DECLARE
+    v_count INTEGER;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM customers
+        WHERE id = p_customer_id
+          AND brand_id = p_brand_id
+          AND erased_at IS NOT NULL
+          AND (current_brand_id() IS NULL OR brand_id = current_brand_id())
+    ) THEN
+        RAISE EXCEPTION 'Customer % is not erased', p_customer_id
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    WITH RECURSIVE merged (id) AS (
+        SELECT p_customer_id
+        UNION
+        SELECT e.entity_id
+        FROM audit_events e
+        JOIN merged m ON e.changes -> 'merged_into' ->> 'to' = m.id::TEXT
+        WHERE e.brand_id = p_brand_id
+          AND e.entity_type = 'customer'
+          AND e.action = 'merge'
+    )
+    UPDATE audit_events a
+    SET changes = (
+        SELECT COALESCE(jsonb_object_agg(
+            d.key,
+            CASE WHEN d.key = ANY (
+                CASE a.entity_type
+                    WHEN 'customer' THEN ARRAY['email', 'phone', 'first_name', 'last_name', 'metadata', 'tags']
+                    ELSE ARRAY['customer_phone', 'opt_out_reason', 'metadata', 'tags']
+                END
+            ) THEN '{"from": "[erased]", "to": "[erased]"}'::JSONB ELSE d.value END
+        ), '{}'::JSONB)
+        FROM jsonb_each(a.changes) d
+    )
+    WHERE a.brand_id = p_brand_id
+      AND (
+          (a.entity_type = 'customer' AND a.entity_id IN (SELECT id FROM merged))
+          OR (a.entity_type = 'conversation' AND a.entity_id IN (
+              SELECT id FROM conversations
+              WHERE customer_id = p_customer_id AND brand_id = p_brand_id
+          ))
+      );
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+
+    RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
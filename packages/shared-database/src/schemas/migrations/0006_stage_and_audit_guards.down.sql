@@ -0,0 +1,119 @@
+-- Revert migration 0006: restore the 0001 stage change and the 0005 audit
+-- redaction, and let the brand append audit events directly again
+
+DROP FUNCTION IF EXISTS record_audit_events(brand_id, JSONB);
+
+-- Also redact the audit events of customers merged into the erased one
+-- (recorded as merge events with merged_into), which hold their old values.
+CREATE OR REPLACE FUNCTION redact_erased_customer_audit(
+    p_brand_id brand_id,
+    p_customer_id UUID
+)
+RETURNS INTEGER AS $$
+DECLARE
+    v_count INTEGER;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM customers
+        WHERE id = p_customer_id
+          AND brand_id = p_brand_id
+          AND erased_at IS NOT NULL
+          AND (current_brand_id() IS NULL OR brand_id = current_brand_id())
+    ) THEN
+        RAISE EXCEPTION 'Customer % is not erased', p_customer_id
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    WITH RECURSIVE merged (id) AS (
+        SELECT p_customer_id
+        UNION
+        SELECT e.entity_id
+        FROM audit_events e
+        JOIN merged m ON e.changes -> 'merged_into' ->> 'to' = m.id::TEXT
+        WHERE e.brand_id = p_brand_id
+          AND e.entity_type = 'customer'
+          AND e.action = 'merge'
+    )
+    UPDATE audit_events a
+    SET changes = (
+        SELECT COALESCE(jsonb_object_agg(
+            d.key,
+            CASE WHEN d.key = ANY (
+                CASE a.entity_type
+                    WHEN 'customer' THEN ARRAY['email', 'phone', 'first_name', 'last_name', 'metadata', 'tags']
+                    ELSE ARRAY['customer_phone', 'opt_out_reason', 'metadata', 'tags']
+                END
+            ) THEN '{"from": "[erased]", "to": "[erased]"}'::JSONB ELSE d.value END
+        ), '{}'::JSONB)
+        FROM jsonb_each(a.changes) d
+    )
+    WHERE a.brand_id = p_brand_id
+      AND (
+          (a.entity_type = 'customer' AND a.entity_id IN (SELECT id FROM merged))
+          OR (a.entity_type = 'conversation' AND a.entity_id IN (
+              SELECT id FROM conversations
+              WHERE customer_id = p_customer_id AND brand_id = p_brand_id
+          ))
+      );
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+
+    RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP FUNCTION IF EXISTS is_service_role();
+
+CREATE POLICY audit_events_brand_append ON audit_events
+    FOR INSERT
+    WITH CHECK (brand_id = current_brand_id());
+
+GRANT INSERT ON audit_events TO authenticated;
+
+-- Move a customer to a new lifecycle stage and record it in
+-- customer_stage_history. Legal moves are checked by CustomerOperations
+-- (CUSTOMER_STAGE_TRANSITIONS in types/customer.ts); p_from_stage guards
+-- against concurrent changes. Journey timestamps keep the first time each
+-- stage was reached, so re-entering a stage does not overwrite them.
+CREATE OR REPLACE FUNCTION transition_customer_stage(
+    p_brand_id brand_id,
+    p_customer_id UUID,
+    p_from_stage customer_stage,
+    p_to_stage customer_stage,
+    p_transition VARCHAR(20) DEFAULT 'progress',
+    p_reason TEXT DEFAULT NULL,
+    p_actor_id UUID DEFAULT NULL
+)
+RETURNS customers AS $$
+DECLARE
+    v_customer customers;
+BEGIN
+    UPDATE customers
+    SET stage = p_to_stage,
+        marketing_qualified_at = CASE WHEN p_to_stage = 'marketing'
+            THEN COALESCE(marketing_qualified_at, NOW()) ELSE marketing_qualified_at END,
+        trial_started_at = CASE WHEN p_to_stage = 'trial'
+            THEN COALESCE(trial_started_at, NOW()) ELSE trial_started_at END,
+        subscribed_at = CASE WHEN p_to_stage = 'active'
+            THEN COALESCE(subscribed_at, NOW()) ELSE subscribed_at END,
+        churned_at = CASE WHEN p_to_stage = 'churned'
+            THEN COALESCE(churned_at, NOW()) ELSE churned_at END,
+        is_active = CASE
+            WHEN p_to_stage = 'churned' THEN FALSE
+            WHEN p_transition = 'reactivate' THEN TRUE
+            ELSE is_active END
+    WHERE id = p_customer_id
+      AND brand_id = p_brand_id
+      AND stage = p_from_stage
+    RETURNING * INTO v_customer;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Customer % is not in stage % for brand %', p_customer_id, p_from_stage, p_brand_id
+            USING ERRCODE = 'serialization_failure';
+    END IF;
+
+    INSERT INTO customer_stage_history (brand_id, customer_id, from_stage, to_stage, transition, reason, actor_id)
+    VALUES (p_brand_id, p_customer_id, p_from_stage, p_to_stage, p_transition, p_reason, p_actor_id);
+
+    RETURN v_customer;
+END;
+$$ language 'plpgsql';
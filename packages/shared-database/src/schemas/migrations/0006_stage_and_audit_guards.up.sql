@@ -0,0 +1,213 @@
+-- Guards for stage changes and audit events: the stage graph is checked in
+-- the database, and audit events are appended only through
+-- record_audit_events
+
+-- Move a customer to a new lifecycle stage and record it in
+-- customer_stage_history. Legal moves (mirrors CUSTOMER_STAGE_TRANSITIONS and
+-- CUSTOMER_REACTIVATION_STAGES in types/customer.ts):
+--   lead      → marketing, trial, active, dormant
+--   marketing → trial, active, dormant
+--   trial     → active, churned, dormant
+--   active    → churned, dormant
+--   dormant   → marketing, trial, active, churned
+--   churned and dormant → lead by reactivation only
+-- Raises no_data_found for an unknown customer, check_violation for an
+-- illegal move and serialization_failure when the customer is no longer in
+-- p_from_stage (a concurrent change). Journey timestamps keep the first time
+-- each stage was reached, so re-entering a stage does not overwrite them.
+CREATE OR REPLACE FUNCTION transition_customer_stage(
+    p_brand_id brand_id,
+    p_customer_id UUID,
+    p_from_stage customer_stage,
+    p_to_stage customer_stage,
+    p_transition VARCHAR(20) DEFAULT 'progress',
+    p_reason TEXT DEFAULT NULL,
+    p_actor_id UUID DEFAULT NULL
+)
+RETURNS customers AS $$
+DECLARE
+    v_customer customers;
+    v_allowed BOOLEAN;
+BEGIN
+    v_allowed := CASE p_transition
+        WHEN 'reactivate' THEN
+            p_from_stage IN ('churned', 'dormant') AND p_to_stage = 'lead'
+        WHEN 'progress' THEN CASE p_from_stage
+            WHEN 'lead' THEN p_to_stage IN ('marketing', 'trial', 'active', 'dormant')
+            WHEN 'marketing' THEN p_to_stage IN ('trial', 'active', 'dormant')
+            WHEN 'trial' THEN p_to_stage IN ('active', 'churned', 'dormant')
+            WHEN 'active' THEN p_to_stage IN ('churned', 'dormant')
+            WHEN 'dormant' THEN p_to_stage IN ('marketing', 'trial', 'active', 'churned')
+            ELSE FALSE
+        END
+        ELSE FALSE
+    END;
+
+    IF NOT v_allowed THEN
+        RAISE EXCEPTION 'Invalid customer stage change: % → % (%)', p_from_stage, p_to_stage, p_transition
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    SELECT * INTO v_customer
+    FROM customers
+    WHERE id = p_customer_id AND brand_id = p_brand_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Customer % not found for brand %', p_customer_id, p_brand_id
+            USING ERRCODE = 'no_data_found';
+    END IF;
+
+    IF v_customer.stage <> p_from_stage THEN
+        RAISE EXCEPTION 'Customer % is not in stage % for brand %', p_customer_id, p_from_stage, p_brand_id
+            USING ERRCODE = 'serialization_failure';
+    END IF;
+
+    UPDATE customers
+    SET stage = p_to_stage,
+        marketing_qualified_at = CASE WHEN p_to_stage = 'marketing'
+            THEN COALESCE(marketing_qualified_at, NOW()) ELSE marketing_qualified_at END,
+        trial_started_at = CASE WHEN p_to_stage = 'trial'
+            THEN COALESCE(trial_started_at, NOW()) ELSE trial_started_at END,
+        subscribed_at = CASE WHEN p_to_stage = 'active'
+            THEN COALESCE(subscribed_at, NOW()) ELSE subscribed_at END,
+        churned_at = CASE WHEN p_to_stage = 'churned'
+            THEN COALESCE(churned_at, NOW()) ELSE churned_at END,
+        is_active = CASE
+            WHEN p_to_stage = 'churned' THEN FALSE
+            WHEN p_transition = 'reactivate' THEN TRUE
+            ELSE is_active END
+    WHERE id = p_customer_id
+    RETURNING * INTO v_customer;
+
+    INSERT INTO customer_stage_history (brand_id, customer_id, from_stage, to_stage, transition, reason, actor_id)
+    VALUES (p_brand_id, p_customer_id, p_from_stage, p_to_stage, p_transition, p_reason, p_actor_id);
+
+    RETURN v_customer;
+END;
+$$ language 'plpgsql';
+
+-- Readable within the brand. Events are appended only by
+-- record_audit_events and changed only by erase_customer.
+DROP POLICY IF EXISTS audit_events_brand_append ON audit_events;
+REVOKE INSERT ON audit_events FROM authenticated;
+
+-- Whether the request was made with the service role key
+CREATE OR REPLACE FUNCTION is_service_role()
+RETURNS BOOLEAN AS $$
+    SELECT COALESCE(
+        NULLIF(current_setting('request.jwt.claims', TRUE), '')::jsonb ->> 'role' = 'service_role',
+        FALSE
+    );
+$$ LANGUAGE sql STABLE;
+
+-- Append audit events (objects with actor_id, entity_type, entity_id, action
+-- and changes) for the session's brand, or any brand with the service role.
+-- Runs as the owner because the brand cannot insert into audit_events
+-- directly. A session acting as a user (JWT sub) records events as that user
+-- and cannot name another actor.
+CREATE OR REPLACE FUNCTION record_audit_events(
+    p_brand_id brand_id,
+    p_events JSONB
+)
+RETURNS SETOF audit_events AS $$
+DECLARE
+    v_user_id UUID := NULLIF(
+        NULLIF(current_setting('request.jwt.claims', TRUE), '')::jsonb ->> 'sub', ''
+    )::UUID;
+BEGIN
+    IF NOT (is_service_role() OR p_brand_id = current_brand_id()) THEN
+        RAISE EXCEPTION 'Audit events for brand % can only be recorded in its session', p_brand_id
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    IF v_user_id IS NOT NULL AND EXISTS (
+        SELECT 1 FROM jsonb_to_recordset(p_events) AS e (actor_id UUID)
+        WHERE e.actor_id <> v_user_id
+    ) THEN
+        RAISE EXCEPTION 'Audit events can only be recorded for the session''s user %', v_user_id
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    RETURN QUERY
+    INSERT INTO audit_events (brand_id, actor_id, entity_type, entity_id, action, changes)
+    SELECT p_brand_id, COALESCE(e.actor_id, v_user_id), e.entity_type, e.entity_id, e.action,
+        COALESCE(e.changes, '{}')
+    FROM jsonb_to_recordset(p_events) AS e (
+        actor_id UUID,
+        entity_type VARCHAR(20),
+        entity_id UUID,
+        action VARCHAR(30),
+        changes JSONB
+    )
+    RETURNING *;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Replace erased values in the audit diffs of an erased customer, their
+-- conversations and the customers merged into them. Runs as the owner
+-- because the brand can only read audit events, so it is limited to the
+-- session's brand (or the service role) and refuses customers that are not
+-- erased.
+CREATE OR REPLACE FUNCTION redact_erased_customer_audit(
+    p_brand_id brand_id,
+    p_customer_id UUID
+)
+RETURNS INTEGER AS $$
+DECLARE
+    v_count INTEGER;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM customers
+        WHERE id = p_customer_id
+          AND brand_id = p_brand_id
+          AND erased_at IS NOT NULL
+          AND (is_service_role() OR brand_id = current_brand_id())
+    ) THEN
+        RAISE EXCEPTION 'Customer % is not erased', p_customer_id
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    WITH RECURSIVE merged (id) AS (
+        SELECT p_customer_id
+        UNION
+        SELECT e.entity_id
+        FROM audit_events e
+        JOIN merged m ON e.changes -> 'merged_into' ->> 'to' = m.id::TEXT
+        WHERE e.brand_id = p_brand_id
+          AND e.entity_type = 'customer'
+          AND e.action = 'merge'
+    )
+    UPDATE audit_events a
+    SET changes = (
+        SELECT COALESCE(jsonb_object_agg(
+            d.key,
+            CASE WHEN d.key = ANY (
+                CASE a.entity_type
+                    WHEN 'customer' THEN ARRAY['email', 'phone', 'first_name', 'last_name', 'metadata', 'tags']
+                    ELSE ARRAY['customer_phone', 'opt_out_reason', 'metadata', 'tags']
+                END
+            ) THEN '{"from": "[erased]", "to": "[erased]"}'::JSONB ELSE d.value END
+        ), '{}'::JSONB)
+        FROM jsonb_each(a.changes) d
+    )
+    WHERE a.brand_id = p_brand_id
+      AND (
+          (a.entity_type = 'customer' AND a.entity_id IN (SELECT id FROM merged))
+          OR (a.entity_type = 'conversation' AND a.entity_id IN (
+              SELECT id FROM conversations
+              WHERE customer_id = p_customer_id AND brand_id = p_brand_id
+          ))
+      );
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+
+    RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Owner-rights functions are not callable by anon or PUBLIC; erase_customer
+-- runs as the caller and needs redact_erased_customer_audit
+REVOKE EXECUTE ON FUNCTION record_audit_events(brand_id, JSONB) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION redact_erased_customer_audit(brand_id, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION record_audit_events(brand_id, JSONB) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION redact_erased_customer_audit(brand_id, UUID) TO authenticated, service_role;
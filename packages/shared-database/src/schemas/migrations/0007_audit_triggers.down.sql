@@ -0,0 +1,9 @@
+-- Revert migration 0007: the operations record audit events themselves again
+
+DROP TRIGGER IF EXISTS audit_campaigns ON campaigns;
+DROP TRIGGER IF EXISTS audit_conversations ON conversations;
+DROP TRIGGER IF EXISTS audit_customers ON customers;
+
+DROP FUNCTION IF EXISTS record_audit_event();
+DROP FUNCTION IF EXISTS audit_changes(TEXT, brand_id, JSONB, JSONB);
+DROP FUNCTION IF EXISTS current_user_id();
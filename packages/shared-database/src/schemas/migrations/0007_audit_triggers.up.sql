@@ -0,0 +1,106 @@
+-- Audit events are written by triggers in the transaction of the change, so
+-- a change is never left without its event (or an event without its change)
+
+-- The user of the request (JWT sub); NULL for the service role and brand
+-- sessions acting for no user
+CREATE OR REPLACE FUNCTION current_user_id()
+RETURNS UUID AS $$
+    SELECT NULLIF(
+        NULLIF(current_setting('request.jwt.claims', TRUE), '')::jsonb ->> 'sub', ''
+    )::UUID;
+$$ LANGUAGE sql STABLE;
+
+-- Fields that differ between two versions of a row ({ field: { from, to } };
+-- p_old is NULL for inserts). Identity and bookkeeping columns, and the
+-- message counters add_message keeps on conversations, are left out,
+-- and fields the brand encrypts (brands.encryption) or that hold ciphertext
+-- are recorded as "[redacted]" (mirrors diffFields and REDACTED in
+-- utils/audit-log.ts).
+CREATE OR REPLACE FUNCTION audit_changes(
+    p_table TEXT,
+    p_brand_id brand_id,
+    p_old JSONB,
+    p_new JSONB
+)
+RETURNS JSONB AS $$
+    SELECT COALESCE(jsonb_object_agg(
+        f.key,
+        CASE
+            WHEN (SELECT b.encryption -> 'fields' FROM brands b WHERE b.id = p_brand_id)
+                    ? (p_table || '.' || f.key)
+                OR f.old_value::TEXT LIKE '"enc:%'
+                OR f.new_value::TEXT LIKE '"enc:%'
+            THEN '{"from": "[redacted]", "to": "[redacted]"}'::JSONB
+            ELSE jsonb_build_object('from', f.old_value, 'to', f.new_value)
+        END
+    ), '{}'::JSONB)
+    FROM (
+        SELECT
+            n.key,
+            COALESCE(p_old -> n.key, 'null'::JSONB) AS old_value,
+            n.value AS new_value
+        FROM jsonb_each(p_new) n
+    ) f
+    WHERE f.key NOT IN (
+        'id', 'brand_id', 'created_at', 'updated_at',
+        'message_count', 'last_message_at', 'last_inbound_at', 'last_outbound_at'
+    )
+      AND f.old_value IS DISTINCT FROM f.new_value;
+$$ LANGUAGE sql STABLE;
+
+-- Record an insert or update of a customer, conversation or campaign as the
+-- request's user. The action follows from what changed: create, stage_change
+-- (customers), opt_out / opt_in (conversations), status_change, else update.
+-- Updates that change no audited field are not recorded, and erasures are
+-- left to erase_customer. Runs as the owner because the brand can only read
+-- audit events.
+CREATE OR REPLACE FUNCTION record_audit_event()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_entity_type VARCHAR(20) := TG_ARGV[0];
+    v_old JSONB := CASE WHEN TG_OP = 'UPDATE' THEN to_jsonb(OLD) END;
+    v_new JSONB := to_jsonb(NEW);
+    v_changes JSONB;
+    v_action VARCHAR(30);
+BEGIN
+    IF v_entity_type IN ('customer', 'conversation')
+        AND v_old ->> 'erased_at' IS NULL
+        AND v_new ->> 'erased_at' IS NOT NULL THEN
+        RETURN NULL;
+    END IF;
+
+    v_changes := audit_changes(TG_TABLE_NAME, NEW.brand_id, v_old, v_new);
+    IF TG_OP = 'UPDATE' AND v_changes = '{}'::JSONB THEN
+        RETURN NULL;
+    END IF;
+
+    v_action := CASE
+        WHEN TG_OP = 'INSERT' THEN 'create'
+        WHEN v_changes ? 'stage' AND v_entity_type = 'customer' THEN 'stage_change'
+        WHEN v_changes ? 'opted_out_at' AND v_new ->> 'opted_out_at' IS NOT NULL THEN 'opt_out'
+        WHEN v_changes ? 'opted_out_at' THEN 'opt_in'
+        WHEN v_changes ? 'status' THEN 'status_change'
+        ELSE 'update'
+    END;
+
+    INSERT INTO audit_events (brand_id, actor_id, entity_type, entity_id, action, changes)
+    VALUES (NEW.brand_id, current_user_id(), v_entity_type, NEW.id, v_action, v_changes);
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER audit_customers
+    AFTER INSERT OR UPDATE ON customers
+    FOR EACH ROW
+    EXECUTE FUNCTION record_audit_event('customer');
+
+CREATE TRIGGER audit_conversations
+    AFTER INSERT OR UPDATE ON conversations
+    FOR EACH ROW
+    EXECUTE FUNCTION record_audit_event('conversation');
+
+CREATE TRIGGER audit_campaigns
+    AFTER INSERT OR UPDATE ON campaigns
+    FOR EACH ROW
+    EXECUTE FUNCTION record_audit_event('campaign');
@@ -0,0 +1,132 @@
+-- Revert migration 0008: restore the 0005 merge, whose merge events the
+-- operations record, and the 0007 audit trigger
+
+-- Record an insert or update of a customer, conversation or campaign as the
+-- request's user. The action follows from what changed: create, stage_change
+-- (customers), opt_out / opt_in (conversations), status_change, else update.
+-- Updates that change no audited field are not recorded, and erasures are
+-- left to erase_customer. Runs as the owner because the brand can only read
+-- audit events.
+CREATE OR REPLACE FUNCTION record_audit_event()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_entity_type VARCHAR(20) := TG_ARGV[0];
+    v_old JSONB := CASE WHEN TG_OP = 'UPDATE' THEN to_jsonb(OLD) END;
+    v_new JSONB := to_jsonb(NEW);
+    v_changes JSONB;
+    v_action VARCHAR(30);
+BEGIN
+    IF v_entity_type IN ('customer', 'conversation')
+        AND v_old ->> 'erased_at' IS NULL
+        AND v_new ->> 'erased_at' IS NOT NULL THEN
+        RETURN NULL;
+    END IF;
+
+    v_changes := audit_changes(TG_TABLE_NAME, NEW.brand_id, v_old, v_new);
+    IF TG_OP = 'UPDATE' AND v_changes = '{}'::JSONB THEN
+        RETURN NULL;
+    END IF;
+
+    v_action := CASE
+        WHEN TG_OP = 'INSERT' THEN 'create'
+        WHEN v_changes ? 'stage' AND v_entity_type = 'customer' THEN 'stage_change'
+        WHEN v_changes ? 'opted_out_at' AND v_new ->> 'opted_out_at' IS NOT NULL THEN 'opt_out'
+        WHEN v_changes ? 'opted_out_at' THEN 'opt_in'
+        WHEN v_changes ? 'status' THEN 'status_change'
+        ELSE 'update'
+    END;
+
+    INSERT INTO audit_events (brand_id, actor_id, entity_type, entity_id, action, changes)
+    VALUES (NEW.brand_id, current_user_id(), v_entity_type, NEW.id, v_action, v_changes);
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Merge a duplicate customer into the survivor, in one transaction. The
+-- duplicate's conversations and stage history move to the survivor and the
+-- duplicate is deleted. The survivor keeps its own values, takes phone and
+-- names from the duplicate where it has none, gets the union of both tag
+-- lists and metadata (the survivor's keys win), and the earliest created,
+-- marketing qualified, trial and subscription timestamps.
+CREATE OR REPLACE FUNCTION merge_customers(
+    p_brand_id brand_id,
+    p_survivor_id UUID,
+    p_duplicate_id UUID
+)
+RETURNS customers AS $$
+DECLARE
+    v_survivor customers;
+    v_duplicate customers;
+BEGIN
+    IF p_survivor_id = p_duplicate_id THEN
+        RAISE EXCEPTION 'Cannot merge customer % into itself', p_survivor_id
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    -- Lock both rows in id order so concurrent merges cannot deadlock
+    PERFORM 1 FROM customers
+    WHERE id IN (p_survivor_id, p_duplicate_id) AND brand_id = p_brand_id
+    ORDER BY id
+    FOR UPDATE;
+
+    SELECT * INTO v_survivor
+    FROM customers
+    WHERE id = p_survivor_id AND brand_id = p_brand_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Customer % not found for brand %', p_survivor_id, p_brand_id
+            USING ERRCODE = 'P0002';
+    END IF;
+
+    SELECT * INTO v_duplicate
+    FROM customers
+    WHERE id = p_duplicate_id AND brand_id = p_brand_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Customer % not found for brand %', p_duplicate_id, p_brand_id
+            USING ERRCODE = 'P0002';
+    END IF;
+
+    IF v_survivor.erased_at IS NOT NULL OR v_duplicate.erased_at IS NOT NULL THEN
+        RAISE EXCEPTION 'Cannot merge erased customers'
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    UPDATE conversations
+    SET customer_id = p_survivor_id
+    WHERE customer_id = p_duplicate_id AND brand_id = p_brand_id;
+
+    UPDATE customer_stage_history
+    SET customer_id = p_survivor_id
+    WHERE customer_id = p_duplicate_id AND brand_id = p_brand_id;
+
+    DELETE FROM customers WHERE id = p_duplicate_id;
+
+    UPDATE customers
+    SET
+        phone = COALESCE(phone, v_duplicate.phone),
+        first_name = COALESCE(first_name, v_duplicate.first_name),
+        last_name = COALESCE(last_name, v_duplicate.last_name),
+        tags = CASE
+            WHEN tags IS NULL AND v_duplicate.tags IS NULL THEN NULL
+            ELSE ARRAY(
+                SELECT DISTINCT t
+                FROM unnest(COALESCE(tags, '{}') || COALESCE(v_duplicate.tags, '{}')) t
+                ORDER BY t
+            )
+        END,
+        metadata = CASE
+            WHEN metadata IS NULL AND v_duplicate.metadata IS NULL THEN NULL
+            ELSE COALESCE(v_duplicate.metadata, '{}') || COALESCE(metadata, '{}')
+        END,
+        created_at = LEAST(created_at, v_duplicate.created_at),
+        marketing_qualified_at = LEAST(marketing_qualified_at, v_duplicate.marketing_qualified_at),
+        trial_started_at = LEAST(trial_started_at, v_duplicate.trial_started_at),
+        subscribed_at = LEAST(subscribed_at, v_duplicate.subscribed_at)
+    WHERE id = p_survivor_id
+    RETURNING * INTO v_survivor;
+
+    RETURN v_survivor;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,154 @@
+-- merge_customers records both merge events itself, in the transaction of
+-- the merge, instead of the triggers' updates of the rows it moves
+
+-- As in 0007, except that changes made while audit.skip is on are left to
+-- the function that set it, which records them itself
+CREATE OR REPLACE FUNCTION record_audit_event()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_entity_type VARCHAR(20) := TG_ARGV[0];
+    v_old JSONB := CASE WHEN TG_OP = 'UPDATE' THEN to_jsonb(OLD) END;
+    v_new JSONB := to_jsonb(NEW);
+    v_changes JSONB;
+    v_action VARCHAR(30);
+BEGIN
+    IF current_setting('audit.skip', TRUE) = 'on' THEN
+        RETURN NULL;
+    END IF;
+
+    IF v_entity_type IN ('customer', 'conversation')
+        AND v_old ->> 'erased_at' IS NULL
+        AND v_new ->> 'erased_at' IS NOT NULL THEN
+        RETURN NULL;
+    END IF;
+
+    v_changes := audit_changes(TG_TABLE_NAME, NEW.brand_id, v_old, v_new);
+    IF TG_OP = 'UPDATE' AND v_changes = '{}'::JSONB THEN
+        RETURN NULL;
+    END IF;
+
+    v_action := CASE
+        WHEN TG_OP = 'INSERT' THEN 'create'
+        WHEN v_changes ? 'stage' AND v_entity_type = 'customer' THEN 'stage_change'
+        WHEN v_changes ? 'opted_out_at' AND v_new ->> 'opted_out_at' IS NOT NULL THEN 'opt_out'
+        WHEN v_changes ? 'opted_out_at' THEN 'opt_in'
+        WHEN v_changes ? 'status' THEN 'status_change'
+        ELSE 'update'
+    END;
+
+    INSERT INTO audit_events (brand_id, actor_id, entity_type, entity_id, action, changes)
+    VALUES (NEW.brand_id, current_user_id(), v_entity_type, NEW.id, v_action, v_changes);
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- As in 0005, and records a merge event for each customer as the request's
+-- user: the survivor's changes with merged_customer_id, and the duplicate's
+-- old values with merged_into (which redact_erased_customer_audit follows).
+-- audit.skip keeps the triggers from also recording the moved rows; it is
+-- only on while the function runs.
+CREATE OR REPLACE FUNCTION merge_customers(
+    p_brand_id brand_id,
+    p_survivor_id UUID,
+    p_duplicate_id UUID
+)
+RETURNS customers AS $$
+DECLARE
+    v_before customers;
+    v_survivor customers;
+    v_duplicate customers;
+BEGIN
+    IF p_survivor_id = p_duplicate_id THEN
+        RAISE EXCEPTION 'Cannot merge customer % into itself', p_survivor_id
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    -- Lock both rows in id order so concurrent merges cannot deadlock
+    PERFORM 1 FROM customers
+    WHERE id IN (p_survivor_id, p_duplicate_id) AND brand_id = p_brand_id
+    ORDER BY id
+    FOR UPDATE;
+
+    SELECT * INTO v_before
+    FROM customers
+    WHERE id = p_survivor_id AND brand_id = p_brand_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Customer % not found for brand %', p_survivor_id, p_brand_id
+            USING ERRCODE = 'P0002';
+    END IF;
+
+    SELECT * INTO v_duplicate
+    FROM customers
+    WHERE id = p_duplicate_id AND brand_id = p_brand_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Customer % not found for brand %', p_duplicate_id, p_brand_id
+            USING ERRCODE = 'P0002';
+    END IF;
+
+    IF v_before.erased_at IS NOT NULL OR v_duplicate.erased_at IS NOT NULL THEN
+        RAISE EXCEPTION 'Cannot merge erased customers'
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    UPDATE conversations
+    SET customer_id = p_survivor_id
+    WHERE customer_id = p_duplicate_id AND brand_id = p_brand_id;
+
+    UPDATE customer_stage_history
+    SET customer_id = p_survivor_id
+    WHERE customer_id = p_duplicate_id AND brand_id = p_brand_id;
+
+    DELETE FROM customers WHERE id = p_duplicate_id;
+
+    UPDATE customers
+    SET
+        phone = COALESCE(phone, v_duplicate.phone),
+        first_name = COALESCE(first_name, v_duplicate.first_name),
+        last_name = COALESCE(last_name, v_duplicate.last_name),
+        tags = CASE
+            WHEN tags IS NULL AND v_duplicate.tags IS NULL THEN NULL
+            ELSE ARRAY(
+                SELECT DISTINCT t
+                FROM unnest(COALESCE(tags, '{}') || COALESCE(v_duplicate.tags, '{}')) t
+                ORDER BY t
+            )
+        END,
+        metadata = CASE
+            WHEN metadata IS NULL AND v_duplicate.metadata IS NULL THEN NULL
+            ELSE COALESCE(v_duplicate.metadata, '{}') || COALESCE(metadata, '{}')
+        END,
+        created_at = LEAST(created_at, v_duplicate.created_at),
+        marketing_qualified_at = LEAST(marketing_qualified_at, v_duplicate.marketing_qualified_at),
+        trial_started_at = LEAST(trial_started_at, v_duplicate.trial_started_at),
+        subscribed_at = LEAST(subscribed_at, v_duplicate.subscribed_at)
+    WHERE id = p_survivor_id
+    RETURNING * INTO v_survivor;
+
+    PERFORM record_audit_events(p_brand_id, jsonb_build_array(
+        jsonb_build_object(
+            'entity_type', 'customer',
+            'entity_id', p_survivor_id,
+            'action', 'merge',
+            'changes', audit_changes(
+                'customers', p_brand_id, to_jsonb(v_before),
+                to_jsonb(v_survivor) || jsonb_build_object('merged_customer_id', p_duplicate_id)
+            )
+        ),
+        jsonb_build_object(
+            'entity_type', 'customer',
+            'entity_id', p_duplicate_id,
+            'action', 'merge',
+            'changes', audit_changes(
+                'customers', p_brand_id, to_jsonb(v_duplicate),
+                (SELECT jsonb_object_agg(d.key, 'null'::JSONB) FROM jsonb_each(to_jsonb(v_duplicate)) d)
+                    || jsonb_build_object('merged_into', p_survivor_id)
+            )
+        )
+    ));
+
+    RETURN v_survivor;
+END;
+$$ LANGUAGE plpgsql SET audit.skip = 'on';
@@ -0,0 +1,97 @@
+-- erase_customer records the erase audit event itself, in the transaction of
+-- the erasure
+
+-- As in 0004, and records an erase event for the customer (with no changes)
+CREATE OR REPLACE FUNCTION erase_customer(
+    p_brand_id brand_id,
+    p_customer_id UUID,
+    p_actor_id UUID DEFAULT NULL,
+    p_reason TEXT DEFAULT NULL
+)
+RETURNS customer_data_requests AS $$
+DECLARE
+    v_customer customers;
+    v_conversations INTEGER;
+    v_messages INTEGER;
+    v_stage_changes INTEGER;
+    v_audit_events INTEGER;
+    v_request customer_data_requests;
+BEGIN
+    SELECT * INTO v_customer
+    FROM customers
+    WHERE id = p_customer_id AND brand_id = p_brand_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Customer % not found for brand %', p_customer_id, p_brand_id
+            USING ERRCODE = 'P0002';
+    END IF;
+
+    IF v_customer.erased_at IS NOT NULL THEN
+        RAISE EXCEPTION 'Customer % was already erased', p_customer_id
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    UPDATE messages m
+    SET content = '', media_urls = NULL, metadata = NULL
+    FROM conversations c
+    WHERE m.conversation_id = c.id
+      AND c.customer_id = p_customer_id
+      AND c.brand_id = p_brand_id;
+    GET DIAGNOSTICS v_messages = ROW_COUNT;
+
+    UPDATE conversations
+    SET customer_phone = NULL,
+        opt_out_reason = NULL,
+        metadata = NULL,
+        tags = NULL,
+        erased_at = NOW()
+    WHERE customer_id = p_customer_id AND brand_id = p_brand_id;
+    GET DIAGNOSTICS v_conversations = ROW_COUNT;
+
+    UPDATE customer_stage_history
+    SET reason = NULL
+    WHERE customer_id = p_customer_id AND brand_id = p_brand_id;
+    GET DIAGNOSTICS v_stage_changes = ROW_COUNT;
+
+    -- email is NOT NULL and unique per brand, so it becomes a placeholder
+    UPDATE customers
+    SET email = 'erased-' || id || '@erased.invalid',
+        phone = NULL,
+        first_name = NULL,
+        last_name = NULL,
+        metadata = NULL,
+        tags = NULL,
+        erased_at = NOW()
+    WHERE id = p_customer_id;
+
+    v_audit_events := redact_erased_customer_audit(p_brand_id, p_customer_id);
+
+    -- Recorded after the redaction, and with no values to redact
+    PERFORM record_audit_events(p_brand_id, jsonb_build_array(jsonb_build_object(
+        'actor_id', p_actor_id,
+        'entity_type', 'customer',
+        'entity_id', p_customer_id,
+        'action', 'erase'
+    )));
+
+    INSERT INTO customer_data_requests (brand_id, customer_id, request_type, actor_id, reason, summary)
+    VALUES (
+        p_brand_id,
+        p_customer_id,
+        'erasure',
+        p_actor_id,
+        p_reason,
+        jsonb_build_object(
+            'customers', 1,
+            'conversations', v_conversations,
+            'messages', v_messages,
+            'stage_changes', v_stage_changes,
+            'audit_events', v_audit_events
+        )
+    )
+    RETURNING * INTO v_request;
+
+    RETURN v_request;
+END;
+$$ LANGUAGE plpgsql;
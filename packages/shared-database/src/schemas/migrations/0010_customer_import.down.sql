@@ -0,0 +1,4 @@
+-- Revert migration 0010: importCustomers matches rows itself again
+
+DROP FUNCTION IF EXISTS import_customers(brand_id, JSONB, BOOLEAN);
+DROP FUNCTION IF EXISTS apply_customer_import(customers, customers);
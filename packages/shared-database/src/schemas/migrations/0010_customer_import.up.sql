@@ -0,0 +1,148 @@
+-- Customer import writes: rows are matched and written in one statement per
+-- row, so a customer created concurrently is updated rather than duplicated
+
+-- A customer with an import row applied (mirrors importCustomers): the row's
+-- email, phone and names where it has them, the row's metadata keys over the
+-- customer's, and the row's tags added to the customer's in order
+CREATE OR REPLACE FUNCTION apply_customer_import(
+    p_customer customers,
+    p_row customers
+)
+RETURNS customers AS $$
+DECLARE
+    v_customer customers := p_customer;
+BEGIN
+    v_customer.email := p_row.email;
+    v_customer.phone := COALESCE(p_row.phone, p_customer.phone);
+    v_customer.first_name := COALESCE(p_row.first_name, p_customer.first_name);
+    v_customer.last_name := COALESCE(p_row.last_name, p_customer.last_name);
+    v_customer.metadata := CASE
+        WHEN p_row.metadata IS NULL THEN p_customer.metadata
+        ELSE COALESCE(p_customer.metadata, '{}') || p_row.metadata
+    END;
+    v_customer.tags := CASE
+        WHEN p_row.tags IS NULL THEN p_customer.tags
+        ELSE ARRAY(
+            SELECT t.tag
+            FROM unnest(COALESCE(p_customer.tags, '{}') || p_row.tags) WITH ORDINALITY t (tag, n)
+            GROUP BY t.tag
+            ORDER BY min(t.n)
+        )
+    END;
+    RETURN v_customer;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Create or update customers from import rows (customers columns as JSON,
+-- in file order). A row is matched on email by upserting on (brand_id,
+-- email), or on phone when no customer has its email; stage and source only
+-- apply to new customers. Returns each row's status (created, updated,
+-- skipped when nothing changes, or error), customer and reason, by ordinal.
+-- A row whose email and phone belong to two customers, or that breaks a
+-- constraint, is an error and the other rows are still written. With
+-- p_dry_run nothing is kept and created rows have no customer.
+CREATE OR REPLACE FUNCTION import_customers(
+    p_brand_id brand_id,
+    p_rows JSONB,
+    p_dry_run BOOLEAN DEFAULT FALSE
+)
+RETURNS TABLE (ordinal INTEGER, status TEXT, customer_id UUID, reason TEXT) AS $$
+DECLARE
+    v_item JSONB;
+    v_row customers;
+    v_email_match customers;
+    v_phone_match customers;
+    v_merged customers;
+    v_inserted BOOLEAN;
+BEGIN
+    -- Report phone conflicts on their row rather than at commit
+    SET CONSTRAINTS customers_brand_phone_unique IMMEDIATE;
+
+    BEGIN
+        FOR v_item, ordinal IN
+            SELECT r.value, r.n::INTEGER
+            FROM jsonb_array_elements(p_rows) WITH ORDINALITY r (value, n)
+        LOOP
+            v_row := jsonb_populate_record(NULL::customers, v_item);
+            status := NULL;
+            customer_id := NULL;
+            reason := NULL;
+
+            BEGIN
+                SELECT * INTO v_email_match
+                FROM customers
+                WHERE brand_id = p_brand_id AND email = v_row.email
+                FOR UPDATE;
+
+                SELECT * INTO v_phone_match
+                FROM customers
+                WHERE brand_id = p_brand_id AND phone = v_row.phone
+                FOR UPDATE;
+
+                IF v_email_match.id IS NOT NULL AND v_phone_match.id IS NOT NULL
+                    AND v_email_match.id <> v_phone_match.id THEN
+                    status := 'error';
+                    reason := format('Email matches customer %s and phone matches customer %s',
+                        v_email_match.id, v_phone_match.id);
+                ELSIF v_email_match.id IS NULL AND v_phone_match.id IS NOT NULL THEN
+                    -- A new email for the phone's customer is always a change
+                    v_merged := apply_customer_import(v_phone_match, v_row);
+                    UPDATE customers
+                    SET email = v_merged.email,
+                        first_name = v_merged.first_name,
+                        last_name = v_merged.last_name,
+                        metadata = v_merged.metadata,
+                        tags = v_merged.tags
+                    WHERE id = v_phone_match.id;
+                    status := 'updated';
+                    customer_id := v_phone_match.id;
+                ELSE
+                    INSERT INTO customers AS c (
+                        brand_id, email, phone, first_name, last_name, stage, source,
+                        metadata, tags, created_by
+                    )
+                    VALUES (
+                        p_brand_id, v_row.email, v_row.phone, v_row.first_name, v_row.last_name,
+                        COALESCE(v_row.stage, 'lead'), COALESCE(v_row.source, 'website'),
+                        v_row.metadata, v_row.tags, v_row.created_by
+                    )
+                    ON CONFLICT (brand_id, email) DO UPDATE
+                    SET (phone, first_name, last_name, metadata, tags) = (
+                        SELECT m.phone, m.first_name, m.last_name, m.metadata, m.tags
+                        FROM apply_customer_import(c, v_row) m
+                    )
+                    WHERE apply_customer_import(c, v_row) IS DISTINCT FROM c
+                    RETURNING c.id, c.xmax = 0 INTO customer_id, v_inserted;
+
+                    IF customer_id IS NULL THEN
+                        status := 'skipped';
+                        reason := 'No changes';
+                        customer_id := v_email_match.id;
+                    ELSE
+                        status := CASE WHEN v_inserted THEN 'created' ELSE 'updated' END;
+                    END IF;
+                END IF;
+            EXCEPTION
+                WHEN integrity_constraint_violation OR data_exception THEN
+                    status := 'error';
+                    customer_id := NULL;
+                    reason := SQLERRM;
+            END;
+
+            IF p_dry_run AND status = 'created' THEN
+                customer_id := NULL;
+            END IF;
+            RETURN NEXT;
+        END LOOP;
+
+        IF p_dry_run THEN
+            RAISE EXCEPTION 'Dry run' USING ERRCODE = 'PDRY0';
+        END IF;
+    EXCEPTION
+        WHEN SQLSTATE 'PDRY0' THEN
+            NULL; -- Undo the writes, keep the returned rows
+    END;
+
+    SET CONSTRAINTS customers_brand_phone_unique DEFERRED;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,103 @@
+-- Reactivation clears churned_at, so churn and cohort analytics stop
+-- counting customers who came back
+
+-- Move a customer to a new lifecycle stage and record it in
+-- customer_stage_history. Legal moves (mirrors CUSTOMER_STAGE_TRANSITIONS and
+-- CUSTOMER_REACTIVATION_STAGES in types/customer.ts):
+--   lead      → marketing, trial, active, dormant
+--   marketing → trial, active, dormant
+--   trial     → active, churned, dormant
+--   active    → churned, dormant
+--   dormant   → marketing, trial, active, churned
+--   churned and dormant → lead by reactivation only
+-- Raises no_data_found for an unknown customer, check_violation for an
+-- illegal move and serialization_failure when the customer is no longer in
+-- p_from_stage (a concurrent change). Journey timestamps keep the first time
+-- each stage was reached, so re-entering a stage does not overwrite them,
+-- except churned_at: a reactivated customer is no longer churned.
+CREATE OR REPLACE FUNCTION transition_customer_stage(
+    p_brand_id brand_id,
+    p_customer_id UUID,
+    p_from_stage customer_stage,
+    p_to_stage customer_stage,
+    p_transition VARCHAR(20) DEFAULT 'progress',
+    p_reason TEXT DEFAULT NULL,
+    p_actor_id UUID DEFAULT NULL
+)
+RETURNS customers AS $$
+DECLARE
+    v_customer customers;
+    v_allowed BOOLEAN;
+BEGIN
+    v_allowed := CASE p_transition
+        WHEN 'reactivate' THEN
+            p_from_stage IN ('churned', 'dormant') AND p_to_stage = 'lead'
+        WHEN 'progress' THEN CASE p_from_stage
+            WHEN 'lead' THEN p_to_stage IN ('marketing', 'trial', 'active', 'dormant')
+            WHEN 'marketing' THEN p_to_stage IN ('trial', 'active', 'dormant')
+            WHEN 'trial' THEN p_to_stage IN ('active', 'churned', 'dormant')
+            WHEN 'active' THEN p_to_stage IN ('churned', 'dormant')
+            WHEN 'dormant' THEN p_to_stage IN ('marketing', 'trial', 'active', 'churned')
+            ELSE FALSE
+        END
+        ELSE FALSE
+    END;
+
+    IF NOT v_allowed THEN
+        RAISE EXCEPTION 'Invalid customer stage change: % → % (%)', p_from_stage, p_to_stage, p_transition
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    SELECT * INTO v_customer
+    FROM customers
+    WHERE id = p_customer_id AND brand_id = p_brand_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Customer % not found for brand %', p_customer_id, p_brand_id
+            USING ERRCODE = 'no_data_found';
+    END IF;
+
+    IF v_customer.stage <> p_from_stage THEN
+        RAISE EXCEPTION 'Customer % is not in stage % for brand %', p_customer_id, p_from_stage, p_brand_id
+            USING ERRCODE = 'serialization_failure';
+    END IF;
+
+    UPDATE customers
+    SET stage = p_to_stage,
+        marketing_qualified_at = CASE WHEN p_to_stage = 'marketing'
+            THEN COALESCE(marketing_qualified_at, NOW()) ELSE marketing_qualified_at END,
+        trial_started_at = CASE WHEN p_to_stage = 'trial'
+            THEN COALESCE(trial_started_at, NOW()) ELSE trial_started_at END,
+        subscribed_at = CASE WHEN p_to_stage = 'active'
+            THEN COALESCE(subscribed_at, NOW()) ELSE subscribed_at END,
+        churned_at = CASE
+            WHEN p_to_stage = 'churned' THEN COALESCE(churned_at, NOW())
+            WHEN p_transition = 'reactivate' THEN NULL
+            ELSE churned_at END,
+        is_active = CASE
+            WHEN p_to_stage = 'churned' THEN FALSE
+            WHEN p_transition = 'reactivate' THEN TRUE
+            ELSE is_active END
+    WHERE id = p_customer_id
+    RETURNING * INTO v_customer;
+
+    INSERT INTO customer_stage_history (brand_id, customer_id, from_stage, to_stage, transition, reason, actor_id)
+    VALUES (p_brand_id, p_customer_id, p_from_stage, p_to_stage, p_transition, p_reason, p_actor_id);
+
+    RETURN v_customer;
+END;
+$$ language 'plpgsql';
+
+-- Customers reactivated since they churned
+UPDATE customers c
+SET churned_at = NULL
+WHERE c.churned_at IS NOT NULL
+  AND c.stage <> 'churned'
+  AND EXISTS (
+      SELECT 1 FROM customer_stage_history h
+      WHERE h.customer_id = c.id
+        AND h.brand_id = c.brand_id
+        AND h.transition = 'reactivate'
+        AND h.changed_at >= c.churned_at
+  );
@@ -0,0 +1,19 @@
+-- Revert migration 0012: restore the plain campaign key and the 0001 reply
+-- count
+
+CREATE OR REPLACE VIEW campaign_stats WITH (security_invoker = true) AS
+SELECT 
+    brand_id,
+    campaign_id,
+    COUNT(*)::INTEGER as conversations_started,
+    COUNT(*) FILTER (WHERE last_inbound_at IS NOT NULL)::INTEGER as replies,
+    COUNT(*) FILTER (WHERE opted_out_at IS NOT NULL)::INTEGER as opt_outs,
+    COALESCE(SUM(message_count), 0)::INTEGER as total_messages
+FROM conversations
+WHERE campaign_id IS NOT NULL
+GROUP BY brand_id, campaign_id;
+
+ALTER TABLE conversations DROP CONSTRAINT conversations_campaign_brand_fkey;
+ALTER TABLE conversations ADD CONSTRAINT conversations_campaign_id_fkey
+    FOREIGN KEY (campaign_id) REFERENCES campaigns (id) ON DELETE SET NULL;
+ALTER TABLE campaigns DROP CONSTRAINT campaigns_id_brand_unique;
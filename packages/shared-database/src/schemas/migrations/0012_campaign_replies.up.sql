@@ -0,0 +1,42 @@
+-- Campaign conversations stay within the campaign's brand, and campaign
+-- replies count answers to the campaign rather than any inbound message
+
+-- Conversations linked to another brand's campaign lose the link
+UPDATE conversations cv
+SET campaign_id = NULL, campaign_name = NULL
+FROM campaigns c
+WHERE c.id = cv.campaign_id AND c.brand_id <> cv.brand_id;
+
+-- The brand-matching key replaces the plain campaign key (two keys to
+-- campaigns would make PostgREST embeds between the tables ambiguous)
+ALTER TABLE campaigns ADD CONSTRAINT campaigns_id_brand_unique UNIQUE (id, brand_id);
+ALTER TABLE conversations DROP CONSTRAINT conversations_campaign_id_fkey;
+ALTER TABLE conversations ADD CONSTRAINT conversations_campaign_brand_fkey
+    FOREIGN KEY (campaign_id, brand_id) REFERENCES campaigns (id, brand_id)
+    ON DELETE SET NULL (campaign_id);
+
+-- Campaign stats built from conversation counters. A reply is a
+-- conversation with an inbound message after its first outbound one, so
+-- messages the customer sent before the campaign reached them don't count.
+CREATE OR REPLACE VIEW campaign_stats WITH (security_invoker = true) AS
+SELECT
+    cv.brand_id,
+    cv.campaign_id,
+    COUNT(*)::INTEGER as conversations_started,
+    COUNT(*) FILTER (WHERE EXISTS (
+        SELECT 1
+        FROM messages inbound
+        WHERE inbound.conversation_id = cv.id
+          AND inbound.direction = 'inbound'
+          AND inbound.created_at > (
+              SELECT MIN(outbound.created_at)
+              FROM messages outbound
+              WHERE outbound.conversation_id = cv.id
+                AND outbound.direction = 'outbound'
+          )
+    ))::INTEGER as replies,
+    COUNT(*) FILTER (WHERE cv.opted_out_at IS NOT NULL)::INTEGER as opt_outs,
+    COALESCE(SUM(cv.message_count), 0)::INTEGER as total_messages
+FROM conversations cv
+WHERE cv.campaign_id IS NOT NULL
+GROUP BY cv.brand_id, cv.campaign_id;
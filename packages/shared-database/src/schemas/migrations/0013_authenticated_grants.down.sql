@@ -0,0 +1,7 @@
+-- Revert migration 0013: every privilege on the 0001 tables and views again
+
+GRANT ALL ON
+    brands, customers, conversations, campaigns, messages,
+    message_status_events, customer_stage_history, cross_brand_access_log,
+    customer_analytics, conversation_analytics, campaign_stats
+TO authenticated;
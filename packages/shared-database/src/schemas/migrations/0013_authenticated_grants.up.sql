@@ -0,0 +1,22 @@
+-- Brand sessions (the authenticated role) get only the privileges the
+-- operations and their database functions use, instead of every privilege on
+-- every table. Changes to brands and reads of the access log go through the
+-- service role; audit events are appended only by the audit functions.
+
+REVOKE ALL ON ALL TABLES IN SCHEMA public FROM authenticated;
+REVOKE ALL ON ALL SEQUENCES IN SCHEMA public FROM authenticated;
+
+GRANT SELECT ON brands TO authenticated;
+-- merge_customers deletes the merged duplicate
+GRANT SELECT, INSERT, UPDATE, DELETE ON customers TO authenticated;
+GRANT SELECT, INSERT, UPDATE ON conversations TO authenticated;
+GRANT SELECT, INSERT, UPDATE ON campaigns TO authenticated;
+GRANT SELECT, INSERT, UPDATE ON messages TO authenticated;
+GRANT SELECT, INSERT ON message_status_events TO authenticated;
+-- merge_customers moves the duplicate's history to the survivor
+GRANT SELECT, INSERT, UPDATE ON customer_stage_history TO authenticated;
+GRANT INSERT ON cross_brand_access_log TO authenticated;
+GRANT SELECT, INSERT ON customer_data_requests TO authenticated;
+GRANT SELECT ON audit_events TO authenticated;
+
+GRANT SELECT ON customer_analytics, conversation_analytics, campaign_stats TO authenticated;
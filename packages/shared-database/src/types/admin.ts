@@ -0,0 +1,92 @@
+import { z } from "zod";
+import { BrandId } from "./brand";
+import { CustomerStage, CustomerSource } from "./customer";
+import { ConversationStatus } from "./conversation";
+import { PaginationOptions } from "./pagination";
+import { AnalyticsRange } from "./analytics";
+import { DatabaseOperationError } from "./errors";
+
+// Caller of a cross-brand admin route (/api/shared/*)
+export interface AdminContext {
+  user_id: string;
+  is_admin: boolean;
+  reason?: string; // Recorded with every access, e.g. a support ticket
+}
+
+// What a cross-brand request read
+export const CrossBrandResource = z.enum([
+  "customers",
+  "conversations",
+  "access_log",
+]);
+export type CrossBrandResource = z.infer<typeof CrossBrandResource>;
+
+export const CrossBrandAction = z.enum(["list", "get", "analytics"]);
+export type CrossBrandAction = z.infer<typeof CrossBrandAction>;
+
+// Cross-brand access record (cross_brand_access_log)
+export const CrossBrandAccessSchema = z.object({
+  id: z.string().uuid(),
+  actor_id: z.string().uuid(), // AdminContext.user_id
+  brand_ids: z.array(BrandId).min(1),
+  resource: CrossBrandResource,
+  action: CrossBrandAction,
+  filters: z.record(z.unknown()).optional(),
+  reason: z.string().optional(),
+  created_at: z.string().datetime({ offset: true }),
+});
+
+export type CrossBrandAccess = z.infer<typeof CrossBrandAccessSchema>;
+
+// Brands a cross-brand query covers; all known brands when omitted
+export interface CrossBrandOptions {
+  brand_ids?: BrandId[];
+}
+
+export interface CrossBrandCustomerFilters
+  extends CrossBrandOptions,
+    PaginationOptions {
+  stage?: CustomerStage;
+  source?: CustomerSource;
+  email?: string;
+  phone?: string; // Any format, normalized to E.164
+}
+
+export interface CrossBrandConversationFilters
+  extends CrossBrandOptions,
+    PaginationOptions {
+  status?: ConversationStatus;
+  customer_id?: string;
+  customer_phone?: string;
+}
+
+export interface CrossBrandAnalyticsOptions
+  extends CrossBrandOptions,
+    AnalyticsRange {}
+
+export interface CrossBrandAccessFilters
+  extends CrossBrandOptions,
+    PaginationOptions,
+    AnalyticsRange {
+  actor_id?: string;
+  resource?: CrossBrandResource;
+}
+
+// Reasons a cross-brand request was refused
+export type AdminAccessErrorCode =
+  | "not_admin" // AdminContext.is_admin is false
+  | "missing_actor" // No user_id to record in the access log
+  | "invalid_brand"; // Unknown brand, or an empty brand selection
+
+export class AdminAccessError extends DatabaseOperationError {
+  readonly status = 403;
+
+  constructor(
+    public readonly code: AdminAccessErrorCode,
+    message: string,
+    public readonly brand_id?: string
+  ) {
+    super(message, { brand_id });
+    this.name = "AdminAccessError";
+  }
+}
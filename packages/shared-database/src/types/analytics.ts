@@ -0,0 +1,121 @@
+import { z } from "zod";
+import { CustomerStage, CustomerSource } from "./customer";
+import { ConversationStatus } from "./conversation";
+
+// Time-series bucket size
+export const AnalyticsInterval = z.enum(["day", "week", "month"]);
+export type AnalyticsInterval = z.infer<typeof AnalyticsInterval>;
+
+// Time range filter, applied to created_at (inclusive on both ends)
+export const AnalyticsRangeSchema = z.object({
+  start: z.string().datetime({ offset: true }).optional(),
+  end: z.string().datetime({ offset: true }).optional(),
+});
+
+export type AnalyticsRange = z.infer<typeof AnalyticsRangeSchema>;
+
+// Dimensions analytics can be grouped by
+export const CustomerAnalyticsGroupBy = z.enum(["stage", "source"]);
+export type CustomerAnalyticsGroupBy = z.infer<typeof CustomerAnalyticsGroupBy>;
+
+export const ConversationAnalyticsGroupBy = z.enum(["status", "campaign"]);
+export type ConversationAnalyticsGroupBy = z.infer<
+  typeof ConversationAnalyticsGroupBy
+>;
+
+// Options for time-series analytics
+export interface AnalyticsSeriesOptions<G extends string>
+  extends AnalyticsRange {
+  group_by?: G;
+}
+
+// Customer totals for a brand
+export interface CustomerAnalytics {
+  total: number;
+  active: number; // is_active customers
+  byStage: Record<CustomerStage, number>;
+  bySource: Record<CustomerSource, number>;
+  conversionRate: number; // Percentage of customers who subscribed
+  avgTimeToConversion: number; // Average days from signup to subscription
+}
+
+// Conversation totals for a brand
+export interface ConversationAnalytics {
+  total: number;
+  active: number;
+  optedOut: number;
+  byStatus: Record<ConversationStatus, number>;
+  byCampaign: Record<string, number>; // campaign_id → conversations
+  avgMessagesPerConversation: number;
+  totalMessages: number;
+}
+
+// One bucket of a customer time series
+export interface CustomerAnalyticsPoint {
+  bucket: string; // Start of the day, week (Monday) or month, UTC
+  group: string | null; // Stage or source; null when not grouped
+  count: number; // Customers created in the bucket
+  active: number;
+  converted: number; // Of those, customers who subscribed
+  avg_days_to_conversion: number | null;
+}
+
+// One bucket of a conversation time series
+export interface ConversationAnalyticsPoint {
+  bucket: string;
+  group: string | null; // Status or campaign_id; null when not grouped
+  count: number; // Conversations started in the bucket
+  active: number;
+  opted_out: number;
+  total_messages: number;
+}
+
+// Customer journey steps, each backed by a journey timestamp
+export const FunnelStep = z.enum([
+  "signup", // created_at
+  "marketing_qualified", // marketing_qualified_at
+  "trial", // trial_started_at
+  "subscribed", // subscribed_at
+  "churned", // churned_at
+]);
+export type FunnelStep = z.infer<typeof FunnelStep>;
+
+// Options for funnel and cohort analytics; the range selects customers by
+// signup time
+export interface FunnelOptions extends AnalyticsRange {
+  by_source?: boolean; // Segment by CustomerSource
+}
+
+export interface CohortOptions extends FunnelOptions {
+  months?: number; // Months after signup to follow (default 12)
+}
+
+// Conversion between two journey steps
+export interface FunnelConversion {
+  source: CustomerSource | null; // null when not segmented
+  from: FunnelStep;
+  to: FunnelStep;
+  entered: number; // Customers who reached `from`
+  converted: number; // Of those, customers who reached `to`
+  conversion_rate: number; // Percentage of entered that converted
+  median_days: number | null; // Time from `from` to `to`
+  p90_days: number | null;
+}
+
+// One month of a signup cohort's retention and churn curves
+export interface CohortPoint {
+  cohort: string; // Signup month (UTC)
+  source: CustomerSource | null;
+  month: number; // Months since signup; 0 is the signup month
+  customers: number; // Cohort size
+  subscribed: number; // Subscribed by the end of the month
+  retained: number; // Subscribed and not churned at the end of the month
+  churned: number; // Subscribed and churned by the end of the month
+  conversion_rate: number; // Percentage of customers subscribed
+  retention_rate: number; // Percentage of subscribed retained
+  churn_rate: number; // Percentage of subscribed churned
+}
+
+export function toPercentage(part: number, whole: number): number {
+  return whole > 0 ? (part / whole) * 100 : 0;
+}
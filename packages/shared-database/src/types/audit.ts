@@ -0,0 +1,60 @@
+import { z } from "zod";
+import { BrandId } from "./brand";
+import { PaginationOptions } from "./pagination";
+import { AnalyticsRange } from "./analytics";
+
+// Entities whose changes are recorded in audit_events
+export const AuditEntityType = z.enum(["customer", "conversation", "campaign"]);
+export type AuditEntityType = z.infer<typeof AuditEntityType>;
+
+export const AuditAction = z.enum([
+  "create",
+  "update",
+  "stage_change", // progressStage, reactivate
+  "status_change", // Conversation or campaign status
+  "opt_out",
+  "opt_in",
+  "erase",
+  "merge", // Both customers; the duplicate's event has merged_into
+]);
+export type AuditAction = z.infer<typeof AuditAction>;
+
+// Old and new value of a changed field. Fields the brand encrypts are
+// recorded as "[redacted]", values removed by erasure as "[erased]".
+export const AuditFieldChangeSchema = z.object({
+  from: z.unknown(),
+  to: z.unknown(),
+});
+
+export type AuditFieldChange = z.infer<typeof AuditFieldChangeSchema>;
+
+// Audit record (audit_events), append-only
+export const AuditEventSchema = z.object({
+  id: z.string().uuid(),
+  brand_id: BrandId,
+  actor_id: z.string().uuid().optional(), // The request's user (JWT sub)
+  entity_type: AuditEntityType,
+  entity_id: z.string().uuid(),
+  action: AuditAction,
+  changes: z.record(AuditFieldChangeSchema), // Changed fields only
+  created_at: z.string().datetime({ offset: true }),
+});
+
+export type AuditEvent = z.infer<typeof AuditEventSchema>;
+
+// A change to record with AuditLog.record; before is null for creates
+export interface AuditEventInput {
+  entity_type: AuditEntityType;
+  entity_id: string;
+  action: AuditAction;
+  before: object | null;
+  after: object | null;
+}
+
+// Audit events filters; start and end apply to created_at
+export interface AuditEventFilters extends PaginationOptions, AnalyticsRange {
+  entity_type?: AuditEntityType;
+  entity_id?: string;
+  actor_id?: string;
+  action?: AuditAction;
+}
@@ -1,9 +1,18 @@
 import { z } from "zod";
+import type { SmsComplianceConfig } from "./compliance";
+import { BrandEncryptionPolicy, PHI_FIELDS } from "./encryption";
+import { DatabaseOperationError } from "./errors";
 
-// Brand enum and types
-export const BrandId = z.enum(["gnymble", "percymd", "percytext"]);
+// Brand identifier. Brands live in the brands table (see BrandRegistry);
+// the built-in ones are always known, even before the registry has loaded.
+export const BrandId = z
+  .string()
+  .regex(/^[a-z][a-z0-9_-]{1,49}$/, "Invalid brand id");
 export type BrandId = z.infer<typeof BrandId>;
 
+export const BuiltInBrandId = z.enum(["gnymble", "percymd", "percytext"]);
+export type BuiltInBrandId = z.infer<typeof BuiltInBrandId>;
+
 // Brand configuration interface
 export interface BrandConfig {
   id: BrandId;
@@ -14,6 +23,10 @@ export interface BrandConfig {
   logo_url: string;
   support_email: string;
   is_active: boolean;
+  // Overrides for STOP/START/HELP keywords and replies
+  sms_compliance?: Partial<SmsComplianceConfig>;
+  // Columns encrypted at rest (see FieldEncryption)
+  encryption?: BrandEncryptionPolicy;
 }
 
 // Brand context for API requests
@@ -24,8 +37,9 @@ export interface BrandContext {
   is_admin?: boolean;
 }
 
-// Default brand configurations
-export const BRAND_CONFIGS: Record<BrandId, BrandConfig> = {
+// Built-in brand configurations, used until the brands table has been loaded
+// and whenever the database is unreachable
+export const BRAND_CONFIGS: Record<BuiltInBrandId, BrandConfig> = {
   gnymble: {
     id: "gnymble",
     name: "Gnymble",
@@ -45,6 +59,7 @@ export const BRAND_CONFIGS: Record<BrandId, BrandConfig> = {
     logo_url: "/brands/percymd/logo.svg",
     support_email: "support@percymd.com",
     is_active: true,
+    encryption: { fields: PHI_FIELDS, required: true },
   },
   percytext: {
     id: "percytext",
@@ -58,13 +73,220 @@ export const BRAND_CONFIGS: Record<BrandId, BrandConfig> = {
   },
 };
 
+// Brand configs loaded from the brands table, if any
+let loadedConfigs: Record<BrandId, BrandConfig> | null = null;
+
+// Replace the brand configs used by getBrandConfig and the resolvers.
+// Called by BrandRegistry after loading; null restores the built-in configs.
+export function setBrandConfigs(
+  configs: Record<BrandId, BrandConfig> | null
+): void {
+  loadedConfigs = configs;
+}
+
+// Current brand configs: loaded from the database, else the built-in ones
+export function getBrandConfigs(): Record<BrandId, BrandConfig> {
+  return loadedConfigs || BRAND_CONFIGS;
+}
+
+// Own-property lookup, so ids like "constructor" never match
+function findBrandConfig(
+  configs: Record<BrandId, BrandConfig>,
+  brand_id: string
+): BrandConfig | null {
+  return Object.prototype.hasOwnProperty.call(configs, brand_id)
+    ? configs[brand_id]
+    : null;
+}
+
 // Helper to get brand config
 export function getBrandConfig(brand_id: BrandId): BrandConfig {
-  return BRAND_CONFIGS[brand_id];
+  return getBrandConfigs()[brand_id];
 }
 
-// Helper to validate brand ID from string
+// Helper to validate brand ID from string (must be a known brand)
 export function validateBrandId(input: string): BrandId | null {
   const result = BrandId.safeParse(input);
-  return result.success ? result.data : null;
+  return result.success && findBrandConfig(getBrandConfigs(), result.data)
+    ? result.data
+    : null;
+}
+
+// Reasons a host or request could not be resolved to a brand
+export type BrandResolutionErrorCode =
+  | "unknown_host"
+  | "invalid_brand"
+  | "inactive_brand";
+
+// No (active) brand serves the request: 404
+export class BrandResolutionError extends DatabaseOperationError {
+  readonly status = 404;
+
+  constructor(
+    public readonly code: BrandResolutionErrorCode,
+    message: string,
+    public readonly host?: string,
+    public readonly brand_id?: string
+  ) {
+    super(message, { brand_id });
+    this.name = "BrandResolutionError";
+  }
+}
+
+// Reasons a user's access token was refused for a brand session
+export type BrandSessionErrorCode =
+  | "invalid_token" // Malformed, wrongly signed, expired or not a user token
+  | "context_mismatch"; // Token is for another user or brand than the context
+
+// 401 for a token that does not prove who the user is; 403 when it does, but
+// for another user or brand
+export class BrandSessionError extends DatabaseOperationError {
+  readonly status: number;
+
+  constructor(
+    public readonly code: BrandSessionErrorCode,
+    message: string,
+    public readonly brand_id?: BrandId
+  ) {
+    super(message, { brand_id });
+    this.name = "BrandSessionError";
+    this.status = code === "invalid_token" ? 401 : 403;
+  }
+}
+
+// Options for resolving a brand from a host or request
+export interface BrandResolverOptions {
+  // Hosts where the brand may be overridden (exact host or any subdomain of it)
+  override_hosts?: string[];
+  // Query parameter checked for an override, e.g. ?brand=percymd
+  override_param?: string;
+  // Header checked for an override when the query parameter is absent
+  override_header?: string;
+  // Use x-forwarded-host instead of the request URL host (behind a proxy)
+  trust_forwarded_host?: boolean;
+  // Brand configs to match against, defaults to getBrandConfigs()
+  configs?: Record<BrandId, BrandConfig>;
+}
+
+export const DEFAULT_BRAND_OVERRIDE_HOSTS = ["localhost", "127.0.0.1"];
+
+// Normalize a host: lowercase, without port or trailing dot
+function normalizeHost(host: string): string {
+  let hostname = host.trim().toLowerCase();
+
+  if (hostname.startsWith("[")) {
+    // IPv6 literal, e.g. [::1]:3000
+    hostname = hostname.slice(0, hostname.indexOf("]") + 1);
+  } else {
+    hostname = hostname.split(":")[0];
+  }
+
+  return hostname.replace(/\.$/, "");
+}
+
+function hostMatches(host: string, domain: string): boolean {
+  const normalized = normalizeHost(domain);
+  return host === normalized || host.endsWith(`.${normalized}`);
+}
+
+function assertActive(config: BrandConfig, host?: string): BrandConfig {
+  if (!config.is_active) {
+    throw new BrandResolutionError(
+      "inactive_brand",
+      `Brand is not active: ${config.id}`,
+      host,
+      config.id
+    );
+  }
+  return config;
+}
+
+// Config of an active brand; throws for unknown or inactive brands
+export function getActiveBrandConfig(brand_id: string): BrandConfig {
+  const config = findBrandConfig(getBrandConfigs(), brand_id);
+  if (!config) {
+    throw new BrandResolutionError(
+      "invalid_brand",
+      `Unknown brand: ${brand_id}`,
+      undefined,
+      brand_id
+    );
+  }
+  return assertActive(config);
+}
+
+// Resolve a brand from a host name using each brand's domain and platform_domain.
+// Matches exact hosts and their subdomains, e.g. "www.gnymble.com" → gnymble.
+export function getBrandFromDomain(
+  host: string,
+  options: BrandResolverOptions = {}
+): BrandId {
+  const configs = options.configs || getBrandConfigs();
+  const hostname = normalizeHost(host);
+
+  // Prefer the most specific domain when several brands could match
+  const match = Object.values(configs)
+    .flatMap((config) =>
+      [config.platform_domain, config.domain].map((domain) => ({
+        config,
+        domain,
+      }))
+    )
+    .filter(({ domain }) => hostMatches(hostname, domain))
+    .sort((a, b) => b.domain.length - a.domain.length)[0];
+
+  if (!match) {
+    throw new BrandResolutionError(
+      "unknown_host",
+      `Cannot determine brand from host: ${hostname}`,
+      hostname
+    );
+  }
+
+  return assertActive(match.config, hostname).id;
+}
+
+// Build the brand context for an incoming request.
+// On override hosts (localhost, previews) the brand comes from ?brand= or a header.
+export function getBrandFromRequest(
+  request: Request,
+  options: BrandResolverOptions = {}
+): BrandContext {
+  const configs = options.configs || getBrandConfigs();
+  const url = new URL(request.url);
+  const forwardedHost = options.trust_forwarded_host
+    ? request.headers.get("x-forwarded-host")?.split(",")[0]
+    : null;
+  const host = normalizeHost(forwardedHost || url.host);
+
+  const overrideHosts = options.override_hosts || DEFAULT_BRAND_OVERRIDE_HOSTS;
+  const canOverride = overrideHosts.some((overrideHost) =>
+    hostMatches(host, overrideHost)
+  );
+
+  if (canOverride) {
+    const requested =
+      url.searchParams.get(options.override_param || "brand") ||
+      request.headers.get(options.override_header || "x-brand-id");
+
+    if (requested) {
+      const brand_id = requested;
+      if (!findBrandConfig(configs, brand_id)) {
+        throw new BrandResolutionError(
+          "invalid_brand",
+          `Invalid brand override: ${requested}`,
+          host,
+          requested
+        );
+      }
+
+      return {
+        brand_id,
+        config: assertActive(configs[brand_id], host),
+      };
+    }
+  }
+
+  const brand_id = getBrandFromDomain(host, options);
+  return { brand_id, config: configs[brand_id] };
 }
@@ -0,0 +1,105 @@
+import { z } from "zod";
+import { BrandId } from "./brand";
+import { PhoneNumber } from "./phone";
+
+// Campaign status
+export const CampaignStatus = z.enum([
+  "draft", // Being prepared, not sending yet
+  "active", // Currently sending
+  "paused", // Temporarily stopped
+  "finished", // Completed, no further sends
+]);
+export type CampaignStatus = z.infer<typeof CampaignStatus>;
+
+// Allowed status changes; finished campaigns cannot be reopened
+export const CAMPAIGN_STATUS_TRANSITIONS: Record<
+  CampaignStatus,
+  CampaignStatus[]
+> = {
+  draft: ["active", "finished"],
+  active: ["paused", "finished"],
+  paused: ["active", "finished"],
+  finished: [],
+};
+
+// Campaign schema
+export const CampaignSchema = z.object({
+  id: z.string().uuid(),
+  brand_id: BrandId,
+
+  // Details
+  name: z.string().min(1),
+  description: z.string().optional(),
+  brand_phone: z.string().optional(), // E.164 (campaigns_brand_phone_e164)
+
+  // Status
+  status: CampaignStatus,
+  started_at: z.string().datetime({ offset: true }).optional(),
+  paused_at: z.string().datetime({ offset: true }).optional(),
+  finished_at: z.string().datetime({ offset: true }).optional(),
+
+  // Metadata
+  metadata: z.record(z.unknown()).optional(),
+  tags: z.array(z.string()).optional(),
+
+  // Audit
+  created_at: z.string().datetime({ offset: true }),
+  updated_at: z.string().datetime({ offset: true }),
+  created_by: z.string().uuid().optional(),
+});
+
+export type Campaign = z.infer<typeof CampaignSchema>;
+
+// Create campaign input
+export const CreateCampaignSchema = CampaignSchema.pick({
+  name: true,
+  description: true,
+  brand_phone: true,
+  metadata: true,
+  tags: true,
+})
+  .extend({ brand_phone: PhoneNumber }) // Any format of a valid number
+  .partial({
+    description: true,
+    brand_phone: true,
+    metadata: true,
+    tags: true,
+  });
+
+export type CreateCampaign = z.infer<typeof CreateCampaignSchema>;
+
+// Update campaign input (status changes go through setStatus)
+export const UpdateCampaignSchema = CampaignSchema.pick({
+  name: true,
+  description: true,
+  brand_phone: true,
+  metadata: true,
+  tags: true,
+})
+  .extend({ brand_phone: PhoneNumber })
+  .partial();
+
+export type UpdateCampaign = z.infer<typeof UpdateCampaignSchema>;
+
+// Per-campaign conversation stats
+export interface CampaignStats {
+  campaign_id: string;
+  conversations_started: number;
+  replies: number;
+  opt_outs: number;
+  total_messages: number;
+  reply_rate: number; // percentage of conversations with an inbound reply
+  opt_out_rate: number; // percentage of conversations that opted out
+}
+
+// Campaign helpers
+export function canTransitionCampaign(
+  from: CampaignStatus,
+  to: CampaignStatus
+): boolean {
+  return CAMPAIGN_STATUS_TRANSITIONS[from].includes(to);
+}
+
+export function isCampaignSending(campaign: Campaign): boolean {
+  return campaign.status === "active";
+}
@@ -0,0 +1,113 @@
+import { z } from "zod";
+import type { BrandConfig } from "./brand";
+
+// Actions triggered by inbound compliance keywords
+export const ComplianceAction = z.enum([
+  "stop", // Opt out of all messages
+  "start", // Reverse a previous opt-out
+  "help", // Reply with brand contact details
+]);
+export type ComplianceAction = z.infer<typeof ComplianceAction>;
+
+// Keyword lists and reply templates for SMS compliance (CTIA/TCPA).
+// Templates support {brand_name}, {support_email} and {domain} placeholders.
+export interface SmsComplianceConfig {
+  stop_keywords: string[];
+  start_keywords: string[];
+  help_keywords: string[];
+  stop_reply: string;
+  start_reply: string;
+  help_reply: string;
+}
+
+// Industry-standard defaults; brands override via BrandConfig.sms_compliance
+export const DEFAULT_SMS_COMPLIANCE: SmsComplianceConfig = {
+  stop_keywords: [
+    "STOP",
+    "STOPALL",
+    "UNSUBSCRIBE",
+    "CANCEL",
+    "END",
+    "QUIT",
+    "OPTOUT",
+    "REVOKE",
+  ],
+  start_keywords: ["START", "UNSTOP"],
+  help_keywords: ["HELP", "INFO"],
+  stop_reply:
+    "{brand_name}: You have been unsubscribed and will not receive any more messages. Reply START to resubscribe.",
+  start_reply:
+    "{brand_name}: You have been resubscribed. Reply HELP for help or STOP to opt out.",
+  help_reply:
+    "{brand_name}: For help, email {support_email}. Msg & data rates may apply. Reply STOP to opt out.",
+};
+
+// Result of processing an inbound message for compliance keywords
+export interface ComplianceResult {
+  action: ComplianceAction;
+  keyword: string;
+  reply: string;
+}
+
+// Compliance helpers
+export function getSmsComplianceConfig(
+  config: BrandConfig
+): SmsComplianceConfig {
+  return { ...DEFAULT_SMS_COMPLIANCE, ...config.sms_compliance };
+}
+
+// Normalize message text for keyword matching: "  Stop. " → "STOP"
+function normalizeKeyword(text: string): string {
+  return text
+    .trim()
+    .replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, "")
+    .toUpperCase();
+}
+
+// Match a message that consists solely of a compliance keyword.
+// STOP wins over START and HELP if a brand lists the same word twice.
+export function matchComplianceKeyword(
+  content: string,
+  config: SmsComplianceConfig = DEFAULT_SMS_COMPLIANCE
+): { action: ComplianceAction; keyword: string } | null {
+  const keyword = normalizeKeyword(content);
+  if (!keyword) return null;
+
+  const lists: [ComplianceAction, string[]][] = [
+    ["stop", config.stop_keywords],
+    ["start", config.start_keywords],
+    ["help", config.help_keywords],
+  ];
+
+  for (const [action, keywords] of lists) {
+    if (keywords.some((candidate) => normalizeKeyword(candidate) === keyword)) {
+      return { action, keyword };
+    }
+  }
+
+  return null;
+}
+
+export function renderComplianceReply(
+  template: string,
+  config: BrandConfig
+): string {
+  return template
+    .replace(/\{brand_name\}/g, config.name)
+    .replace(/\{support_email\}/g, config.support_email)
+    .replace(/\{domain\}/g, config.domain);
+}
+
+export function getComplianceReply(
+  action: ComplianceAction,
+  config: BrandConfig
+): string {
+  const compliance = getSmsComplianceConfig(config);
+  const templates: Record<ComplianceAction, string> = {
+    stop: compliance.stop_reply,
+    start: compliance.start_reply,
+    help: compliance.help_reply,
+  };
+
+  return renderComplianceReply(templates[action], config);
+}
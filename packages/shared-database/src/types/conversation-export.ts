@@ -0,0 +1,26 @@
+import type { AnalyticsRange } from "./analytics";
+import type { Conversation, ConversationStatus, Message } from "./conversation";
+import type { Customer } from "./customer";
+
+// csv: one row per message; ndjson: a conversation line followed by its
+// message lines; transcript: readable text, one block per conversation
+export type ConversationExportFormat = "csv" | "ndjson" | "transcript";
+
+// Conversations to export. start and end apply to message sent_at:
+// conversations without messages in the range are left out.
+export interface ConversationExportOptions extends AnalyticsRange {
+  format?: ConversationExportFormat; // Default csv
+  status?: ConversationStatus | ConversationStatus[];
+  campaign_id?: string;
+  tags?: string[]; // Conversations with all of these tags
+  batch_size?: number; // Rows read per request (default 500)
+}
+
+// ndjson lines, in order: each conversation, then its messages oldest first
+export type ConversationExportRecord =
+  | {
+      type: "conversation";
+      conversation: Conversation;
+      customer: Customer;
+    }
+  | { type: "message"; message: Message };
@@ -1,5 +1,6 @@
 import { z } from "zod";
 import { BrandId } from "./brand";
+import { PhoneNumber } from "./phone";
 
 // Message direction
 export const MessageDirection = z.enum(["inbound", "outbound"]);
@@ -15,6 +16,28 @@ export const MessageStatus = z.enum([
 ]);
 export type MessageStatus = z.infer<typeof MessageStatus>;
 
+// Allowed delivery status changes; delivered, failed and undelivered are final.
+// Mirrored by the update_message_status database function.
+export const MESSAGE_STATUS_TRANSITIONS: Record<
+  MessageStatus,
+  MessageStatus[]
+> = {
+  pending: ["sent", "delivered", "failed", "undelivered"],
+  sent: ["delivered", "failed", "undelivered"],
+  delivered: [],
+  failed: [],
+  undelivered: [],
+};
+
+// Outcome of applying a provider status callback
+export const MessageStatusOutcome = z.enum([
+  "applied", // Status changed
+  "duplicate", // Same status reported again
+  "out_of_order", // Illegal transition, e.g. delivered → sent
+  "not_found", // No message with that external_id for this brand
+]);
+export type MessageStatusOutcome = z.infer<typeof MessageStatusOutcome>;
+
 // Conversation status
 export const ConversationStatus = z.enum([
   "active", // Active conversation
@@ -37,26 +60,48 @@ export const MessageSchema = z.object({
   // Status tracking
   status: MessageStatus.optional(), // Only for outbound messages
   external_id: z.string().optional(), // Provider message ID
+  error_code: z.string().optional(), // Provider error code on failure
 
   // Metadata
   metadata: z.record(z.unknown()).optional(),
 
   // Audit
-  sent_at: z.string().datetime(),
-  delivered_at: z.string().datetime().optional(),
-  created_at: z.string().datetime(),
+  sent_at: z.string().datetime({ offset: true }),
+  delivered_at: z.string().datetime({ offset: true }).optional(),
+  created_at: z.string().datetime({ offset: true }),
 });
 
 export type Message = z.infer<typeof MessageSchema>;
 
+// Message status history entry
+export const MessageStatusEventSchema = z.object({
+  id: z.string().uuid(),
+  message_id: z.string().uuid(),
+  previous_status: MessageStatus.optional(),
+  status: MessageStatus,
+  error_code: z.string().optional(),
+  outcome: MessageStatusOutcome,
+  occurred_at: z.string().datetime({ offset: true }),
+  created_at: z.string().datetime({ offset: true }),
+});
+
+export type MessageStatusEvent = z.infer<typeof MessageStatusEventSchema>;
+
+// Result of updateMessageStatus
+export interface MessageStatusUpdate {
+  outcome: MessageStatusOutcome;
+  message: Message | null;
+  previous_status: MessageStatus | null;
+}
+
 // Conversation schema
 export const ConversationSchema = z.object({
   id: z.string().uuid(),
   brand_id: BrandId,
   customer_id: z.string().uuid(),
 
-  // Phone numbers
-  customer_phone: z.string(),
+  // Phone numbers (E.164); customer_phone is removed on erasure
+  customer_phone: z.string().optional(),
   brand_phone: z.string(),
 
   // Status
@@ -68,12 +113,12 @@ export const ConversationSchema = z.object({
 
   // Message counts
   message_count: z.number().int().default(0),
-  last_message_at: z.string().datetime().optional(),
-  last_inbound_at: z.string().datetime().optional(),
-  last_outbound_at: z.string().datetime().optional(),
+  last_message_at: z.string().datetime({ offset: true }).optional(),
+  last_inbound_at: z.string().datetime({ offset: true }).optional(),
+  last_outbound_at: z.string().datetime({ offset: true }).optional(),
 
   // Opt-out tracking
-  opted_out_at: z.string().datetime().optional(),
+  opted_out_at: z.string().datetime({ offset: true }).optional(),
   opt_out_reason: z.string().optional(),
 
   // Metadata
@@ -81,12 +126,29 @@ export const ConversationSchema = z.object({
   tags: z.array(z.string()).optional(),
 
   // Audit
-  created_at: z.string().datetime(),
-  updated_at: z.string().datetime(),
+  created_at: z.string().datetime({ offset: true }),
+  updated_at: z.string().datetime({ offset: true }),
+  erased_at: z.string().datetime({ offset: true }).optional(), // Customer erased
 });
 
 export type Conversation = z.infer<typeof ConversationSchema>;
 
+// Field a search result matched on
+export const ConversationSearchField = z.enum([
+  "customer_phone",
+  "campaign_name",
+  "customer_name",
+  "customer_email",
+]);
+export type ConversationSearchField = z.infer<typeof ConversationSearchField>;
+
+// Ranked conversation search result
+export interface ConversationSearchResult {
+  conversation: Conversation;
+  rank: number; // 0-1, higher is more relevant
+  matched_field: ConversationSearchField | null; // null for an empty query
+}
+
 // Create conversation input
 export const CreateConversationSchema = ConversationSchema.pick({
   customer_id: true,
@@ -96,12 +158,17 @@ export const CreateConversationSchema = ConversationSchema.pick({
   campaign_name: true,
   metadata: true,
   tags: true,
-}).partial({
-  campaign_id: true,
-  campaign_name: true,
-  metadata: true,
-  tags: true,
-});
+})
+  .extend({
+    customer_phone: PhoneNumber, // Any format of a valid number, stored as E.164
+    brand_phone: PhoneNumber,
+  })
+  .partial({
+    campaign_id: true,
+    campaign_name: true,
+    metadata: true,
+    tags: true,
+  });
 
 export type CreateConversation = z.infer<typeof CreateConversationSchema>;
 
@@ -122,6 +189,14 @@ export const CreateMessageSchema = MessageSchema.pick({
 export type CreateMessage = z.infer<typeof CreateMessageSchema>;
 
 // Conversation helpers
+export function canTransitionMessageStatus(
+  from: MessageStatus | null | undefined,
+  to: MessageStatus
+): boolean {
+  if (!from) return true;
+  return MESSAGE_STATUS_TRANSITIONS[from].includes(to);
+}
+
 export function isOptedOut(conversation: Conversation): boolean {
   return !!conversation.opted_out_at;
 }
@@ -131,7 +206,10 @@ export function canSendMessage(conversation: Conversation): boolean {
 }
 
 export function getConversationDisplayName(conversation: Conversation): string {
-  return conversation.campaign_name || `SMS - ${conversation.customer_phone}`;
+  return (
+    conversation.campaign_name ||
+    `SMS - ${conversation.customer_phone ?? "erased customer"}`
+  );
 }
 
 export function getLastMessageDirection(
@@ -0,0 +1,49 @@
+import type { CountryCode } from "libphonenumber-js";
+import type { CreateCustomer } from "./customer";
+import type { ValidationIssue } from "./errors";
+
+export type CustomerImportFormat = "csv" | "ndjson";
+
+// Customer field a source column is loaded into; "metadata.<key>" stores the
+// value under that metadata key
+export type CustomerImportField = keyof CreateCustomer | `metadata.${string}`;
+
+// Import input: the whole file, or chunks of it as read from a stream (Node
+// streams and web ReadableStreams are async iterables of chunks)
+export type CustomerImportSource =
+  | string
+  | Iterable<string | Uint8Array>
+  | AsyncIterable<string | Uint8Array>;
+
+export interface CustomerImportOptions {
+  format?: CustomerImportFormat; // Default csv, with a header row
+  // Source column → field. Columns named like a field (any case, spaces or
+  // dashes for underscores) are mapped without an entry; others are ignored.
+  columns?: Record<string, CustomerImportField>;
+  defaults?: Partial<CreateCustomer>; // For fields a row leaves empty
+  region?: CountryCode; // Region for phone numbers without a country code
+  tag_separator?: string; // Splits CSV tag cells (default ",")
+  batch_size?: number; // Rows looked up and written per request (default 500)
+  dry_run?: boolean; // Validate and match, write nothing
+}
+
+export type CustomerImportStatus = "created" | "updated" | "skipped" | "error";
+
+export interface CustomerImportRowResult {
+  line: number; // Line of the source where the row starts (1-based)
+  status: CustomerImportStatus; // What happened, or would with dry_run
+  customer_id?: string; // Created or matched customer (not for dry-run creates)
+  email?: string;
+  reason?: string; // Why the row was skipped or failed
+  issues?: ValidationIssue[]; // Invalid fields
+}
+
+export interface CustomerImportReport {
+  dry_run: boolean;
+  total: number; // Rows read, blank lines excluded
+  created: number;
+  updated: number;
+  skipped: number;
+  errors: number;
+  failed: CustomerImportRowResult[]; // Rows with status error, in source order
+}
@@ -1,5 +1,8 @@
 import { z } from 'zod';
 import { BrandId } from './brand';
+import { PhoneNumber } from './phone';
+import { PaginationOptions } from './pagination';
+import { DatabaseErrorContext, DatabaseOperationError } from './errors';
 
 // Customer lifecycle stages
 export const CustomerStage = z.enum([
@@ -12,6 +15,24 @@ export const CustomerStage = z.enum([
 ]);
 export type CustomerStage = z.infer<typeof CustomerStage>;
 
+// Allowed stage changes via progressStage. Churned and dormant customers
+// return to lead only through reactivation.
+export const CUSTOMER_STAGE_TRANSITIONS: Record<CustomerStage, CustomerStage[]> = {
+  lead: ['marketing', 'trial', 'active', 'dormant'],
+  marketing: ['trial', 'active', 'dormant'],
+  trial: ['active', 'churned', 'dormant'],
+  active: ['churned', 'dormant'],
+  dormant: ['marketing', 'trial', 'active', 'churned'],
+  churned: [],
+};
+
+// Stages a customer can be reactivated from (back to lead)
+export const CUSTOMER_REACTIVATION_STAGES: CustomerStage[] = ['churned', 'dormant'];
+
+// How a stage change was made
+export const CustomerStageTransition = z.enum(['progress', 'reactivate']);
+export type CustomerStageTransition = z.infer<typeof CustomerStageTransition>;
+
 // Customer source tracking
 export const CustomerSource = z.enum([
   'website',        // Direct website signup
@@ -32,7 +53,7 @@ export const CustomerSchema = z.object({
   
   // Identity
   email: z.string().email(),
-  phone: z.string().optional(),
+  phone: z.string().optional(), // E.164 (customers_phone_e164)
   first_name: z.string().optional(),
   last_name: z.string().optional(),
   
@@ -42,19 +63,20 @@ export const CustomerSchema = z.object({
   is_active: z.boolean().default(true),
   
   // Journey tracking
-  marketing_qualified_at: z.string().datetime().optional(),
-  trial_started_at: z.string().datetime().optional(),
-  subscribed_at: z.string().datetime().optional(),
-  churned_at: z.string().datetime().optional(),
+  marketing_qualified_at: z.string().datetime({ offset: true }).optional(),
+  trial_started_at: z.string().datetime({ offset: true }).optional(),
+  subscribed_at: z.string().datetime({ offset: true }).optional(),
+  churned_at: z.string().datetime({ offset: true }).optional(),
   
   // Metadata
   metadata: z.record(z.unknown()).optional(),
   tags: z.array(z.string()).optional(),
   
   // Audit
-  created_at: z.string().datetime(),
-  updated_at: z.string().datetime(),
+  created_at: z.string().datetime({ offset: true }),
+  updated_at: z.string().datetime({ offset: true }),
   created_by: z.string().uuid().optional(),
+  erased_at: z.string().datetime({ offset: true }).optional(), // Personal data removed (eraseCustomer)
 });
 
 export type Customer = z.infer<typeof CustomerSchema>;
@@ -69,6 +91,8 @@ export const CreateCustomerSchema = CustomerSchema.pick({
   source: true,
   metadata: true,
   tags: true,
+}).extend({
+  phone: PhoneNumber, // Any format of a valid number, stored as E.164
 }).partial({
   phone: true,
   first_name: true,
@@ -87,7 +111,6 @@ export const UpdateCustomerSchema = CustomerSchema.pick({
   phone: true,
   first_name: true,
   last_name: true,
-  stage: true,
   is_active: true,
   marketing_qualified_at: true,
   trial_started_at: true,
@@ -95,10 +118,82 @@ export const UpdateCustomerSchema = CustomerSchema.pick({
   churned_at: true,
   metadata: true,
   tags: true,
+}).extend({
+  phone: PhoneNumber,
 }).partial();
 
 export type UpdateCustomer = z.infer<typeof UpdateCustomerSchema>;
 
+// Stage change record (customer_stage_history)
+export const CustomerStageChangeSchema = z.object({
+  id: z.string().uuid(),
+  brand_id: BrandId,
+  customer_id: z.string().uuid(),
+  from_stage: CustomerStage,
+  to_stage: CustomerStage,
+  transition: CustomerStageTransition,
+  reason: z.string().optional(),
+  actor_id: z.string().uuid().optional(), // BrandContext.user_id
+  changed_at: z.string().datetime({ offset: true }),
+});
+
+export type CustomerStageChange = z.infer<typeof CustomerStageChangeSchema>;
+
+// Reasons a stage change was rejected
+export type CustomerStageTransitionErrorCode =
+  | 'invalid_transition' // Not allowed by CUSTOMER_STAGE_TRANSITIONS
+  | 'stale_stage'; // Stage changed concurrently
+
+// 422 for a disallowed move; 409 for a concurrent change, which can be
+// retried once the customer is read again. `kind` says which; `code` is the
+// SQLSTATE when transition_customer_stage refused the change.
+export class CustomerStageTransitionError extends DatabaseOperationError {
+  readonly status: number;
+  readonly retryable: boolean;
+
+  constructor(
+    public readonly kind: CustomerStageTransitionErrorCode,
+    message: string,
+    public readonly customer_id: string,
+    public readonly from: CustomerStage,
+    public readonly to: CustomerStage,
+    context: DatabaseErrorContext = {}
+  ) {
+    super(message, { table: 'customers', ...context });
+    this.name = 'CustomerStageTransitionError';
+    this.status = kind === 'stale_stage' ? 409 : 422;
+    this.retryable = kind === 'stale_stage';
+  }
+}
+
+// Field a search result matched on
+export const CustomerSearchField = z.enum(['email', 'name', 'phone']);
+export type CustomerSearchField = z.infer<typeof CustomerSearchField>;
+
+// Ranked customer search result
+export interface CustomerSearchResult {
+  customer: Customer;
+  rank: number; // 0-1, higher is more relevant
+  matched_field: CustomerSearchField | null; // null for an empty query
+}
+
+// Why two customers look like the same person
+export const CustomerDuplicateMatch = z.enum(['email', 'name', 'phone']);
+export type CustomerDuplicateMatch = z.infer<typeof CustomerDuplicateMatch>;
+
+// Likely duplicate pair; customer is the older one, the suggested survivor
+export interface CustomerDuplicate {
+  customer: Customer;
+  duplicate: Customer;
+  matched_on: CustomerDuplicateMatch[];
+  name_similarity: number; // 0-1, 0 when names are not compared
+}
+
+export interface CustomerDuplicateOptions extends PaginationOptions {
+  customer_id?: string; // Only this customer's duplicates
+  min_similarity?: number; // Name similarity to count as a match (default 0.6)
+}
+
 // Customer journey helpers
 export function getCustomerDisplayName(customer: Customer): string {
   if (customer.first_name && customer.last_name) {
@@ -110,6 +205,17 @@ export function getCustomerDisplayName(customer: Customer): string {
   return customer.email;
 }
 
+export function canTransitionCustomerStage(
+  from: CustomerStage,
+  to: CustomerStage
+): boolean {
+  return CUSTOMER_STAGE_TRANSITIONS[from].includes(to);
+}
+
+export function canReactivateCustomer(customer: Customer): boolean {
+  return CUSTOMER_REACTIVATION_STAGES.includes(customer.stage);
+}
+
 export function isTrialCustomer(customer: Customer): boolean {
   return customer.stage === 'trial' && !!customer.trial_started_at;
 }
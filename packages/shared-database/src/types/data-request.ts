@@ -0,0 +1,48 @@
+import { z } from "zod";
+import { AuditEvent } from "./audit";
+import { BrandId } from "./brand";
+import { Customer, CustomerStageChange } from "./customer";
+import { Conversation, Message, MessageStatusEvent } from "./conversation";
+
+// Data subject request kinds
+export const CustomerDataRequestType = z.enum(["export", "erasure"]);
+export type CustomerDataRequestType = z.infer<typeof CustomerDataRequestType>;
+
+// Export or erasure record (customer_data_requests), append-only
+export const CustomerDataRequestSchema = z.object({
+  id: z.string().uuid(),
+  brand_id: BrandId,
+  customer_id: z.string().uuid(),
+  request_type: CustomerDataRequestType,
+  actor_id: z.string().uuid().optional(), // BrandContext.user_id
+  reason: z.string().optional(),
+  summary: z.record(z.number()), // Row counts, e.g. { conversations: 2, messages: 40 }
+  created_at: z.string().datetime({ offset: true }),
+});
+
+export type CustomerDataRequest = z.infer<typeof CustomerDataRequestSchema>;
+
+export interface CustomerDataRequestOptions {
+  reason?: string; // Recorded with the request, e.g. a ticket reference
+}
+
+export interface ExportedMessage {
+  message: Message;
+  status_history: MessageStatusEvent[]; // Oldest first
+}
+
+export interface ExportedConversation {
+  conversation: Conversation;
+  messages: ExportedMessage[]; // Oldest first
+}
+
+// Everything stored about a customer, as returned by exportCustomerData
+export interface CustomerDataExport {
+  exported_at: string;
+  brand_id: BrandId;
+  customer: Customer;
+  journey: CustomerStageChange[]; // Stage changes, oldest first
+  conversations: ExportedConversation[]; // Oldest first
+  audit: AuditEvent[]; // Changes of the customer and their conversations, oldest first
+  requests: CustomerDataRequest[]; // Earlier exports and erasures
+}
@@ -0,0 +1,69 @@
+import { z } from "zod";
+import type { BrandId } from "./brand";
+import { DatabaseOperationError } from "./errors";
+
+// Columns that can be encrypted at rest, as "table.column"
+export const EncryptedField = z.enum([
+  "customers.first_name",
+  "customers.last_name",
+  "messages.content",
+  "messages.media_urls", // Each URL encrypted separately
+]);
+export type EncryptedField = z.infer<typeof EncryptedField>;
+
+// Per-brand encryption-at-rest policy (BrandConfig.encryption)
+export interface BrandEncryptionPolicy {
+  fields: EncryptedField[];
+  // Refuse to write the fields without a keyring. Otherwise they are
+  // encrypted when a keyring is configured and stored as plaintext when not.
+  required: boolean;
+}
+
+// Protected health information, encrypted for healthcare brands (PercyMD)
+export const PHI_FIELDS: EncryptedField[] = [
+  "customers.first_name",
+  "customers.last_name",
+  "messages.content",
+  "messages.media_urls",
+];
+
+// A brand's master keys (key encryption keys). New values are encrypted with
+// current_key_id; older keys stay listed until rotateEncryptedFields has
+// re-wrapped everything under the current key.
+export interface BrandKeyring {
+  current_key_id: string;
+  keys: Record<string, string>; // Key id → base64-encoded 32-byte key
+}
+
+export interface EncryptionRotationOptions {
+  dry_run?: boolean; // Report what would change without writing
+  batch_size?: number; // Rows read per query (default 1000)
+}
+
+export interface EncryptionRotationReport {
+  dry_run: boolean;
+  scanned: number; // Rows read
+  updated_rows: number;
+  rewrapped: number; // Values moved to the current key
+  encrypted: number; // Plaintext values encrypted
+}
+
+export type EncryptionErrorCode =
+  | "invalid_keyring" // Malformed keyring or key
+  | "missing_key" // Policy requires encryption but no keyring is configured
+  | "unknown_key" // Value encrypted with a key id not in the keyring
+  | "decrypt_failed" // Wrong key, tampered or corrupt value
+  | "encrypted_search"; // Search would have to match encrypted columns
+
+// Reported as an internal error (500): keyring and data problems are not
+// something the caller can fix
+export class EncryptionError extends DatabaseOperationError {
+  constructor(
+    public readonly code: EncryptionErrorCode,
+    message: string,
+    public readonly brand_id?: BrandId
+  ) {
+    super(message, { brand_id });
+    this.name = "EncryptionError";
+  }
+}
@@ -0,0 +1,170 @@
+import type { DatabaseError } from "../client/adapter";
+import type { BrandId } from "./brand";
+
+// One invalid field found by the Zod schemas
+export interface ValidationIssue {
+  path: string; // Dotted field path, e.g. "preferences.sms_opt_in"
+  message: string;
+  code: string; // Zod issue code
+}
+
+// Where a database operation failed
+export interface DatabaseErrorContext {
+  code?: string; // Postgres SQLSTATE or PostgREST error code
+  table?: string;
+  constraint?: string;
+  column?: string;
+  brand_id?: BrandId;
+  details?: string | null;
+  hint?: string | null;
+  issues?: ValidationIssue[]; // Schema validation failures
+}
+
+// Base class for errors thrown by the operations classes, including the
+// domain errors (CustomerStageTransitionError, AdminAccessError,
+// BrandResolutionError, BrandSessionError, EncryptionError). Anything not covered by a subclass
+// is reported as an internal error.
+export class DatabaseOperationError extends Error {
+  readonly status: number = 500; // Suggested HTTP status
+  readonly retryable: boolean = false;
+  readonly code?: string;
+  readonly table?: string;
+  readonly constraint?: string;
+  readonly column?: string;
+  readonly brand_id?: BrandId;
+  readonly details?: string | null;
+  readonly hint?: string | null;
+  readonly issues?: ValidationIssue[];
+
+  constructor(message: string, context: DatabaseErrorContext = {}) {
+    super(message);
+    this.name = "DatabaseOperationError";
+    this.code = context.code;
+    this.table = context.table;
+    this.constraint = context.constraint;
+    this.column = context.column;
+    this.brand_id = context.brand_id;
+    this.details = context.details;
+    this.hint = context.hint;
+    this.issues = context.issues;
+  }
+}
+
+// The row does not exist (in this brand)
+export class NotFoundError extends DatabaseOperationError {
+  readonly status = 404;
+
+  constructor(message: string, context: DatabaseErrorContext = {}) {
+    super(message, context);
+    this.name = "NotFoundError";
+  }
+}
+
+// A unique constraint was violated, e.g. customers_brand_email_unique
+export class UniqueConflictError extends DatabaseOperationError {
+  readonly status = 409;
+
+  constructor(message: string, context: DatabaseErrorContext = {}) {
+    super(message, context);
+    this.name = "UniqueConflictError";
+  }
+}
+
+// A referenced row is missing, or a delete is blocked by referencing rows
+export class ForeignKeyError extends DatabaseOperationError {
+  readonly status = 409;
+
+  constructor(message: string, context: DatabaseErrorContext = {}) {
+    super(message, context);
+    this.name = "ForeignKeyError";
+  }
+}
+
+// Input rejected: schema, NOT NULL, CHECK, enum or format violations,
+// invalid cursors and phone numbers, disallowed status changes
+export class ValidationError extends DatabaseOperationError {
+  readonly status = 422;
+
+  constructor(message: string, context: DatabaseErrorContext = {}) {
+    super(message, context);
+    this.name = "ValidationError";
+  }
+}
+
+// Row level security refused the request (wrong or missing brand session)
+export class BrandIsolationError extends DatabaseOperationError {
+  readonly status = 403;
+
+  constructor(message: string, context: DatabaseErrorContext = {}) {
+    super(message, context);
+    this.name = "BrandIsolationError";
+  }
+}
+
+// Temporary failure (serialization, deadlock, timeout, connection); the
+// operation can be retried
+export class TransientError extends DatabaseOperationError {
+  readonly status = 503;
+  readonly retryable = true;
+
+  constructor(message: string, context: DatabaseErrorContext = {}) {
+    super(message, context);
+    this.name = "TransientError";
+  }
+}
+
+const VALIDATION_CODES = ["23502", "23514", "PGRST102", "PGRST204"];
+const TRANSIENT_CODES = [
+  "40001",
+  "40P01",
+  "55P03",
+  "57014",
+  "PGRST000",
+  "PGRST001",
+  "PGRST002",
+  "PGRST003",
+];
+
+// Map a Postgres/PostgREST error to the matching error class. The message is
+// prefixed with what was being done; constraint, column and (when not given)
+// table are read from the Postgres message.
+export function toOperationError(
+  message: string,
+  error: DatabaseError,
+  context: DatabaseErrorContext = {}
+): DatabaseOperationError {
+  const code = error.code;
+  const full: DatabaseErrorContext = {
+    code,
+    details: error.details,
+    hint: error.hint,
+    ...context,
+    table:
+      context.table ??
+      error.message.match(/(?:relation|on table) "(?:public\.)?([^"]+)"/)?.[1],
+    constraint:
+      context.constraint ?? error.message.match(/constraint "([^"]+)"/)?.[1],
+    column: context.column ?? error.message.match(/column "([^"]+)"/)?.[1],
+  };
+  const text = `${message}: ${error.message}`;
+
+  if (code === "PGRST116" || code === "P0002") {
+    return new NotFoundError(text, full);
+  }
+  if (code === "23505") return new UniqueConflictError(text, full);
+  if (code === "23503") return new ForeignKeyError(text, full);
+  if (code === "42501") return new BrandIsolationError(text, full);
+  if (VALIDATION_CODES.includes(code) || code?.startsWith("22")) {
+    return new ValidationError(text, full);
+  }
+  if (
+    TRANSIENT_CODES.includes(code) ||
+    code?.startsWith("08") || // Connection exceptions
+    code?.startsWith("53") || // Insufficient resources
+    code?.startsWith("57P") // Server shutting down
+  ) {
+    return new TransientError(text, full);
+  }
+
+  return new DatabaseOperationError(text, full);
+}
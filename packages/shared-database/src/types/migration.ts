@@ -0,0 +1,61 @@
+// Numbered schema migration, loaded from NNNN_name.up.sql / NNNN_name.down.sql
+export interface Migration {
+  version: number;
+  name: string; // e.g. "initial_schema"
+  up: string;
+  down: string | null; // null when the migration cannot be rolled back
+  checksum: string; // sha256 of the up script
+  transaction: boolean; // false for scripts starting with "-- migrate:no-transaction"
+}
+
+// A migration found on disk and/or in the versions table
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  applied: boolean;
+  applied_at: string | null;
+  modified: boolean; // Up script changed after it was applied
+  missing: boolean; // Applied, but no longer on disk
+}
+
+// Anything with pg's query(text, values), e.g. a pg Client or Pool client.
+// Migrations use one session, so a Pool itself is not enough.
+export interface MigrationClient {
+  query(text: string, values?: unknown[]): Promise<{ rows: unknown[] }>;
+}
+
+export interface MigrationRunnerOptions {
+  directory?: string; // Default src/schemas/migrations
+  table?: string; // Versions table, default schema_migrations
+  log?: (message: string) => void;
+}
+
+// Apply up to and including `to` (default all)
+export interface MigrateUpOptions {
+  to?: number;
+}
+
+// Roll back `steps` migrations (default 1), or down to and excluding `to`
+export interface MigrateDownOptions {
+  steps?: number;
+  to?: number;
+}
+
+export type MigrationErrorCode =
+  | "invalid_file" // File name or contents not usable
+  | "duplicate_version" // Two migrations share a number
+  | "modified" // Applied up script changed on disk
+  | "missing" // Applied migration not on disk
+  | "irreversible" // No down script
+  | "failed"; // Script raised an error; the migration was rolled back
+
+export class MigrationError extends Error {
+  constructor(
+    public readonly code: MigrationErrorCode,
+    message: string,
+    public readonly version?: number
+  ) {
+    super(message);
+    this.name = "MigrationError";
+  }
+}
@@ -0,0 +1,69 @@
+import { z } from "zod";
+import { ValidationError } from "./errors";
+
+// Largest page any list operation will return
+export const MAX_PAGE_SIZE = 100;
+
+// Options accepted by every list operation
+export const PaginationOptionsSchema = z.object({
+  limit: z.number().int().min(1).max(MAX_PAGE_SIZE).optional(),
+  cursor: z.string().nullish(), // next_cursor from the previous page
+});
+
+export type PaginationOptions = z.infer<typeof PaginationOptionsSchema>;
+
+// One page of results
+export interface PaginatedResult<T> {
+  items: T[];
+  next_cursor: string | null;
+  has_more: boolean;
+}
+
+// Keyset position: the sort column value and id of the last item on a page
+export interface CursorPosition {
+  value: string | null;
+  id: string;
+}
+
+// Cursors are opaque to callers: base64url-encoded JSON
+export function encodeCursor(position: CursorPosition): string {
+  return btoa(JSON.stringify([position.value, position.id]))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+export function decodeCursor(cursor: string): CursorPosition {
+  try {
+    const [value, id] = JSON.parse(
+      atob(cursor.replace(/-/g, "+").replace(/_/g, "/"))
+    );
+
+    if (
+      typeof id === "string" &&
+      (value === null || typeof value === "string")
+    ) {
+      return { value, id };
+    }
+  } catch {
+    // Fall through to the error below
+  }
+
+  throw new ValidationError("Invalid pagination cursor");
+}
+
+// Ranked results (search) page by offset rather than by keyset
+export function encodeOffsetCursor(offset: number): string {
+  return encodeCursor({ value: String(offset), id: "offset" });
+}
+
+export function decodeOffsetCursor(cursor: string): number {
+  const { value, id } = decodeCursor(cursor);
+  const offset = Number(value);
+
+  if (id !== "offset" || !Number.isInteger(offset) || offset < 0) {
+    throw new ValidationError("Invalid pagination cursor");
+  }
+
+  return offset;
+}
@@ -0,0 +1,69 @@
+import { z } from "zod";
+import { parsePhoneNumberFromString, CountryCode } from "libphonenumber-js";
+import { ValidationError } from "./errors";
+
+// Region assumed for numbers written without a country code
+export const DEFAULT_PHONE_REGION: CountryCode = "US";
+
+// Normalize a phone number to E.164: "(415) 555-2671" → "+14155552671".
+// Returns null when the input cannot be a phone number (not a number, or the
+// wrong length for its country). For lookups: numbers are not checked
+// against assigned ranges, so any stored number can still be found.
+export function normalizePhoneNumber(
+  input: string,
+  region: CountryCode = DEFAULT_PHONE_REGION
+): string | null {
+  const parsed = parsePhoneNumberFromString(input.trim(), region);
+  return parsed && parsed.isPossible() ? parsed.number : null;
+}
+
+// Normalize a number in an assigned range of its country to E.164, for
+// writes. Returns null otherwise, so "(555) 123-4567" (no such area code) is
+// rejected.
+export function normalizeValidPhoneNumber(
+  input: string,
+  region: CountryCode = DEFAULT_PHONE_REGION
+): string | null {
+  const parsed = parsePhoneNumberFromString(input.trim(), region);
+  return parsed && parsed.isValid() ? parsed.number : null;
+}
+
+// Normalize a valid number or throw, for write paths
+export function toE164(
+  input: string,
+  region: CountryCode = DEFAULT_PHONE_REGION
+): string {
+  const normalized = normalizeValidPhoneNumber(input, region);
+  if (!normalized) {
+    throw new ValidationError(`Invalid phone number: ${input}`);
+  }
+  return normalized;
+}
+
+export function isE164(input: string): boolean {
+  return /^\+[1-9]\d{1,14}$/.test(input);
+}
+
+// Zod type that parses a valid number in any common format into E.164, for
+// write inputs. Stored numbers are read as plain strings: the E.164 CHECK
+// constraints already hold, and older rows must stay readable.
+export function createPhoneNumberSchema(
+  region: CountryCode = DEFAULT_PHONE_REGION
+) {
+  return z.string().transform((value, ctx) => {
+    const normalized = normalizeValidPhoneNumber(value, region);
+
+    if (!normalized) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "Invalid phone number",
+      });
+      return z.NEVER;
+    }
+
+    return normalized;
+  });
+}
+
+export const PhoneNumber = createPhoneNumberSchema();
+export type PhoneNumber = z.infer<typeof PhoneNumber>;
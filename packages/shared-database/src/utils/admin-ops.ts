@@ -0,0 +1,361 @@
+import { BrandAwareSupabase, Database } from "../client/supabase";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { DatabaseError } from "../client/adapter";
+import { BrandId, BrandContext, getBrandConfigs } from "../types/brand";
+import { Customer, CustomerSchema } from "../types/customer";
+import { Conversation, ConversationSchema } from "../types/conversation";
+import { normalizePhoneNumber } from "../types/phone";
+import { PaginatedResult } from "../types/pagination";
+import { ConversationAnalytics, CustomerAnalytics } from "../types/analytics";
+import {
+  AdminAccessError,
+  AdminContext,
+  CrossBrandAccess,
+  CrossBrandAccessSchema,
+  CrossBrandAccessFilters,
+  CrossBrandAction,
+  CrossBrandAnalyticsOptions,
+  CrossBrandConversationFilters,
+  CrossBrandCustomerFilters,
+  CrossBrandOptions,
+  CrossBrandResource,
+} from "../types/admin";
+import { BrandKeyring } from "../types/encryption";
+import { DatabaseOperationError, toOperationError } from "../types/errors";
+import { CustomerOperations } from "./customer-ops";
+import { ConversationOperations } from "./conversation-ops";
+import { applyKeyset, resolveLimit, toPaginatedResult } from "./pagination";
+import { ValidationOptions, parseRow, parseRows } from "./validation";
+import { EncryptedTable, FieldEncryption } from "./field-encryption";
+
+type CustomerRow = Database["public"]["Tables"]["customers"]["Row"];
+
+// Cross-brand reads for admin routes (/api/shared/*).
+// Requires AdminContext.is_admin. Every query covers all known brands or a
+// chosen subset, returns rows with their brand_id (analytics keyed by brand)
+// and is recorded in cross_brand_access_log before any data is read.
+// The client must bypass RLS (service role), as brand sessions see one brand.
+// Encrypted fields are decrypted with each brand's keyring (from
+// FIELD_ENCRYPTION_KEYRINGS unless passed).
+export class AdminOperations {
+  private encryption = new Map<BrandId, FieldEncryption>();
+
+  constructor(
+    private context: AdminContext,
+    private client: SupabaseClient<Database>,
+    private validation: ValidationOptions = {},
+    private keyrings?: Record<BrandId, BrandKeyring>
+  ) {
+    if (!context.is_admin) {
+      throw new AdminAccessError(
+        "not_admin",
+        "Cross-brand access requires an admin user"
+      );
+    }
+    if (!context.user_id) {
+      throw new AdminAccessError(
+        "missing_actor",
+        "Cross-brand access requires a user_id for the access log"
+      );
+    }
+  }
+
+  // Customers of the selected brands, newest first
+  async getCustomers(
+    filters: CrossBrandCustomerFilters = {}
+  ): Promise<PaginatedResult<Customer>> {
+    const brand_ids = this.resolveBrands(filters);
+    const phone = filters.phone
+      ? (normalizePhoneNumber(filters.phone) ?? filters.phone)
+      : undefined;
+
+    await this.record("customers", "list", brand_ids, { ...filters, phone });
+
+    let query = this.client
+      .from("customers")
+      .select("*")
+      .in("brand_id", brand_ids);
+    if (filters.stage) query = query.eq("stage", filters.stage);
+    if (filters.source) query = query.eq("source", filters.source);
+    if (filters.email) query = query.eq("email", filters.email);
+    if (phone) query = query.eq("phone", phone);
+
+    const limit = resolveLimit(filters, 50);
+    const { data, error } = await applyKeyset(
+      query,
+      "created_at",
+      filters,
+      limit
+    );
+
+    if (error) {
+      throw this.fail("Failed to get customers", error, "customers");
+    }
+
+    return toPaginatedResult(
+      parseRows(
+        CustomerSchema,
+        (data as CustomerRow[]).map((row) => this.decrypt("customers", row)),
+        this.validation,
+        { table: "customers" }
+      ),
+      "created_at",
+      limit
+    );
+  }
+
+  // A customer of any selected brand by id
+  async getCustomer(
+    id: string,
+    options: CrossBrandOptions = {}
+  ): Promise<Customer | null> {
+    const brand_ids = this.resolveBrands(options);
+    await this.record("customers", "get", brand_ids, { id });
+
+    const { data, error } = await this.client
+      .from("customers")
+      .select("*")
+      .eq("id", id)
+      .in("brand_id", brand_ids)
+      .single();
+
+    if (error) {
+      if (error.code === "PGRST116") return null; // Not found
+      throw this.fail("Failed to get customer", error, "customers");
+    }
+
+    return parseRow(
+      CustomerSchema,
+      this.decrypt("customers", data),
+      this.validation,
+      { table: "customers" }
+    );
+  }
+
+  // Conversations of the selected brands, most recent activity first
+  async getConversations(
+    filters: CrossBrandConversationFilters = {}
+  ): Promise<PaginatedResult<Conversation>> {
+    const brand_ids = this.resolveBrands(filters);
+    const customer_phone = filters.customer_phone
+      ? (normalizePhoneNumber(filters.customer_phone) ?? filters.customer_phone)
+      : undefined;
+
+    await this.record("conversations", "list", brand_ids, {
+      ...filters,
+      customer_phone,
+    });
+
+    let query = this.client
+      .from("conversations")
+      .select("*")
+      .in("brand_id", brand_ids);
+    if (filters.status) query = query.eq("status", filters.status);
+    if (filters.customer_id) {
+      query = query.eq("customer_id", filters.customer_id);
+    }
+    if (customer_phone) query = query.eq("customer_phone", customer_phone);
+
+    const limit = resolveLimit(filters, 50);
+    const { data, error } = await applyKeyset(
+      query,
+      "last_message_at",
+      filters,
+      limit,
+      true
+    );
+
+    if (error) {
+      throw this.fail("Failed to get conversations", error, "conversations");
+    }
+
+    return toPaginatedResult(
+      parseRows(ConversationSchema, data, this.validation, {
+        table: "conversations",
+      }),
+      "last_message_at",
+      limit
+    );
+  }
+
+  // Customer totals per brand
+  async getCustomerAnalytics(
+    options: CrossBrandAnalyticsOptions = {}
+  ): Promise<Record<BrandId, CustomerAnalytics>> {
+    const brand_ids = this.resolveBrands(options);
+    const { start, end } = options;
+    await this.record("customers", "analytics", brand_ids, { start, end });
+
+    return this.perBrand(brand_ids, (db) =>
+      new CustomerOperations(
+        db,
+        this.validation,
+        this.encryptionFor(db.context.brand_id)
+      ).getAnalytics({ start, end })
+    );
+  }
+
+  // Conversation totals per brand
+  async getConversationAnalytics(
+    options: CrossBrandAnalyticsOptions = {}
+  ): Promise<Record<BrandId, ConversationAnalytics>> {
+    const brand_ids = this.resolveBrands(options);
+    const { start, end } = options;
+    await this.record("conversations", "analytics", brand_ids, { start, end });
+
+    return this.perBrand(brand_ids, (db) =>
+      new ConversationOperations(
+        db,
+        this.validation,
+        this.encryptionFor(db.context.brand_id)
+      ).getAnalytics({ start, end })
+    );
+  }
+
+  // Cross-brand access records, newest first. Reading the log is recorded too.
+  async getAccessLog(
+    filters: CrossBrandAccessFilters = {}
+  ): Promise<PaginatedResult<CrossBrandAccess>> {
+    const brand_ids = this.resolveBrands(filters);
+    await this.record("access_log", "list", brand_ids, filters);
+
+    let query = this.client
+      .from("cross_brand_access_log")
+      .select("*")
+      .overlaps("brand_ids", brand_ids);
+    if (filters.actor_id) query = query.eq("actor_id", filters.actor_id);
+    if (filters.resource) query = query.eq("resource", filters.resource);
+    if (filters.start) query = query.gte("created_at", filters.start);
+    if (filters.end) query = query.lte("created_at", filters.end);
+
+    const limit = resolveLimit(filters, 50);
+    const { data, error } = await applyKeyset(
+      query,
+      "created_at",
+      filters,
+      limit
+    );
+
+    if (error) {
+      throw this.fail(
+        "Failed to get access log",
+        error,
+        "cross_brand_access_log"
+      );
+    }
+
+    return toPaginatedResult(
+      parseRows(CrossBrandAccessSchema, data, this.validation, {
+        table: "cross_brand_access_log",
+      }),
+      "created_at",
+      limit
+    );
+  }
+
+  // Requested brands, checked against the known brands (all when omitted)
+  private resolveBrands(options: CrossBrandOptions): BrandId[] {
+    const configs = getBrandConfigs();
+    if (!options.brand_ids) return Object.keys(configs);
+
+    if (!options.brand_ids.length) {
+      throw new AdminAccessError("invalid_brand", "No brands selected");
+    }
+    for (const brand_id of options.brand_ids) {
+      if (!Object.prototype.hasOwnProperty.call(configs, brand_id)) {
+        throw new AdminAccessError(
+          "invalid_brand",
+          `Unknown brand: ${brand_id}`,
+          brand_id
+        );
+      }
+    }
+
+    return [...new Set(options.brand_ids)];
+  }
+
+  // Field encryption of a brand, created on first use
+  private encryptionFor(brand_id: BrandId): FieldEncryption {
+    let encryption = this.encryption.get(brand_id);
+    if (!encryption) {
+      encryption = FieldEncryption.forBrand(
+        { brand_id, config: getBrandConfigs()[brand_id] },
+        this.keyrings?.[brand_id]
+      );
+      this.encryption.set(brand_id, encryption);
+    }
+    return encryption;
+  }
+
+  // Decrypt a row with the keyring of its brand
+  private decrypt<T extends { brand_id: BrandId }>(
+    table: EncryptedTable,
+    row: T
+  ): T {
+    return this.encryptionFor(row.brand_id).decryptRow(table, row);
+  }
+
+  // Run a brand-scoped operation for each brand, keyed by brand_id
+  private async perBrand<T>(
+    brand_ids: BrandId[],
+    fn: (db: BrandAwareSupabase) => Promise<T>
+  ): Promise<Record<BrandId, T>> {
+    const configs = getBrandConfigs();
+    const results = await Promise.all(
+      brand_ids.map((brand_id) => {
+        const context: BrandContext = {
+          brand_id,
+          config: configs[brand_id],
+          user_id: this.context.user_id,
+          is_admin: true,
+        };
+        return fn(new BrandAwareSupabase(context, this.client));
+      })
+    );
+
+    return Object.fromEntries(
+      brand_ids.map((brand_id, i) => [brand_id, results[i]])
+    );
+  }
+
+  // Record an access before reading; no record, no data
+  private async record(
+    resource: CrossBrandResource,
+    action: CrossBrandAction,
+    brand_ids: BrandId[],
+    filters: object
+  ): Promise<void> {
+    // brand_ids has its own column
+    const details = Object.fromEntries(
+      Object.entries(filters).filter(
+        ([key, value]) => key !== "brand_ids" && value !== undefined
+      )
+    );
+
+    const { error } = await this.client.from("cross_brand_access_log").insert({
+      actor_id: this.context.user_id,
+      brand_ids,
+      resource,
+      action,
+      filters: details,
+      reason: this.context.reason ?? null,
+    });
+
+    if (error) {
+      throw this.fail(
+        "Failed to record cross-brand access",
+        error,
+        "cross_brand_access_log"
+      );
+    }
+  }
+
+  // Typed error for a failed query; cross-brand queries have no single brand
+  private fail(
+    message: string,
+    error: DatabaseError,
+    table: string
+  ): DatabaseOperationError {
+    return toOperationError(message, error, { table });
+  }
+}
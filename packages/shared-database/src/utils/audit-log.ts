@@ -0,0 +1,224 @@
+import { BrandAwareSupabase } from "../client/supabase";
+import type { DatabaseError } from "../client/adapter";
+import {
+  AuditEntityType,
+  AuditEvent,
+  AuditEventFilters,
+  AuditEventInput,
+  AuditEventSchema,
+  AuditFieldChange,
+} from "../types/audit";
+import { EncryptedField } from "../types/encryption";
+import { PaginationOptions, PaginatedResult } from "../types/pagination";
+import { DatabaseOperationError, toOperationError } from "../types/errors";
+import { applyKeyset, resolveLimit, toPaginatedResult } from "./pagination";
+import { ValidationOptions, parseRows } from "./validation";
+import { FieldEncryption } from "./field-encryption";
+
+// Identity and bookkeeping columns, left out of diffs
+const IGNORED_FIELDS = new Set(["id", "brand_id", "created_at", "updated_at"]);
+
+// Recorded instead of the values of fields the brand encrypts
+export const REDACTED = "[redacted]";
+
+const ENTITY_TABLES: Record<AuditEntityType, string> = {
+  customer: "customers",
+  conversation: "conversations",
+  campaign: "campaigns",
+};
+
+// Fields that differ between two versions of an entity (before is null for
+// creates). Missing fields count as null.
+export function diffFields(
+  before: object | null,
+  after: object | null
+): Record<string, AuditFieldChange> {
+  const from = (before ?? {}) as Record<string, unknown>;
+  const to = (after ?? {}) as Record<string, unknown>;
+  const changes: Record<string, AuditFieldChange> = {};
+
+  for (const field of new Set([...Object.keys(from), ...Object.keys(to)])) {
+    if (IGNORED_FIELDS.has(field)) continue;
+
+    const previous = from[field] ?? null;
+    const next = to[field] ?? null;
+    if (JSON.stringify(previous) !== JSON.stringify(next)) {
+      changes[field] = { from: previous, to: next };
+    }
+  }
+
+  return changes;
+}
+
+// Who changed what (audit_events). Customer, conversation and campaign
+// changes are recorded by database triggers (record_audit_event) in the
+// transaction of the change, as the request's user (JWT sub). record and
+// recordMany append other changes through record_audit_events, the only
+// way for a brand to append. Messages are not audited: they are
+// append-only and have their own delivery history.
+export class AuditLog {
+  constructor(
+    private db: BrandAwareSupabase,
+    private validation: ValidationOptions = {},
+    private encryption: FieldEncryption = FieldEncryption.forBrand(db.context)
+  ) {}
+
+  // Record a change the triggers don't see with the acting user and a field
+  // diff. Updates that changed nothing are skipped (returns null).
+  async record(input: AuditEventInput): Promise<AuditEvent | null> {
+    const [event] = await this.recordMany([input]);
+    return event ?? null;
+  }
+
+  // Record several changes in one write; no-op updates are skipped
+  async recordMany(inputs: AuditEventInput[]): Promise<AuditEvent[]> {
+    const rows = inputs
+      .map((input) => ({
+        input,
+        changes: this.redact(
+          input.entity_type,
+          diffFields(input.before, input.after)
+        ),
+      }))
+      .filter(
+        ({ input, changes }) =>
+          Object.keys(changes).length || input.action === "erase"
+      )
+      .map(({ input, changes }) => ({
+        actor_id: this.db.context.user_id ?? null,
+        entity_type: input.entity_type,
+        entity_id: input.entity_id,
+        action: input.action,
+        changes,
+      }));
+    if (!rows.length) return [];
+
+    const { data, error } = await this.db.raw.rpc("record_audit_events", {
+      p_brand_id: this.db.context.brand_id,
+      p_events: rows,
+    });
+
+    if (error) {
+      const input = inputs[0];
+      throw this.fail(
+        inputs.length === 1
+          ? `Failed to record ${input.entity_type} ${input.action}`
+          : `Failed to record ${rows.length} audit events`,
+        error
+      );
+    }
+
+    return parseRows(
+      AuditEventSchema,
+      data as unknown[],
+      this.validation,
+      this.errorContext()
+    );
+  }
+
+  // Audit events of the brand, newest first
+  async list(
+    filters: AuditEventFilters = {}
+  ): Promise<PaginatedResult<AuditEvent>> {
+    let query = this.db.raw
+      .from("audit_events")
+      .select("*")
+      .eq("brand_id", this.db.context.brand_id);
+    if (filters.entity_type) {
+      query = query.eq("entity_type", filters.entity_type);
+    }
+    if (filters.entity_id) query = query.eq("entity_id", filters.entity_id);
+    if (filters.actor_id) query = query.eq("actor_id", filters.actor_id);
+    if (filters.action) query = query.eq("action", filters.action);
+    if (filters.start) query = query.gte("created_at", filters.start);
+    if (filters.end) query = query.lte("created_at", filters.end);
+
+    const limit = resolveLimit(filters, 50);
+    const { data, error } = await applyKeyset(
+      query,
+      "created_at",
+      filters,
+      limit
+    );
+
+    if (error) {
+      throw this.fail("Failed to get audit events", error);
+    }
+
+    return toPaginatedResult(
+      parseRows(AuditEventSchema, data, this.validation, this.errorContext()),
+      "created_at",
+      limit
+    );
+  }
+
+  // Every recorded change of one customer, conversation or campaign, newest
+  // first
+  async getHistory(
+    entity_type: AuditEntityType,
+    entity_id: string,
+    options: PaginationOptions = {}
+  ): Promise<PaginatedResult<AuditEvent>> {
+    return this.list({ ...options, entity_type, entity_id });
+  }
+
+  // Every event of a customer and of their conversations, oldest first
+  // (exportCustomerData)
+  async getCustomerHistory(
+    customerId: string,
+    conversationIds: string[]
+  ): Promise<AuditEvent[]> {
+    const entities = [
+      `and(entity_type.eq.customer,entity_id.eq.${customerId})`,
+    ];
+    if (conversationIds.length) {
+      entities.push(
+        `and(entity_type.eq.conversation,entity_id.in.(${conversationIds.join(",")}))`
+      );
+    }
+
+    const { data, error } = await this.db.raw
+      .from("audit_events")
+      .select("*")
+      .eq("brand_id", this.db.context.brand_id)
+      .or(entities.join(","))
+      .order("created_at", { ascending: true })
+      .order("id", { ascending: true });
+
+    if (error) {
+      throw this.fail("Failed to get customer audit history", error);
+    }
+
+    return parseRows(
+      AuditEventSchema,
+      data,
+      this.validation,
+      this.errorContext()
+    );
+  }
+
+  // Encrypted fields must not reach the log as plaintext
+  private redact(
+    entity_type: AuditEntityType,
+    changes: Record<string, AuditFieldChange>
+  ): Record<string, AuditFieldChange> {
+    return Object.fromEntries(
+      Object.entries(changes).map(([field, change]) => [
+        field,
+        this.encryption.encrypts(
+          `${ENTITY_TABLES[entity_type]}.${field}` as EncryptedField
+        )
+          ? { from: REDACTED, to: REDACTED }
+          : change,
+      ])
+    );
+  }
+
+  private errorContext() {
+    return { table: "audit_events", brand_id: this.db.context.brand_id };
+  }
+
+  private fail(message: string, error: DatabaseError): DatabaseOperationError {
+    return toOperationError(message, error, this.errorContext());
+  }
+}
@@ -0,0 +1,172 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { createDatabaseClient, DatabaseClient } from "../index";
+import { createMemoryDatabase, MemoryDatabase } from "../client/memory";
+import { BrandId, getBrandConfig } from "../types/brand";
+import { NotFoundError } from "../types/errors";
+
+// The operations' brand filters, on one in-memory database shared by two
+// brands through the service role, which bypasses the RLS policies (see
+// brand-isolation.test.ts in schemas for those)
+
+describe("operations brand isolation", () => {
+  let memory: MemoryDatabase;
+  let gnymble: DatabaseClient;
+  let percytext: DatabaseClient;
+
+  const client = (brand_id: BrandId) =>
+    createDatabaseClient(
+      { brand_id, config: getBrandConfig(brand_id) },
+      { adapter: memory.client() }
+    );
+
+  beforeAll(async () => {
+    memory = await createMemoryDatabase();
+    gnymble = client("gnymble");
+    percytext = client("percytext");
+  });
+
+  afterAll(() => memory.close());
+
+  beforeEach(() => memory.reset());
+
+  it("does not read another brand's customers", async () => {
+    const customer = await gnymble.customers.create({
+      email: "ann@example.com",
+      phone: "(415) 555-2671",
+    });
+
+    expect(await percytext.customers.getById(customer.id)).toBeNull();
+    expect(await percytext.customers.getByEmail("ann@example.com")).toBeNull();
+    expect(await percytext.customers.getByPhone("4155552671")).toBeNull();
+    expect((await percytext.customers.getByStage("lead")).items).toEqual([]);
+    expect((await percytext.customers.search("ann")).items).toEqual([]);
+    expect(await gnymble.customers.getById(customer.id)).toMatchObject({
+      brand_id: "gnymble",
+    });
+  });
+
+  it("does not change another brand's customers", async () => {
+    const customer = await gnymble.customers.create({
+      email: "ann@example.com",
+    });
+
+    await expect(
+      percytext.customers.update(customer.id, { first_name: "Eve" })
+    ).rejects.toBeInstanceOf(NotFoundError);
+    await expect(
+      percytext.customers.progressStage(customer.id, "trial")
+    ).rejects.toBeInstanceOf(NotFoundError);
+    await expect(
+      percytext.customers.eraseCustomer(customer.id)
+    ).rejects.toBeInstanceOf(NotFoundError);
+
+    const unchanged = await gnymble.customers.getById(customer.id);
+    expect(unchanged?.stage).toBe("lead");
+    expect(unchanged?.first_name).toBeUndefined();
+    expect(unchanged?.erased_at).toBeUndefined();
+  });
+
+  it("keeps the same email separate per brand", async () => {
+    const own = await gnymble.customers.create({ email: "ann@example.com" });
+    const other = await percytext.customers.create({
+      email: "ann@example.com",
+    });
+
+    expect(other.id).not.toBe(own.id);
+    expect((await gnymble.customers.getByEmail("ann@example.com"))?.id).toBe(
+      own.id
+    );
+  });
+
+  it("does not reach another brand's conversations or messages", async () => {
+    const customer = await gnymble.customers.create({
+      email: "ann@example.com",
+    });
+    const conversation = await gnymble.conversations.create({
+      customer_id: customer.id,
+      customer_phone: "+14155552671",
+      brand_phone: "+14155550100",
+    });
+    await gnymble.conversations.addMessage({
+      conversation_id: conversation.id,
+      direction: "inbound",
+      content: "hello",
+    });
+
+    expect(await percytext.conversations.getById(conversation.id)).toBeNull();
+    expect((await percytext.conversations.getActive()).items).toEqual([]);
+    await expect(
+      percytext.conversations.addMessage({
+        conversation_id: conversation.id,
+        direction: "outbound",
+        content: "spoofed",
+      })
+    ).rejects.toBeInstanceOf(NotFoundError);
+    expect(
+      (await gnymble.conversations.getMessages(conversation.id)).items
+    ).toHaveLength(1);
+  });
+
+  it("keeps brand sessions to their brand's rows", async () => {
+    const customer = await gnymble.customers.create({
+      email: "ann@example.com",
+    });
+    const session = (brand_id: BrandId) =>
+      createDatabaseClient(
+        { brand_id, config: getBrandConfig(brand_id) },
+        { session: memory.config }
+      );
+
+    expect(
+      await session("percytext").customers.getById(customer.id)
+    ).toBeNull();
+    expect(
+      await session("gnymble").customers.getById(customer.id)
+    ).toMatchObject({ email: "ann@example.com" });
+  });
+
+  it("refuses to fall back to the anon client", () => {
+    expect(() =>
+      createDatabaseClient({
+        brand_id: "gnymble",
+        config: getBrandConfig("gnymble"),
+      })
+    ).toThrow(/brand session/);
+  });
+
+  it("lists only the brand's audit events", async () => {
+    await gnymble.customers.create({ email: "ann@example.com" });
+
+    expect((await gnymble.audit.list()).items).toHaveLength(1);
+    expect((await percytext.audit.list()).items).toEqual([]);
+  });
+
+  it("exports and erases with the customer's own audit history", async () => {
+    const customer = await gnymble.customers.create({
+      email: "ann@example.com",
+    });
+    const conversation = await gnymble.conversations.create({
+      customer_id: customer.id,
+      customer_phone: "+14155552671",
+      brand_phone: "+14155550100",
+    });
+    await gnymble.customers.create({ email: "bob@example.com" });
+    await percytext.customers.create({ email: "ann@example.com" });
+
+    const bundle = await gnymble.customers.exportCustomerData(customer.id);
+    expect(
+      bundle.audit.map(({ entity_id, action }) => [entity_id, action])
+    ).toEqual([
+      [customer.id, "create"],
+      [conversation.id, "create"],
+    ]);
+
+    await gnymble.customers.eraseCustomer(customer.id);
+    const { items } = await gnymble.audit.getHistory("customer", customer.id);
+    expect(items[0]).toMatchObject({ action: "erase", changes: {} });
+    expect(items[1].changes.email).toEqual({
+      from: "[erased]",
+      to: "[erased]",
+    });
+  });
+});
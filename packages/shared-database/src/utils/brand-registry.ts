@@ -0,0 +1,197 @@
+import { Database, getSupabaseClient } from "../client/supabase";
+import type { DatabaseAdapter, DatabaseError } from "../client/adapter";
+import {
+  BrandConfig,
+  BrandId,
+  BRAND_CONFIGS,
+  BrandResolutionError,
+  setBrandConfigs,
+} from "../types/brand";
+import { DatabaseOperationError, toOperationError } from "../types/errors";
+
+export interface BrandRegistryOptions {
+  // How long loaded configs are used before reloading (default 60s)
+  ttl_ms?: number;
+}
+
+const DEFAULT_TTL_MS = 60_000;
+
+type BrandRow = Database["public"]["Tables"]["brands"]["Row"];
+
+// Map a brands row to a BrandConfig
+function toBrandConfig(row: BrandRow): BrandConfig {
+  return {
+    id: row.id,
+    name: row.name,
+    domain: row.domain,
+    platform_domain: row.platform_domain,
+    primary_color: row.primary_color,
+    logo_url: row.logo_url,
+    support_email: row.support_email,
+    is_active: row.is_active,
+    ...(row.sms_compliance && { sms_compliance: row.sms_compliance }),
+    ...(row.encryption && { encryption: row.encryption }),
+  };
+}
+
+// Brand configs from the brands table, cached for ttl_ms.
+// Each load makes the configs current for getBrandConfig, the brand
+// resolvers and createDatabaseClient. When the database is unreachable the
+// last loaded configs (or BRAND_CONFIGS, before the first load) stay in use.
+export class BrandRegistry {
+  private configs: Record<BrandId, BrandConfig> | null = null;
+  private loadedAt = 0;
+  private pending: Promise<Record<BrandId, BrandConfig>> | null = null;
+  private ttlMs: number;
+
+  // Error from the last failed load, if the registry is running offline
+  lastError: Error | null = null;
+
+  constructor(
+    private client?: DatabaseAdapter,
+    options: BrandRegistryOptions = {}
+  ) {
+    this.ttlMs = options.ttl_ms ?? DEFAULT_TTL_MS;
+  }
+
+  // Reload brands from the database
+  async load(): Promise<Record<BrandId, BrandConfig>> {
+    if (!this.pending) {
+      this.pending = this.fetch().finally(() => {
+        this.pending = null;
+      });
+    }
+    return this.pending;
+  }
+
+  // Current configs without waiting for the database
+  snapshot(): Record<BrandId, BrandConfig> {
+    return this.configs || BRAND_CONFIGS;
+  }
+
+  // All brands, including inactive ones
+  async list(): Promise<BrandConfig[]> {
+    return Object.values(await this.fresh());
+  }
+
+  async get(brand_id: BrandId): Promise<BrandConfig | null> {
+    const configs = await this.fresh();
+    return Object.prototype.hasOwnProperty.call(configs, brand_id)
+      ? configs[brand_id]
+      : null;
+  }
+
+  // Config of an active brand; throws for unknown or inactive brands
+  async getActive(brand_id: BrandId): Promise<BrandConfig> {
+    const config = await this.get(brand_id);
+
+    if (!config) {
+      throw new BrandResolutionError(
+        "invalid_brand",
+        `Unknown brand: ${brand_id}`,
+        undefined,
+        brand_id
+      );
+    }
+    if (!config.is_active) {
+      throw new BrandResolutionError(
+        "inactive_brand",
+        `Brand is not active: ${brand_id}`,
+        undefined,
+        brand_id
+      );
+    }
+
+    return config;
+  }
+
+  // Activate or deactivate a brand at runtime
+  async setActive(brand_id: BrandId, is_active: boolean): Promise<BrandConfig> {
+    const { data, error } = await this.db()
+      .from("brands")
+      .update({ is_active })
+      .eq("id", brand_id)
+      .select()
+      .single();
+
+    if (error) {
+      throw this.fail("Failed to update brand", error);
+    }
+
+    await this.load();
+    return toBrandConfig(data);
+  }
+
+  // Add a brand or change an existing one (name, domains, logo, color, ...)
+  async save(config: BrandConfig): Promise<BrandConfig> {
+    const { data, error } = await this.db()
+      .from("brands")
+      .upsert({
+        ...config,
+        sms_compliance: config.sms_compliance ?? null,
+        encryption: config.encryption ?? null,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw this.fail("Failed to save brand", error);
+    }
+
+    await this.load();
+    return toBrandConfig(data);
+  }
+
+  // Force the next read to reload from the database
+  invalidate(): void {
+    this.loadedAt = 0;
+  }
+
+  private db(): DatabaseAdapter {
+    return this.client || getSupabaseClient();
+  }
+
+  private async fresh(): Promise<Record<BrandId, BrandConfig>> {
+    if (Date.now() - this.loadedAt >= this.ttlMs) {
+      return this.load();
+    }
+    return this.snapshot();
+  }
+
+  private async fetch(): Promise<Record<BrandId, BrandConfig>> {
+    try {
+      const { data, error } = await this.db().from("brands").select("*");
+
+      if (error) {
+        throw this.fail("Failed to load brands", error);
+      }
+
+      this.configs = Object.fromEntries(
+        (data as BrandRow[]).map((row) => [row.id, toBrandConfig(row)])
+      );
+      this.lastError = null;
+      setBrandConfigs(this.configs);
+    } catch (error) {
+      // Offline: keep serving the last known configs, retry after the TTL
+      this.lastError =
+        error instanceof Error ? error : new Error(String(error));
+    }
+
+    this.loadedAt = Date.now();
+    return this.snapshot();
+  }
+
+  private fail(message: string, error: DatabaseError): DatabaseOperationError {
+    return toOperationError(message, error, { table: "brands" });
+  }
+}
+
+let brandRegistry: BrandRegistry | null = null;
+
+// Shared registry backed by the Supabase client
+export function getBrandRegistry(): BrandRegistry {
+  if (!brandRegistry) {
+    brandRegistry = new BrandRegistry();
+  }
+  return brandRegistry;
+}
@@ -0,0 +1,74 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { createDatabaseClient, DatabaseClient } from "../index";
+import { createMemoryDatabase, MemoryDatabase } from "../client/memory";
+import { getBrandConfig } from "../types/brand";
+
+describe("campaign operations", () => {
+  let memory: MemoryDatabase;
+  let db: DatabaseClient;
+
+  const startConversation = async (email: string, customer_phone: string) => {
+    const customer = await db.customers.create({ email });
+    return db.conversations.create({
+      customer_id: customer.id,
+      customer_phone,
+      brand_phone: "+14155550100",
+    });
+  };
+
+  beforeAll(async () => {
+    memory = await createMemoryDatabase();
+    db = createDatabaseClient(
+      { brand_id: "gnymble", config: getBrandConfig("gnymble") },
+      { adapter: memory.client() }
+    );
+  });
+
+  afterAll(() => memory.close());
+
+  beforeEach(() => memory.reset());
+
+  it("counts only inbound messages after the campaign's first outbound as replies", async () => {
+    const campaign = await db.campaigns.create({ name: "Spring Promo" });
+    const replied = await startConversation("ann@example.com", "+14155552671");
+    const texted = await startConversation("bob@example.com", "+14155552672");
+
+    for (const [conversation, directions] of [
+      [replied, ["outbound", "inbound"]],
+      [texted, ["inbound", "outbound"]],
+    ] as const) {
+      await db.campaigns.linkConversation(campaign.id, conversation.id);
+      for (const direction of directions) {
+        await db.conversations.addMessage({
+          conversation_id: conversation.id,
+          direction,
+          content: direction === "inbound" ? "hi" : "20% off this week",
+        });
+      }
+    }
+
+    expect(await db.campaigns.getStats(campaign.id)).toMatchObject({
+      conversations_started: 2,
+      replies: 1,
+      reply_rate: 50,
+      total_messages: 4,
+    });
+  });
+
+  it("does not link conversations to another brand's campaign", async () => {
+    const conversation = await startConversation(
+      "ann@example.com",
+      "+14155552671"
+    );
+    const [campaign] = await memory.query<{ id: string }>(
+      "INSERT INTO campaigns (brand_id, name) VALUES ('percytext', 'Other') RETURNING id"
+    );
+
+    const { error } = await memory
+      .client()
+      .from("conversations")
+      .update({ campaign_id: campaign.id })
+      .eq("id", conversation.id);
+    expect(error).toMatchObject({ code: "23503" });
+  });
+});
@@ -0,0 +1,360 @@
+import { BrandAwareSupabase } from "../client/supabase";
+import type { DatabaseError } from "../client/adapter";
+import {
+  Campaign,
+  CampaignSchema,
+  CreateCampaign,
+  CreateCampaignSchema,
+  UpdateCampaign,
+  UpdateCampaignSchema,
+  CampaignStatus,
+  CampaignStats,
+  canTransitionCampaign,
+} from "../types/campaign";
+import { Conversation, ConversationSchema } from "../types/conversation";
+import { toE164 } from "../types/phone";
+import { PaginationOptions, PaginatedResult } from "../types/pagination";
+import {
+  DatabaseOperationError,
+  NotFoundError,
+  ValidationError,
+  toOperationError,
+} from "../types/errors";
+import { applyKeyset, resolveLimit, toPaginatedResult } from "./pagination";
+import {
+  ValidationOptions,
+  parseInput,
+  parseRow,
+  parseRows,
+} from "./validation";
+
+export class CampaignOperations {
+  constructor(
+    private db: BrandAwareSupabase,
+    private validation: ValidationOptions = {}
+  ) {}
+
+  // Create a new campaign (always starts as draft)
+  async create(data: CreateCampaign): Promise<Campaign> {
+    const input = parseInput(
+      CreateCampaignSchema,
+      data,
+      this.validation,
+      "campaign",
+      this.errorContext()
+    );
+    const campaignData = {
+      ...input,
+      brand_phone: input.brand_phone
+        ? toE164(input.brand_phone)
+        : input.brand_phone,
+      brand_id: this.db.context.brand_id,
+      status: "draft" as CampaignStatus,
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+      created_by: this.db.context.user_id,
+    };
+
+    const { data: campaign, error } = await this.db.raw
+      .from("campaigns")
+      .insert(campaignData)
+      .select()
+      .single();
+
+    if (error) {
+      throw this.fail("Failed to create campaign", error);
+    }
+
+    return this.toCampaign(campaign);
+  }
+
+  // Get campaign by ID
+  async getById(id: string): Promise<Campaign | null> {
+    const { data, error } = await this.db.campaigns.eq("id", id).single();
+
+    if (error) {
+      if (error.code === "PGRST116") return null; // Not found
+      throw this.fail("Failed to get campaign", error);
+    }
+
+    return this.toCampaign(data);
+  }
+
+  // Get campaigns, optionally filtered by status, newest first
+  async list(
+    status?: CampaignStatus,
+    options: PaginationOptions = {}
+  ): Promise<PaginatedResult<Campaign>> {
+    const limit = resolveLimit(options, 50);
+    let query = this.db.campaigns;
+
+    if (status) {
+      query = query.eq("status", status);
+    }
+
+    const { data, error } = await applyKeyset(
+      query,
+      "created_at",
+      options,
+      limit
+    );
+
+    if (error) {
+      throw this.fail("Failed to get campaigns", error);
+    }
+
+    return toPaginatedResult(this.toCampaigns(data), "created_at", limit);
+  }
+
+  // Update campaign details
+  async update(id: string, data: UpdateCampaign): Promise<Campaign> {
+    const input = parseInput(
+      UpdateCampaignSchema,
+      data,
+      this.validation,
+      "campaign update",
+      this.errorContext()
+    );
+    const updateData = {
+      ...input,
+      brand_phone: input.brand_phone
+        ? toE164(input.brand_phone)
+        : input.brand_phone,
+      updated_at: new Date().toISOString(),
+    };
+
+    const { data: campaign, error } = await this.db.raw
+      .from("campaigns")
+      .update(updateData)
+      .eq("id", id)
+      .eq("brand_id", this.db.context.brand_id)
+      .select()
+      .single();
+
+    if (error) {
+      throw this.fail("Failed to update campaign", error);
+    }
+
+    return this.toCampaign(campaign);
+  }
+
+  // Move campaign through draft → active ⇄ paused → finished
+  async setStatus(id: string, status: CampaignStatus): Promise<Campaign> {
+    const campaign = await this.getById(id);
+    if (!campaign) {
+      throw new NotFoundError("Campaign not found", {
+        table: "campaigns",
+        brand_id: this.db.context.brand_id,
+      });
+    }
+
+    if (campaign.status === status) {
+      return campaign;
+    }
+
+    if (!canTransitionCampaign(campaign.status, status)) {
+      throw new ValidationError(
+        `Invalid campaign status change: ${campaign.status} → ${status}`,
+        {
+          table: "campaigns",
+          column: "status",
+          brand_id: this.db.context.brand_id,
+        }
+      );
+    }
+
+    const now = new Date().toISOString();
+    const updateData: Record<string, unknown> = {
+      status,
+      updated_at: now,
+    };
+
+    // Set status-specific timestamps
+    switch (status) {
+      case "active":
+        if (!campaign.started_at) updateData.started_at = now;
+        updateData.paused_at = null;
+        break;
+      case "paused":
+        updateData.paused_at = now;
+        break;
+      case "finished":
+        updateData.finished_at = now;
+        break;
+    }
+
+    const { data, error } = await this.db.raw
+      .from("campaigns")
+      .update(updateData)
+      .eq("id", id)
+      .eq("brand_id", this.db.context.brand_id)
+      .eq("status", campaign.status) // Guard against concurrent changes
+      .select()
+      .single();
+
+    if (error) {
+      throw this.fail("Failed to update campaign status", error);
+    }
+
+    return this.toCampaign(data);
+  }
+
+  // Link a conversation to a campaign
+  async linkConversation(
+    campaignId: string,
+    conversationId: string
+  ): Promise<Conversation> {
+    const campaign = await this.getById(campaignId);
+    if (!campaign) {
+      throw new NotFoundError("Campaign not found", {
+        table: "campaigns",
+        brand_id: this.db.context.brand_id,
+      });
+    }
+
+    const { data, error } = await this.db.raw
+      .from("conversations")
+      .update({
+        campaign_id: campaign.id,
+        campaign_name: campaign.name,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", conversationId)
+      .eq("brand_id", this.db.context.brand_id)
+      .select()
+      .single();
+
+    if (error) {
+      throw this.fail("Failed to link conversation", error, "conversations");
+    }
+
+    return this.toConversation(data);
+  }
+
+  // Remove a conversation from its campaign
+  async unlinkConversation(conversationId: string): Promise<Conversation> {
+    const { data, error } = await this.db.raw
+      .from("conversations")
+      .update({
+        campaign_id: null,
+        campaign_name: null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", conversationId)
+      .eq("brand_id", this.db.context.brand_id)
+      .select()
+      .single();
+
+    if (error) {
+      throw this.fail("Failed to unlink conversation", error, "conversations");
+    }
+
+    return this.toConversation(data);
+  }
+
+  // Get conversations for a campaign, newest first
+  async getConversations(
+    campaignId: string,
+    options: PaginationOptions = {}
+  ): Promise<PaginatedResult<Conversation>> {
+    const limit = resolveLimit(options, 50);
+    const { data, error } = await applyKeyset(
+      this.db.conversations.eq("campaign_id", campaignId),
+      "created_at",
+      options,
+      limit
+    );
+
+    if (error) {
+      throw this.fail(
+        "Failed to get conversations for campaign",
+        error,
+        "conversations"
+      );
+    }
+
+    return toPaginatedResult(
+      parseRows(
+        ConversationSchema,
+        data,
+        this.validation,
+        this.errorContext("conversations")
+      ),
+      "created_at",
+      limit
+    );
+  }
+
+  // Get stats for a campaign from its conversations' counters
+  async getStats(campaignId: string): Promise<CampaignStats> {
+    const { data, error } = await this.db.raw
+      .from("campaign_stats")
+      .select("*")
+      .eq("campaign_id", campaignId)
+      .eq("brand_id", this.db.context.brand_id)
+      .maybeSingle();
+
+    if (error) {
+      throw this.fail("Failed to get campaign stats", error);
+    }
+
+    // Counts of the campaign_stats view; no row before the first conversation
+    const stats = data as Pick<
+      CampaignStats,
+      "conversations_started" | "replies" | "opt_outs" | "total_messages"
+    > | null;
+    const conversations_started = stats?.conversations_started || 0;
+    const replies = stats?.replies || 0;
+    const opt_outs = stats?.opt_outs || 0;
+
+    return {
+      campaign_id: campaignId,
+      conversations_started,
+      replies,
+      opt_outs,
+      total_messages: stats?.total_messages || 0,
+      reply_rate:
+        conversations_started > 0 ? (replies / conversations_started) * 100 : 0,
+      opt_out_rate:
+        conversations_started > 0
+          ? (opt_outs / conversations_started) * 100
+          : 0,
+    };
+  }
+
+  // Database rows to domain types (nulls dropped, checked against the schema)
+  private toCampaign(row: unknown): Campaign {
+    return parseRow(CampaignSchema, row, this.validation, this.errorContext());
+  }
+
+  private toCampaigns(rows: unknown[]): Campaign[] {
+    return parseRows(
+      CampaignSchema,
+      rows,
+      this.validation,
+      this.errorContext()
+    );
+  }
+
+  private toConversation(row: unknown): Conversation {
+    return parseRow(
+      ConversationSchema,
+      row,
+      this.validation,
+      this.errorContext("conversations")
+    );
+  }
+
+  private errorContext(table = "campaigns") {
+    return { table, brand_id: this.db.context.brand_id };
+  }
+
+  // Typed error for a failed query, tagged with the table and brand
+  private fail(
+    message: string,
+    error: DatabaseError,
+    table = "campaigns"
+  ): DatabaseOperationError {
+    return toOperationError(message, error, this.errorContext(table));
+  }
+}
@@ -0,0 +1,120 @@
+import type { BrandConfig } from "../types/brand";
+import type { Conversation, Message } from "../types/conversation";
+import { Customer, getCustomerDisplayName } from "../types/customer";
+
+// CSV columns of a conversation export, one row per message (or one with
+// empty message columns for a conversation without messages)
+export const CONVERSATION_EXPORT_COLUMNS = [
+  "conversation_id",
+  "conversation_status",
+  "campaign_id",
+  "campaign_name",
+  "conversation_tags",
+  "customer_id",
+  "customer_email",
+  "customer_first_name",
+  "customer_last_name",
+  "customer_phone",
+  "brand_phone",
+  "message_id",
+  "direction",
+  "content",
+  "media_urls",
+  "status",
+  "error_code",
+  "sent_at",
+  "delivered_at",
+] as const;
+
+// RFC 4180: quote fields containing a comma, quote or line break
+function csvField(value: string | number | null | undefined): string {
+  const text = value == null ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function csvLine(values: (string | number | null | undefined)[]) {
+  return values.map(csvField).join(",") + "\r\n";
+}
+
+export function toCsvRow(
+  conversation: Conversation,
+  customer: Customer,
+  message: Message | null
+): string {
+  return csvLine([
+    conversation.id,
+    conversation.status,
+    conversation.campaign_id,
+    conversation.campaign_name,
+    conversation.tags?.join(" "),
+    customer.id,
+    customer.email,
+    customer.first_name,
+    customer.last_name,
+    conversation.customer_phone,
+    conversation.brand_phone,
+    message?.id,
+    message?.direction,
+    message?.content,
+    message?.media_urls?.join(" "),
+    message?.status,
+    message?.error_code,
+    message?.sent_at,
+    message?.delivered_at,
+  ]);
+}
+
+function customerLabel(customer: Customer): string {
+  const name = getCustomerDisplayName(customer);
+  return name === customer.email ? name : `${name} <${customer.email}>`;
+}
+
+// Header of a conversation's transcript: brand, customer and conversation
+export function transcriptHeader(
+  brand: BrandConfig,
+  conversation: Conversation,
+  customer: Customer,
+  exportedAt: string
+): string {
+  const lines = [
+    `${brand.name} conversation transcript`,
+    `Brand: ${brand.name} (${brand.domain}), ${conversation.brand_phone}`,
+    customer.erased_at
+      ? `Customer: erased ${customer.erased_at}`
+      : `Customer: ${customerLabel(customer)}` +
+        (conversation.customer_phone ? `, ${conversation.customer_phone}` : ""),
+    `Conversation: ${conversation.id} (${conversation.status})`,
+  ];
+  if (conversation.campaign_name) {
+    lines.push(`Campaign: ${conversation.campaign_name}`);
+  }
+  if (conversation.tags?.length) {
+    lines.push(`Tags: ${conversation.tags.join(", ")}`);
+  }
+  if (conversation.opted_out_at) {
+    lines.push(`Opted out: ${conversation.opted_out_at}`);
+  }
+  lines.push(`Exported: ${exportedAt}`, "");
+  return lines.join("\n") + "\n";
+}
+
+// One message of a transcript. Outbound messages show their delivery status;
+// continuation lines of multi-line content are indented.
+export function transcriptMessage(
+  brand: BrandConfig,
+  message: Message
+): string {
+  const sender =
+    message.direction === "inbound"
+      ? "Customer"
+      : `${brand.name} [${message.status ?? "pending"}${
+          message.error_code ? ` ${message.error_code}` : ""
+        }]`;
+  const lines = [
+    `${message.sent_at}  ${sender}: ${message.content.replace(/\r?\n/g, "\n    ")}`,
+  ];
+  for (const url of message.media_urls ?? []) {
+    lines.push(`    Media: ${url}`);
+  }
+  return lines.join("\n") + "\n";
+}
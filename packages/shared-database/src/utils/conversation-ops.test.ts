@@ -0,0 +1,108 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { createDatabaseClient, DatabaseClient } from "../index";
+import { createMemoryDatabase, MemoryDatabase } from "../client/memory";
+import { getBrandConfig } from "../types/brand";
+
+describe("conversation operations", () => {
+  let memory: MemoryDatabase;
+  let db: DatabaseClient;
+
+  beforeAll(async () => {
+    memory = await createMemoryDatabase();
+    db = createDatabaseClient(
+      { brand_id: "gnymble", config: getBrandConfig("gnymble") },
+      { adapter: memory.client() }
+    );
+  });
+
+  afterAll(() => memory.close());
+
+  beforeEach(() => memory.reset());
+
+  it("keeps threading inbound messages after a STOP", async () => {
+    const customer = await db.customers.create({ email: "ann@example.com" });
+    const conversation = await db.conversations.findOrCreate(
+      customer.id,
+      "(415) 555-2671",
+      "+14155550100"
+    );
+
+    const stop = await db.conversations.receiveMessage({
+      conversation_id: conversation.id,
+      content: "STOP",
+    });
+    expect(stop.compliance?.action).toBe("stop");
+
+    const found = await db.conversations.findOrCreate(
+      customer.id,
+      "+14155552671",
+      "(415) 555-0100"
+    );
+    expect(found).toMatchObject({ id: conversation.id, status: "archived" });
+    expect(found.opted_out_at).toBeDefined();
+
+    const next = await db.conversations.receiveMessage({
+      conversation_id: found.id,
+      content: "START",
+    });
+    expect(next.compliance?.action).toBe("start");
+    expect(
+      await db.conversations.getByPhones("4155552671", "4155550100")
+    ).toMatchObject({ id: conversation.id, status: "active" });
+  });
+
+  it("exports every conversation in the range once, with or without messages", async () => {
+    const start = new Date(Date.now() - 60_000).toISOString();
+    const conversations = [];
+    for (const [i, email] of ["a", "b", "c"].entries()) {
+      const customer = await db.customers.create({
+        email: `${email}@example.com`,
+      });
+      conversations.push(
+        await db.conversations.create({
+          customer_id: customer.id,
+          customer_phone: `+1415555267${i}`,
+          brand_phone: "+14155550100",
+        })
+      );
+    }
+    for (const content of ["one", "two", "three"]) {
+      await db.conversations.addMessage({
+        conversation_id: conversations[1].id,
+        direction: "outbound",
+        content,
+      });
+    }
+
+    const lines: string[] = [];
+    for await (const chunk of db.conversations.exportConversations({
+      format: "ndjson",
+      start,
+      batch_size: 2,
+    })) {
+      lines.push(chunk);
+    }
+    const records = lines.map((line) => JSON.parse(line));
+
+    expect(
+      records
+        .filter((record) => record.type === "conversation")
+        .map((record) => record.conversation.id)
+    ).toEqual(conversations.map((conversation) => conversation.id));
+    expect(
+      records
+        .filter((record) => record.type === "message")
+        .map((record) => record.message.content)
+    ).toEqual(["one", "two", "three"]);
+
+    let csv = "";
+    for await (const chunk of db.conversations.exportConversations({
+      start,
+      batch_size: 2,
+    })) {
+      csv += chunk;
+    }
+    // Header, a row for each empty conversation and one per message
+    expect(csv.trim().split("\r\n")).toHaveLength(6);
+  });
+});
@@ -1,20 +1,110 @@
-import { BrandAwareSupabase } from "../client/supabase";
+import { BrandAwareSupabase, Database } from "../client/supabase";
+import type { DatabaseError } from "../client/adapter";
 import {
   Conversation,
+  ConversationSchema,
   CreateConversation,
+  CreateConversationSchema,
   Message,
+  MessageSchema,
   CreateMessage,
+  CreateMessageSchema,
   ConversationStatus,
-  MessageDirection,
+  MessageStatus,
+  MessageStatusEvent,
+  MessageStatusEventSchema,
+  MessageStatusOutcome,
+  MessageStatusUpdate,
+  ConversationSearchResult,
 } from "../types/conversation";
+import { Customer, CustomerSchema } from "../types/customer";
+import { ConversationExportOptions } from "../types/conversation-export";
+import { PaginationOptions, PaginatedResult } from "../types/pagination";
+import {
+  AnalyticsInterval,
+  AnalyticsRange,
+  AnalyticsSeriesOptions,
+  ConversationAnalytics,
+  ConversationAnalyticsGroupBy,
+  ConversationAnalyticsPoint,
+} from "../types/analytics";
+import { normalizePhoneNumber, toE164 } from "../types/phone";
+import {
+  DatabaseOperationError,
+  NotFoundError,
+  toOperationError,
+} from "../types/errors";
+import {
+  applyKeyset,
+  quote,
+  resolveLimit,
+  resolveOffset,
+  toOffsetPaginatedResult,
+  toPaginatedResult,
+} from "./pagination";
+import {
+  ComplianceResult,
+  getComplianceReply,
+  getSmsComplianceConfig,
+  matchComplianceKeyword,
+} from "../types/compliance";
+import {
+  ValidationOptions,
+  parseInput,
+  parseRow,
+  parseRows,
+} from "./validation";
+import { FieldEncryption } from "./field-encryption";
+import {
+  CONVERSATION_EXPORT_COLUMNS,
+  csvLine,
+  toCsvRow,
+  transcriptHeader,
+  transcriptMessage,
+} from "./conversation-export";
+
+type Tables = Database["public"]["Tables"];
+
+// Status event row with the brand check selected by getMessageStatusHistory
+type MessageStatusEventWithMessageRow =
+  Tables["message_status_events"]["Row"] & {
+    messages: unknown;
+  };
+
+// Conversation row with the customer columns selected by getWithCustomer
+type ConversationWithCustomerRow = Tables["conversations"]["Row"] & {
+  customers: Pick<
+    Tables["customers"]["Row"],
+    "id" | "email" | "first_name" | "last_name" | "stage" | "source"
+  >;
+};
+
+// Result of receiving an inbound message
+export interface InboundMessageResult {
+  message: Message;
+  compliance: ComplianceResult | null;
+}
 
 export class ConversationOperations {
-  constructor(private db: BrandAwareSupabase) {}
+  constructor(
+    private db: BrandAwareSupabase,
+    private validation: ValidationOptions = {},
+    private encryption: FieldEncryption = FieldEncryption.forBrand(db.context)
+  ) {}
 
   // Create a new conversation
   async create(data: CreateConversation): Promise<Conversation> {
+    const input = parseInput(
+      CreateConversationSchema,
+      data,
+      this.validation,
+      "conversation",
+      this.errorContext()
+    );
     const conversationData = {
-      ...data,
+      ...input,
+      customer_phone: toE164(input.customer_phone),
+      brand_phone: toE164(input.brand_phone),
       brand_id: this.db.context.brand_id,
       status: "active" as ConversationStatus,
       message_count: 0,
@@ -29,10 +119,10 @@ export class ConversationOperations {
       .single();
 
     if (error) {
-      throw new Error(`Failed to create conversation: ${error.message}`);
+      throw this.fail("Failed to create conversation", error);
     }
 
-    return conversation as Conversation;
+    return this.toConversation(conversation);
   }
 
   // Get conversation by ID
@@ -41,56 +131,65 @@ export class ConversationOperations {
 
     if (error) {
       if (error.code === "PGRST116") return null; // Not found
-      throw new Error(`Failed to get conversation: ${error.message}`);
+      throw this.fail("Failed to get conversation", error);
     }
 
-    return data as Conversation;
+    return this.toConversation(data);
   }
 
-  // Get conversations for a customer
-  async getByCustomer(customerId: string): Promise<Conversation[]> {
-    const { data, error } = await this.db.conversations
-      .eq("customer_id", customerId)
-      .order("created_at", { ascending: false });
+  // Get conversations for a customer, newest first
+  async getByCustomer(
+    customerId: string,
+    options: PaginationOptions = {}
+  ): Promise<PaginatedResult<Conversation>> {
+    const limit = resolveLimit(options, 50);
+    const { data, error } = await applyKeyset(
+      this.db.conversations.eq("customer_id", customerId),
+      "created_at",
+      options,
+      limit
+    );
 
     if (error) {
-      throw new Error(
-        `Failed to get conversations for customer: ${error.message}`
-      );
+      throw this.fail("Failed to get conversations for customer", error);
     }
 
-    return data as Conversation[];
+    return toPaginatedResult(this.toConversations(data), "created_at", limit);
   }
 
-  // Get conversation by phone numbers
+  // Get conversation by phone numbers (any format, matched as E.164). A pair
+  // of numbers has one conversation in any status, including opted out.
   async getByPhones(
     customerPhone: string,
     brandPhone: string
   ): Promise<Conversation | null> {
+    const normalizedCustomerPhone = normalizePhoneNumber(customerPhone);
+    const normalizedBrandPhone = normalizePhoneNumber(brandPhone);
+    if (!normalizedCustomerPhone || !normalizedBrandPhone) return null;
+
     const { data, error } = await this.db.conversations
-      .eq("customer_phone", customerPhone)
-      .eq("brand_phone", brandPhone)
-      .eq("status", "active")
+      .eq("customer_phone", normalizedCustomerPhone)
+      .eq("brand_phone", normalizedBrandPhone)
       .single();
 
     if (error) {
       if (error.code === "PGRST116") return null; // Not found
-      throw new Error(`Failed to get conversation by phones: ${error.message}`);
+      throw this.fail("Failed to get conversation by phones", error);
     }
 
-    return data as Conversation;
+    return this.toConversation(data);
   }
 
-  // Find or create conversation
+  // Find or create conversation. The existing conversation is returned in
+  // any status, so an opted-out one stays opted out until a START.
   async findOrCreate(
     customerId: string,
     customerPhone: string,
     brandPhone: string,
     campaignData?: { campaign_id?: string; campaign_name?: string }
   ): Promise<Conversation> {
-    // Try to find existing active conversation
     const existing = await this.getByPhones(customerPhone, brandPhone);
-    if (existing && existing.status === "active") {
+    if (existing) {
       return existing;
     }
 
@@ -103,68 +202,179 @@ export class ConversationOperations {
     });
   }
 
-  // Add message to conversation
+  // Add message to conversation.
+  // Inbound STOP/START keywords are applied to the conversation automatically.
   async addMessage(data: CreateMessage): Promise<Message> {
-    const now = new Date().toISOString();
+    const message = await this.insertMessage(data);
 
-    const messageData = {
-      sent_at: now,
-      created_at: now,
-      ...data,
-    };
+    if (data.direction === "inbound") {
+      await this.applyComplianceKeyword(message);
+    }
 
-    // Start transaction-like operation
-    const { data: message, error: messageError } = await this.db.raw
-      .from("messages")
-      .insert(messageData)
-      .select()
-      .single();
+    return message;
+  }
+
+  // Receive an inbound message and return any compliance reply to send back
+  async receiveMessage(
+    data: Omit<CreateMessage, "direction">
+  ): Promise<InboundMessageResult> {
+    const message = await this.insertMessage({ ...data, direction: "inbound" });
+    const compliance = await this.applyComplianceKeyword(message);
+
+    return { message, compliance };
+  }
 
-    if (messageError) {
-      throw new Error(`Failed to create message: ${messageError.message}`);
+  // Process STOP/START/HELP keywords using the brand's compliance config
+  private async applyComplianceKeyword(
+    message: Message
+  ): Promise<ComplianceResult | null> {
+    const match = matchComplianceKeyword(
+      message.content,
+      getSmsComplianceConfig(this.db.context.config)
+    );
+    if (!match) return null;
+
+    const conversation = await this.getById(message.conversation_id);
+    if (!conversation) {
+      throw new NotFoundError("Conversation not found", {
+        table: "conversations",
+        brand_id: this.db.context.brand_id,
+      });
     }
 
-    // Update conversation stats
-    const updateData: any = {
-      last_message_at: now,
-      updated_at: now,
+    switch (match.action) {
+      case "stop":
+        if (!conversation.opted_out_at) {
+          await this.optOut(conversation.id, `Keyword: ${match.keyword}`);
+        }
+        break;
+      case "start":
+        if (conversation.opted_out_at) {
+          await this.optIn(conversation.id);
+        }
+        break;
+    }
+
+    return {
+      ...match,
+      reply: getComplianceReply(match.action, this.db.context.config),
     };
+  }
 
-    if (data.direction === "inbound") {
-      updateData.last_inbound_at = now;
-    } else {
-      updateData.last_outbound_at = now;
+  // Insert message and update conversation stats in one transaction.
+  // The add_message function locks the conversation row, so concurrent
+  // messages on the same conversation are counted correctly. Content and
+  // media URLs are encrypted here when the brand's policy requires it.
+  private async insertMessage(data: CreateMessage): Promise<Message> {
+    const input = parseInput(
+      CreateMessageSchema,
+      data,
+      this.validation,
+      "message",
+      this.errorContext("messages")
+    );
+    const stored = this.encryption.encryptRow("messages", {
+      content: input.content,
+      media_urls: input.media_urls ?? null,
+    });
+    const { data: message, error } = await this.db.raw.rpc("add_message", {
+      p_brand_id: this.db.context.brand_id,
+      p_conversation_id: input.conversation_id,
+      p_direction: input.direction,
+      p_content: stored.content,
+      p_media_urls: stored.media_urls,
+      p_external_id: input.external_id ?? null,
+      p_metadata: input.metadata ?? null,
+      p_sent_at: new Date().toISOString(),
+    });
+
+    if (error) {
+      throw this.fail("Failed to create message", error, "messages");
     }
 
-    const { error: conversationError } = await this.db.raw
-      .from("conversations")
-      .update(updateData)
-      .eq("id", data.conversation_id)
-      .eq("brand_id", this.db.context.brand_id);
+    return this.toMessage(message);
+  }
 
-    if (conversationError) {
-      throw new Error(
-        `Failed to update conversation stats: ${conversationError.message}`
-      );
+  // Get messages for conversation, newest first; next_cursor loads older ones
+  async getMessages(
+    conversationId: string,
+    options: PaginationOptions = {}
+  ): Promise<PaginatedResult<Message>> {
+    const limit = resolveLimit(options, 50);
+    const { data, error } = await applyKeyset(
+      this.db.raw
+        .from("messages")
+        .select("*")
+        .eq("conversation_id", conversationId),
+      "sent_at",
+      options,
+      limit
+    );
+
+    if (error) {
+      throw this.fail("Failed to get messages", error, "messages");
+    }
+
+    return toPaginatedResult(this.toMessages(data), "sent_at", limit);
+  }
+
+  // Apply a provider delivery callback by external_id.
+  // Duplicate and out-of-order callbacks are recorded in the status history
+  // but leave the message unchanged; an unknown external_id is not an error.
+  async updateMessageStatus(
+    externalId: string,
+    status: MessageStatus,
+    timestamp: string = new Date().toISOString(),
+    errorCode?: string
+  ): Promise<MessageStatusUpdate> {
+    const { data, error } = await this.db.raw.rpc("update_message_status", {
+      p_brand_id: this.db.context.brand_id,
+      p_external_id: externalId,
+      p_status: status,
+      p_occurred_at: timestamp,
+      p_error_code: errorCode ?? null,
+    });
+
+    if (error) {
+      throw this.fail("Failed to update message status", error, "messages");
     }
 
-    return message as Message;
+    const update =
+      data as Database["public"]["Functions"]["update_message_status"]["Returns"];
+    return {
+      outcome: update.outcome as MessageStatusOutcome,
+      message: update.message ? this.toMessage(update.message) : null,
+      previous_status: update.previous_status as MessageStatus | null,
+    };
   }
 
-  // Get messages for conversation
-  async getMessages(conversationId: string, limit = 50): Promise<Message[]> {
+  // Get delivery status history for a message, oldest first
+  async getMessageStatusHistory(
+    messageId: string
+  ): Promise<MessageStatusEvent[]> {
     const { data, error } = await this.db.raw
-      .from("messages")
-      .select("*")
-      .eq("conversation_id", conversationId)
-      .order("sent_at", { ascending: false })
-      .limit(limit);
+      .from("message_status_events")
+      .select("*, messages!inner(conversations!inner(brand_id))")
+      .eq("message_id", messageId)
+      .eq("messages.conversations.brand_id", this.db.context.brand_id)
+      .order("created_at", { ascending: true });
 
     if (error) {
-      throw new Error(`Failed to get messages: ${error.message}`);
+      throw this.fail(
+        "Failed to get message status history",
+        error,
+        "message_status_events"
+      );
     }
 
-    return data as Message[];
+    return parseRows(
+      MessageStatusEventSchema,
+      (data as MessageStatusEventWithMessageRow[]).map(
+        ({ messages: _messages, ...event }) => event
+      ),
+      this.validation,
+      this.errorContext("message_status_events")
+    );
   }
 
   // Update conversation status
@@ -184,10 +394,10 @@ export class ConversationOperations {
       .single();
 
     if (error) {
-      throw new Error(`Failed to update conversation status: ${error.message}`);
+      throw this.fail("Failed to update conversation status", error);
     }
 
-    return data as Conversation;
+    return this.toConversation(data);
   }
 
   // Opt out conversation
@@ -208,39 +418,90 @@ export class ConversationOperations {
       .single();
 
     if (error) {
-      throw new Error(`Failed to opt out conversation: ${error.message}`);
+      throw this.fail("Failed to opt out conversation", error);
     }
 
-    return data as Conversation;
+    return this.toConversation(data);
   }
 
-  // Get active conversations
-  async getActive(limit = 50): Promise<Conversation[]> {
-    const { data, error } = await this.db.conversations
-      .eq("status", "active")
-      .is("opted_out_at", null)
-      .order("last_message_at", { ascending: false })
-      .limit(limit);
+  // Reverse an opt-out (e.g. after a START keyword)
+  async optIn(id: string): Promise<Conversation> {
+    const { data, error } = await this.db.raw
+      .from("conversations")
+      .update({
+        opted_out_at: null,
+        opt_out_reason: null,
+        status: "active" as ConversationStatus,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", id)
+      .eq("brand_id", this.db.context.brand_id)
+      .select()
+      .single();
 
     if (error) {
-      throw new Error(`Failed to get active conversations: ${error.message}`);
+      throw this.fail("Failed to opt in conversation", error);
     }
 
-    return data as Conversation[];
+    return this.toConversation(data);
   }
 
-  // Search conversations
-  async search(query: string, limit = 20): Promise<Conversation[]> {
-    const { data, error } = await this.db.conversations
-      .or(`customer_phone.ilike.%${query}%, campaign_name.ilike.%${query}%`)
-      .order("last_message_at", { ascending: false })
-      .limit(limit);
+  // Get active conversations, most recent message first
+  async getActive(
+    options: PaginationOptions = {}
+  ): Promise<PaginatedResult<Conversation>> {
+    const limit = resolveLimit(options, 50);
+    const { data, error } = await applyKeyset(
+      this.db.conversations.eq("status", "active").is("opted_out_at", null),
+      "last_message_at",
+      options,
+      limit,
+      true
+    );
+
+    if (error) {
+      throw this.fail("Failed to get active conversations", error);
+    }
+
+    return toPaginatedResult(
+      this.toConversations(data),
+      "last_message_at",
+      limit
+    );
+  }
+
+  // Search conversations by customer phone, campaign name or customer
+  // name/email, most relevant first. Throws an EncryptionError for brands
+  // that encrypt customer names.
+  async search(
+    query: string,
+    options: PaginationOptions = {}
+  ): Promise<PaginatedResult<ConversationSearchResult>> {
+    this.encryption.assertSearchable("Conversation search", [
+      "customers.first_name",
+      "customers.last_name",
+    ]);
+
+    const limit = resolveLimit(options, 20);
+    const offset = resolveOffset(options);
+
+    const { data, error } = await this.db.raw.rpc("search_conversations", {
+      p_brand_id: this.db.context.brand_id,
+      p_query: query,
+      p_limit: limit + 1,
+      p_offset: offset,
+    });
 
     if (error) {
-      throw new Error(`Failed to search conversations: ${error.message}`);
+      throw this.fail("Failed to search conversations", error);
     }
 
-    return data as Conversation[];
+    const results = (data as ConversationSearchResult[]).map((result) => ({
+      ...result,
+      conversation: this.toConversation(result.conversation),
+    }));
+
+    return toOffsetPaginatedResult(results, offset, limit);
   }
 
   // Get conversation with customer details
@@ -265,57 +526,311 @@ export class ConversationOperations {
       .single();
 
     if (error) {
-      throw new Error(
-        `Failed to get conversation with customer: ${error.message}`
-      );
+      throw this.fail("Failed to get conversation with customer", error);
     }
 
-    return data;
+    const row = data as ConversationWithCustomerRow;
+    return {
+      ...row,
+      customers: this.encryption.decryptRow("customers", row.customers),
+    };
+  }
+
+  // Stream conversations with their messages, oldest first, as CSV, NDJSON
+  // or readable transcripts (for customers and auditors). Rows are read
+  // batch_size at a time, keyset-paged so rows written during the export are
+  // neither skipped nor repeated, and memory use does not grow with the
+  // export; pipe the chunks to a file or response, e.g. with Readable.from.
+  async *exportConversations(
+    options: ConversationExportOptions = {}
+  ): AsyncGenerator<string> {
+    const format = options.format ?? "csv";
+    const batchSize = options.batch_size ?? 500;
+    const brand = this.db.context.config;
+    const exportedAt = new Date().toISOString();
+
+    if (format === "csv") yield csvLine([...CONVERSATION_EXPORT_COLUMNS]);
+
+    let cursor: string | null = null;
+    do {
+      const page = await this.getExportConversations(
+        options,
+        cursor,
+        batchSize
+      );
+      const customers = await this.getExportCustomers(page.items);
+
+      for (const conversation of page.items) {
+        const customer = customers.get(conversation.customer_id)!;
+        if (format === "ndjson") {
+          yield JSON.stringify({
+            type: "conversation",
+            conversation,
+            customer,
+          }) + "\n";
+        } else if (format === "transcript") {
+          yield transcriptHeader(brand, conversation, customer, exportedAt);
+        }
+
+        let count = 0;
+        for await (const message of this.exportMessages(
+          conversation.id,
+          options,
+          batchSize
+        )) {
+          count++;
+          yield format === "ndjson"
+            ? JSON.stringify({ type: "message", message }) + "\n"
+            : format === "transcript"
+              ? transcriptMessage(brand, message)
+              : toCsvRow(conversation, customer, message);
+        }
+
+        // Conversations without messages (in the range) are still exported
+        if (format === "transcript") {
+          yield count ? "\n" : "No messages\n\n";
+        } else if (format === "csv" && !count) {
+          yield toCsvRow(conversation, customer, null);
+        }
+      }
+
+      cursor = page.next_cursor;
+    } while (cursor);
   }
 
-  // Get conversation analytics
-  async getAnalytics(timeRange?: { start: string; end: string }) {
+  // One batch of the conversations to export, oldest first: with a range,
+  // those open during it (started before its end, and started or messaged
+  // since its start)
+  private async getExportConversations(
+    options: ConversationExportOptions,
+    cursor: string | null,
+    batchSize: number
+  ): Promise<PaginatedResult<Conversation>> {
     let query = this.db.conversations;
+    if (Array.isArray(options.status)) {
+      query = query.in("status", options.status);
+    } else if (options.status) {
+      query = query.eq("status", options.status);
+    }
+    if (options.campaign_id) {
+      query = query.eq("campaign_id", options.campaign_id);
+    }
+    if (options.tags?.length) query = query.contains("tags", options.tags);
+    if (options.start) {
+      const start = quote(options.start);
+      query = query.or(`created_at.gte.${start},last_message_at.gte.${start}`);
+    }
+    if (options.end) query = query.lte("created_at", options.end);
+
+    const { data, error } = await applyKeyset(
+      query,
+      "created_at",
+      { cursor },
+      batchSize,
+      false,
+      true
+    );
 
-    if (timeRange) {
-      query = query
-        .gte("created_at", timeRange.start)
-        .lte("created_at", timeRange.end);
+    if (error) {
+      throw this.fail("Failed to export conversations", error);
     }
 
-    const { data, error } = await query.select("*");
+    return toPaginatedResult(
+      this.toConversations(data),
+      "created_at",
+      batchSize
+    );
+  }
+
+  // The customers of a batch of conversations, decrypted, by id
+  private async getExportCustomers(
+    conversations: Conversation[]
+  ): Promise<Map<string, Customer>> {
+    if (!conversations.length) return new Map();
+
+    const { data, error } = await this.db.customers.in("id", [
+      ...new Set(conversations.map((conversation) => conversation.customer_id)),
+    ]);
 
     if (error) {
-      throw new Error(`Failed to get conversation analytics: ${error.message}`);
+      throw this.fail("Failed to export customers", error, "customers");
     }
 
-    // Process analytics
-    const analytics = {
-      total: data.length,
+    const customers = parseRows(
+      CustomerSchema,
+      (data as Tables["customers"]["Row"][]).map((row) =>
+        this.encryption.decryptRow("customers", row)
+      ),
+      this.validation,
+      this.errorContext("customers")
+    );
+    return new Map(customers.map((customer) => [customer.id, customer]));
+  }
+
+  // A conversation's messages in the range, oldest first, read in batches
+  private async *exportMessages(
+    conversationId: string,
+    options: ConversationExportOptions,
+    batchSize: number
+  ): AsyncGenerator<Message> {
+    let cursor: string | null = null;
+    do {
+      let query = this.db.raw
+        .from("messages")
+        .select("*")
+        .eq("conversation_id", conversationId);
+      if (options.start) query = query.gte("sent_at", options.start);
+      if (options.end) query = query.lte("sent_at", options.end);
+
+      const { data, error } = await applyKeyset(
+        query,
+        "sent_at",
+        { cursor },
+        batchSize,
+        false,
+        true
+      );
+
+      if (error) {
+        throw this.fail("Failed to export messages", error, "messages");
+      }
+
+      const page: PaginatedResult<Message> = toPaginatedResult(
+        this.toMessages(data),
+        "sent_at",
+        batchSize
+      );
+      yield* page.items;
+      cursor = page.next_cursor;
+    } while (cursor);
+  }
+
+  // Get conversation analytics, optionally for conversations started in a
+  // time range. Counted in the database (get_conversation_analytics).
+  async getAnalytics(
+    range: AnalyticsRange = {}
+  ): Promise<ConversationAnalytics> {
+    const [byStatus, byCampaign] = await Promise.all([
+      this.queryAnalytics({ ...range, group_by: "status" }),
+      this.queryAnalytics({ ...range, group_by: "campaign" }),
+    ]);
+
+    const analytics: ConversationAnalytics = {
+      total: 0,
       active: 0,
       optedOut: 0,
       byStatus: {} as Record<ConversationStatus, number>,
+      byCampaign: {},
       avgMessagesPerConversation: 0,
       totalMessages: 0,
     };
 
-    let totalMessages = 0;
-
-    data.forEach((conv: any) => {
-      // Count by status
-      analytics.byStatus[conv.status as ConversationStatus] =
-        (analytics.byStatus[conv.status as ConversationStatus] || 0) + 1;
-
-      if (conv.status === "active") analytics.active++;
-      if (conv.opted_out_at) analytics.optedOut++;
+    byStatus.forEach((row) => {
+      analytics.total += row.count;
+      analytics.active += row.active;
+      analytics.optedOut += row.opted_out;
+      analytics.totalMessages += row.total_messages;
+      analytics.byStatus[row.group as ConversationStatus] = row.count;
+    });
 
-      totalMessages += conv.message_count || 0;
+    byCampaign.forEach((row) => {
+      if (row.group) analytics.byCampaign[row.group] = row.count;
     });
 
-    analytics.totalMessages = totalMessages;
     analytics.avgMessagesPerConversation =
-      data.length > 0 ? totalMessages / data.length : 0;
+      analytics.total > 0 ? analytics.totalMessages / analytics.total : 0;
 
     return analytics;
   }
+
+  // Get conversations started per day, week or month, optionally per status
+  // or campaign
+  async getAnalyticsSeries(
+    interval: AnalyticsInterval,
+    options: AnalyticsSeriesOptions<ConversationAnalyticsGroupBy> = {}
+  ): Promise<ConversationAnalyticsPoint[]> {
+    return this.queryAnalytics(options, interval);
+  }
+
+  private async queryAnalytics(
+    options: AnalyticsSeriesOptions<ConversationAnalyticsGroupBy>,
+    interval?: AnalyticsInterval
+  ): Promise<ConversationAnalyticsPoint[]> {
+    const { data, error } = await this.db.raw.rpc(
+      "get_conversation_analytics",
+      {
+        p_brand_id: this.db.context.brand_id,
+        p_group_by: options.group_by ?? null,
+        p_interval: interval ?? null,
+        p_start: options.start ?? null,
+        p_end: options.end ?? null,
+      }
+    );
+
+    if (error) {
+      throw this.fail("Failed to get conversation analytics", error);
+    }
+
+    return (
+      data as Database["public"]["Functions"]["get_conversation_analytics"]["Returns"]
+    ).map((row) => ({
+      bucket: row.bucket as string, // Only null without an interval
+      group: row.group_key,
+      count: row.count,
+      active: row.active,
+      opted_out: row.opted_out,
+      total_messages: row.total_messages,
+    }));
+  }
+
+  // Database rows to domain types (nulls dropped, checked against the schema)
+  private toConversation(row: unknown): Conversation {
+    return parseRow(
+      ConversationSchema,
+      row,
+      this.validation,
+      this.errorContext()
+    );
+  }
+
+  private toConversations(rows: unknown[]): Conversation[] {
+    return parseRows(
+      ConversationSchema,
+      rows,
+      this.validation,
+      this.errorContext()
+    );
+  }
+
+  // Messages are decrypted first
+  private toMessage(row: Tables["messages"]["Row"]): Message {
+    return parseRow(
+      MessageSchema,
+      this.encryption.decryptRow("messages", row),
+      this.validation,
+      this.errorContext("messages")
+    );
+  }
+
+  private toMessages(rows: Tables["messages"]["Row"][]): Message[] {
+    return parseRows(
+      MessageSchema,
+      rows.map((row) => this.encryption.decryptRow("messages", row)),
+      this.validation,
+      this.errorContext("messages")
+    );
+  }
+
+  private errorContext(table = "conversations") {
+    return { table, brand_id: this.db.context.brand_id };
+  }
+
+  // Typed error for a failed query, tagged with the table and brand
+  private fail(
+    message: string,
+    error: DatabaseError,
+    table = "conversations"
+  ): DatabaseOperationError {
+    return toOperationError(message, error, this.errorContext(table));
+  }
 }
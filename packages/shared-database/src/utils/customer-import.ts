@@ -0,0 +1,256 @@
+import {
+  CustomerImportField,
+  CustomerImportFormat,
+  CustomerImportOptions,
+  CustomerImportSource,
+} from "../types/customer-import";
+
+// One row of an import file, before mapping and validation
+export interface ImportRecord {
+  line: number;
+  values: Record<string, unknown>; // Column → value
+  error?: string; // The row could not be parsed
+}
+
+// Fields a column maps to by name
+const IMPORT_FIELDS = new Set<string>([
+  "email",
+  "phone",
+  "first_name",
+  "last_name",
+  "stage",
+  "source",
+  "metadata",
+  "tags",
+]);
+
+// Decode the source into text chunks as they arrive
+async function* textChunks(
+  source: CustomerImportSource
+): AsyncGenerator<string> {
+  if (typeof source === "string") {
+    yield source;
+    return;
+  }
+
+  const decoder = new TextDecoder();
+  for await (const chunk of source) {
+    yield typeof chunk === "string"
+      ? chunk
+      : decoder.decode(chunk, { stream: true });
+  }
+  const rest = decoder.decode();
+  if (rest) yield rest;
+}
+
+// RFC 4180 fields: quoted fields may contain commas, newlines and "" for a
+// quote. Yields each record with the line it starts on.
+async function* csvRows(
+  chunks: AsyncIterable<string>
+): AsyncGenerator<{ line: number; fields: string[]; error?: string }> {
+  let fields: string[] = [];
+  let field = "";
+  let quoted = false; // Inside a quoted field
+  let closed = false; // Just after a closing quote
+  let line = 1;
+  let start = 1;
+  let first = true;
+
+  for await (const chunk of chunks) {
+    for (const char of chunk) {
+      if (first) {
+        first = false;
+        if (char === "\uFEFF") continue; // Byte order mark
+      }
+
+      if (quoted) {
+        if (char === '"') {
+          quoted = false;
+          closed = true;
+        } else {
+          if (char === "\n") line++;
+          field += char;
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        if (closed) field += char; // "" inside a quoted field
+        quoted = true;
+        closed = false;
+        continue;
+      }
+      closed = false;
+
+      if (char === ",") {
+        fields.push(field);
+        field = "";
+      } else if (char === "\n") {
+        fields.push(field);
+        if (fields.length > 1 || fields[0] !== "") {
+          yield { line: start, fields };
+        }
+        fields = [];
+        field = "";
+        start = ++line;
+      } else if (char !== "\r") {
+        field += char;
+      }
+    }
+  }
+
+  fields.push(field);
+  if (quoted) {
+    yield { line: start, fields, error: "Unterminated quoted field" };
+  } else if (fields.length > 1 || fields[0] !== "") {
+    yield { line: start, fields };
+  }
+}
+
+async function* csvRecords(
+  chunks: AsyncIterable<string>
+): AsyncGenerator<ImportRecord> {
+  let header: string[] | null = null;
+
+  for await (const row of csvRows(chunks)) {
+    if (!header) {
+      header = row.fields.map((name) => name.trim());
+      continue;
+    }
+
+    const values: Record<string, unknown> = {};
+    header.forEach((name, i) => {
+      if (name) values[name] = row.fields[i] ?? "";
+    });
+    yield {
+      line: row.line,
+      values,
+      error:
+        row.error ??
+        (row.fields.length > header.length
+          ? `Expected ${header.length} columns, found ${row.fields.length}`
+          : undefined),
+    };
+  }
+}
+
+// One JSON object per line; blank lines are skipped
+async function* ndjsonRecords(
+  chunks: AsyncIterable<string>
+): AsyncGenerator<ImportRecord> {
+  let buffer = "";
+  let line = 0;
+
+  const parse = (text: string): ImportRecord => {
+    line++;
+    try {
+      const value = JSON.parse(text);
+      if (value && typeof value === "object" && !Array.isArray(value)) {
+        return { line, values: value };
+      }
+      return { line, values: {}, error: "Expected a JSON object" };
+    } catch {
+      return { line, values: {}, error: "Invalid JSON" };
+    }
+  };
+
+  for await (const chunk of chunks) {
+    buffer += chunk;
+    let end: number;
+    while ((end = buffer.indexOf("\n")) >= 0) {
+      const text = buffer.slice(0, end).trim();
+      buffer = buffer.slice(end + 1);
+      if (text) yield parse(text);
+      else line++;
+    }
+  }
+
+  if (buffer.trim()) yield parse(buffer.trim());
+}
+
+// Rows of a CSV (header row first) or NDJSON import, read incrementally
+export function readImportRecords(
+  source: CustomerImportSource,
+  format: CustomerImportFormat = "csv"
+): AsyncGenerator<ImportRecord> {
+  const chunks = textChunks(source);
+  return format === "ndjson" ? ndjsonRecords(chunks) : csvRecords(chunks);
+}
+
+// Column name → field: explicit mapping first, then the field of that name
+function importField(
+  column: string,
+  options: CustomerImportOptions
+): CustomerImportField | null {
+  if (options.columns && column in options.columns) {
+    return options.columns[column];
+  }
+
+  const name = column
+    .trim()
+    .toLowerCase()
+    .replace(/[\s-]+/g, "_");
+  return IMPORT_FIELDS.has(name) ? (name as CustomerImportField) : null;
+}
+
+// CSV cells are text: tags are split and metadata is parsed as JSON. Values
+// that do not convert are passed on for validation to reject.
+function fromCell(
+  field: string,
+  value: string,
+  options: CustomerImportOptions
+): unknown {
+  if (field === "tags") {
+    return value
+      .split(options.tag_separator ?? ",")
+      .map((tag) => tag.trim())
+      .filter(Boolean);
+  }
+  if (field === "metadata") {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value;
+    }
+  }
+  return value;
+}
+
+// Map a record's columns to CreateCustomer input; empty cells and nulls are
+// left out so defaults apply
+export function toImportInput(
+  record: ImportRecord,
+  options: CustomerImportOptions,
+  format: CustomerImportFormat = "csv"
+): Record<string, unknown> {
+  const input: Record<string, unknown> = {};
+  const metadata: Record<string, unknown> = {};
+
+  for (const [column, raw] of Object.entries(record.values)) {
+    const field = importField(column, options);
+    let value = typeof raw === "string" ? raw.trim() : raw;
+    if (!field || value === "" || value == null) continue;
+
+    if (typeof value === "string" && (format === "csv" || field === "tags")) {
+      value = fromCell(field, value, options);
+    }
+
+    if (field.startsWith("metadata.")) {
+      metadata[field.slice("metadata.".length)] = value;
+    } else {
+      input[field] = value;
+    }
+  }
+
+  if (Object.keys(metadata).length) {
+    const base = input.metadata;
+    input.metadata =
+      base && typeof base === "object" && !Array.isArray(base)
+        ? { ...base, ...metadata }
+        : base === undefined
+          ? metadata
+          : base; // Not an object: left for validation to reject
+  }
+
+  return { ...options.defaults, ...input };
+}
@@ -0,0 +1,116 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { createDatabaseClient, DatabaseClient } from "../index";
+import { createMemoryDatabase, MemoryDatabase } from "../client/memory";
+import { getBrandConfig } from "../types/brand";
+
+describe("customer operations", () => {
+  let memory: MemoryDatabase;
+  let db: DatabaseClient;
+
+  beforeAll(async () => {
+    memory = await createMemoryDatabase();
+    db = createDatabaseClient(
+      { brand_id: "gnymble", config: getBrandConfig("gnymble") },
+      { adapter: memory.client() }
+    );
+  });
+
+  afterAll(() => memory.close());
+
+  beforeEach(() => memory.reset());
+
+  describe("stages", () => {
+    it("clears churned_at when a churned customer is reactivated", async () => {
+      const customer = await db.customers.create({ email: "ann@example.com" });
+      await db.customers.progressStage(customer.id, "trial");
+      const churned = await db.customers.progressStage(customer.id, "churned");
+      expect(churned.churned_at).toBeDefined();
+
+      const reactivated = await db.customers.reactivate(customer.id);
+      expect(reactivated).toMatchObject({ stage: "lead", is_active: true });
+      expect(reactivated.churned_at).toBeUndefined();
+    });
+
+    it("reports refused changes by kind", async () => {
+      const customer = await db.customers.create({ email: "ann@example.com" });
+
+      await expect(
+        db.customers.progressStage(customer.id, "churned")
+      ).rejects.toMatchObject({
+        kind: "invalid_transition",
+        code: undefined,
+        status: 422,
+      });
+    });
+  });
+
+  describe("importCustomers", () => {
+    const csv = [
+      "email,phone,first_name,tags",
+      "ann@example.com,(415) 555-2671,Ann,vip",
+      "bob@example.com,,Bob,",
+      "new-cat@example.com,(415) 555-2673,Cat,",
+      "dan@example.com,(415) 555-2674,,",
+      "not-an-email,,,",
+    ].join("\n");
+
+    beforeEach(async () => {
+      await db.customers.create({ email: "ann@example.com", tags: ["lead"] });
+      await db.customers.create({
+        email: "bob@example.com",
+        first_name: "Bob",
+      });
+      await db.customers.create({
+        email: "cat@example.com",
+        phone: "+14155552673",
+      });
+      await db.customers.create({ email: "dan@example.com" });
+      await db.customers.create({
+        email: "eve@example.com",
+        phone: "+14155552674",
+      });
+    });
+
+    it("upserts on email, matches on phone and reports only failures", async () => {
+      const report = await db.customers.importCustomers(csv);
+
+      expect(report).toMatchObject({
+        total: 5,
+        created: 0,
+        updated: 2,
+        skipped: 1,
+        errors: 2,
+      });
+      expect(report.failed.map(({ line, reason }) => [line, reason])).toEqual([
+        [5, expect.stringMatching(/^Email matches customer .* phone matches/)],
+        [6, expect.stringMatching(/^Invalid customer: email/)],
+      ]);
+      expect(await db.customers.getByEmail("ann@example.com")).toMatchObject({
+        phone: "+14155552671",
+        first_name: "Ann",
+        tags: ["lead", "vip"],
+      });
+      expect(await db.customers.getByPhone("+14155552673")).toMatchObject({
+        email: "new-cat@example.com",
+        first_name: "Cat",
+      });
+    });
+
+    it("creates new customers and writes nothing in a dry run", async () => {
+      const rows = "email,phone\nfay@example.com,(415) 555-2676\n";
+
+      const dryRun = await db.customers.importCustomers(rows, {
+        dry_run: true,
+      });
+      expect(dryRun).toMatchObject({ created: 1, failed: [] });
+      expect(await db.customers.getByEmail("fay@example.com")).toBeNull();
+
+      const report = await db.customers.importCustomers(rows);
+      expect(report).toMatchObject({ created: 1, failed: [] });
+      expect(await db.customers.getByEmail("fay@example.com")).toMatchObject({
+        phone: "+14155552676",
+        stage: "lead",
+      });
+    });
+  });
+});
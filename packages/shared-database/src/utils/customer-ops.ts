@@ -1,40 +1,134 @@
-import { BrandAwareSupabase } from "../client/supabase";
+import { BrandAwareSupabase, Database } from "../client/supabase";
+import type { DatabaseError } from "../client/adapter";
 import {
   Customer,
+  CustomerSchema,
   CreateCustomer,
+  CreateCustomerSchema,
   UpdateCustomer,
+  UpdateCustomerSchema,
   CustomerStage,
   CustomerSource,
+  CustomerSearchField,
+  CustomerSearchResult,
+  CustomerDuplicate,
+  CustomerDuplicateMatch,
+  CustomerDuplicateOptions,
+  CustomerStageChange,
+  CustomerStageChangeSchema,
+  CustomerStageTransition,
+  CustomerStageTransitionError,
+  canReactivateCustomer,
+  canTransitionCustomerStage,
 } from "../types/customer";
-import { BrandId } from "../types/brand";
+import {
+  ConversationSchema,
+  MessageSchema,
+  MessageStatusEventSchema,
+} from "../types/conversation";
+import {
+  CustomerDataExport,
+  CustomerDataRequest,
+  CustomerDataRequestOptions,
+  CustomerDataRequestSchema,
+  CustomerDataRequestType,
+  ExportedConversation,
+} from "../types/data-request";
+import {
+  CustomerImportOptions,
+  CustomerImportReport,
+  CustomerImportRowResult,
+  CustomerImportSource,
+} from "../types/customer-import";
+import {
+  createPhoneNumberSchema,
+  normalizePhoneNumber,
+  toE164,
+} from "../types/phone";
+import { PaginationOptions, PaginatedResult } from "../types/pagination";
+import {
+  AnalyticsInterval,
+  AnalyticsRange,
+  AnalyticsSeriesOptions,
+  CohortOptions,
+  CohortPoint,
+  CustomerAnalytics,
+  CustomerAnalyticsGroupBy,
+  CustomerAnalyticsPoint,
+  FunnelConversion,
+  FunnelOptions,
+  FunnelStep,
+  toPercentage,
+} from "../types/analytics";
+import {
+  DatabaseOperationError,
+  NotFoundError,
+  ValidationError,
+  toOperationError,
+} from "../types/errors";
+import {
+  applyKeyset,
+  resolveLimit,
+  resolveOffset,
+  toOffsetPaginatedResult,
+  toPaginatedResult,
+} from "./pagination";
+import { FieldEncryption } from "./field-encryption";
+import { AuditLog } from "./audit-log";
+import { readImportRecords, toImportInput } from "./customer-import";
+import {
+  ValidationOptions,
+  parseInput,
+  parseRow,
+  parseRows,
+} from "./validation";
+
+type Tables = Database["public"]["Tables"];
+type Functions = Database["public"]["Functions"];
+
+// Conversation row with the messages and status events selected by
+// exportConversations
+type ExportedConversationRow = Tables["conversations"]["Row"] & {
+  messages: (Tables["messages"]["Row"] & {
+    message_status_events: Tables["message_status_events"]["Row"][];
+  })[];
+};
+
+// A valid import row waiting for its batch
+interface PendingImport {
+  input: CreateCustomer;
+  result: CustomerImportRowResult;
+}
 
 export class CustomerOperations {
-  constructor(private db: BrandAwareSupabase) {}
+  constructor(
+    private db: BrandAwareSupabase,
+    private validation: ValidationOptions = {},
+    private encryption: FieldEncryption = FieldEncryption.forBrand(db.context),
+    private audit: AuditLog = new AuditLog(db, validation, encryption)
+  ) {}
 
   // Create a new customer
   async create(data: CreateCustomer): Promise<Customer> {
-    const customerData = {
-      ...data,
-      brand_id: this.db.context.brand_id,
-      stage: data.stage || ("lead" as CustomerStage),
-      source: data.source || ("website" as CustomerSource),
-      is_active: true,
-      created_at: new Date().toISOString(),
-      updated_at: new Date().toISOString(),
-      created_by: this.db.context.user_id,
-    };
+    const input = parseInput(
+      CreateCustomerSchema,
+      data,
+      this.validation,
+      "customer",
+      this.errorContext()
+    );
 
     const { data: customer, error } = await this.db.raw
       .from("customers")
-      .insert(customerData)
+      .insert(this.toNewRow(input))
       .select()
       .single();
 
     if (error) {
-      throw new Error(`Failed to create customer: ${error.message}`);
+      throw this.fail("Failed to create customer", error);
     }
 
-    return customer as Customer;
+    return this.toCustomer(customer);
   }
 
   // Get customer by ID
@@ -43,10 +137,10 @@ export class CustomerOperations {
 
     if (error) {
       if (error.code === "PGRST116") return null; // Not found
-      throw new Error(`Failed to get customer: ${error.message}`);
+      throw this.fail("Failed to get customer", error);
     }
 
-    return data as Customer;
+    return this.toCustomer(data);
   }
 
   // Get customer by email
@@ -55,101 +149,243 @@ export class CustomerOperations {
 
     if (error) {
       if (error.code === "PGRST116") return null; // Not found
-      throw new Error(`Failed to get customer by email: ${error.message}`);
+      throw this.fail("Failed to get customer by email", error);
     }
 
-    return data as Customer;
+    return this.toCustomer(data);
   }
 
-  // Get customer by phone
+  // Get customer by phone (any format, matched as E.164)
   async getByPhone(phone: string): Promise<Customer | null> {
-    const { data, error } = await this.db.customers.eq("phone", phone).single();
+    const normalized = normalizePhoneNumber(phone);
+    if (!normalized) return null;
+
+    const { data, error } = await this.db.customers
+      .eq("phone", normalized)
+      .single();
 
     if (error) {
       if (error.code === "PGRST116") return null; // Not found
-      throw new Error(`Failed to get customer by phone: ${error.message}`);
+      throw this.fail("Failed to get customer by phone", error);
     }
 
-    return data as Customer;
+    return this.toCustomer(data);
   }
 
   // Update customer
   async update(id: string, data: UpdateCustomer): Promise<Customer> {
+    const input = parseInput(
+      UpdateCustomerSchema,
+      data,
+      this.validation,
+      "customer update",
+      this.errorContext()
+    );
     const updateData = {
-      ...data,
+      ...input,
+      phone: input.phone ? toE164(input.phone) : input.phone,
       updated_at: new Date().toISOString(),
     };
 
     const { data: customer, error } = await this.db.raw
       .from("customers")
-      .update(updateData)
+      .update(this.encryption.encryptRow("customers", updateData))
       .eq("id", id)
       .eq("brand_id", this.db.context.brand_id)
       .select()
       .single();
 
     if (error) {
-      throw new Error(`Failed to update customer: ${error.message}`);
+      throw this.fail("Failed to update customer", error);
     }
 
-    return customer as Customer;
+    return this.toCustomer(customer);
   }
 
-  // Progress customer through journey stages
-  async progressStage(id: string, newStage: CustomerStage): Promise<Customer> {
-    const now = new Date().toISOString();
-    const updateData: UpdateCustomer = { stage: newStage };
-
-    // Set stage-specific timestamps
-    switch (newStage) {
-      case "marketing":
-        updateData.marketing_qualified_at = now;
-        break;
-      case "trial":
-        updateData.trial_started_at = now;
-        break;
-      case "active":
-        updateData.subscribed_at = now;
-        break;
-      case "churned":
-        updateData.churned_at = now;
-        updateData.is_active = false;
-        break;
-    }
-
-    return this.update(id, updateData);
-  }
-
-  // Get customers by stage
-  async getByStage(stage: CustomerStage, limit = 50): Promise<Customer[]> {
-    const { data, error } = await this.db.customers
-      .eq("stage", stage)
-      .eq("is_active", true)
-      .order("created_at", { ascending: false })
-      .limit(limit);
+  // Progress customer through journey stages (see CUSTOMER_STAGE_TRANSITIONS).
+  // Each change is recorded in the customer's journey with the acting user.
+  async progressStage(
+    id: string,
+    newStage: CustomerStage,
+    reason?: string
+  ): Promise<Customer> {
+    const customer = await this.getById(id);
+    if (!customer) {
+      throw new NotFoundError("Customer not found", {
+        table: "customers",
+        brand_id: this.db.context.brand_id,
+      });
+    }
+
+    if (customer.stage === newStage) {
+      return customer;
+    }
+
+    if (!canTransitionCustomerStage(customer.stage, newStage)) {
+      const hint =
+        newStage === "lead" && canReactivateCustomer(customer)
+          ? " (use reactivate)"
+          : "";
+      throw new CustomerStageTransitionError(
+        "invalid_transition",
+        `Invalid customer stage change: ${customer.stage} → ${newStage}${hint}`,
+        id,
+        customer.stage,
+        newStage
+      );
+    }
+
+    return this.changeStage(customer, newStage, "progress", reason);
+  }
+
+  // Bring a churned or dormant customer back to lead
+  async reactivate(id: string, reason?: string): Promise<Customer> {
+    const customer = await this.getById(id);
+    if (!customer) {
+      throw new NotFoundError("Customer not found", {
+        table: "customers",
+        brand_id: this.db.context.brand_id,
+      });
+    }
+
+    if (!canReactivateCustomer(customer)) {
+      throw new CustomerStageTransitionError(
+        "invalid_transition",
+        `Cannot reactivate customer in stage ${customer.stage}`,
+        id,
+        customer.stage,
+        "lead"
+      );
+    }
+
+    return this.changeStage(customer, "lead", "reactivate", reason);
+  }
+
+  // Get every stage change of a customer, oldest first
+  async getJourney(id: string): Promise<CustomerStageChange[]> {
+    const { data, error } = await this.db.raw
+      .from("customer_stage_history")
+      .select("*")
+      .eq("customer_id", id)
+      .eq("brand_id", this.db.context.brand_id)
+      .order("changed_at", { ascending: true });
 
     if (error) {
-      throw new Error(`Failed to get customers by stage: ${error.message}`);
+      throw this.fail(
+        "Failed to get customer journey",
+        error,
+        "customer_stage_history"
+      );
     }
 
-    return data as Customer[];
+    return parseRows(
+      CustomerStageChangeSchema,
+      data,
+      this.validation,
+      this.errorContext("customer_stage_history")
+    );
   }
 
-  // Search customers
-  async search(query: string, limit = 20): Promise<Customer[]> {
-    const { data, error } = await this.db.customers
-      .or(
-        `email.ilike.%${query}%, first_name.ilike.%${query}%, last_name.ilike.%${query}%, phone.ilike.%${query}%`
-      )
-      .eq("is_active", true)
-      .order("created_at", { ascending: false })
-      .limit(limit);
+  // Apply a stage change and record it atomically
+  private async changeStage(
+    customer: Customer,
+    stage: CustomerStage,
+    transition: CustomerStageTransition,
+    reason?: string
+  ): Promise<Customer> {
+    const { data, error } = await this.db.raw.rpc("transition_customer_stage", {
+      p_brand_id: this.db.context.brand_id,
+      p_customer_id: customer.id,
+      p_from_stage: customer.stage,
+      p_to_stage: stage,
+      p_transition: transition,
+      p_reason: reason ?? null,
+      p_actor_id: this.db.context.user_id ?? null,
+    });
 
     if (error) {
-      throw new Error(`Failed to search customers: ${error.message}`);
+      if (error.code === "40001") {
+        throw new CustomerStageTransitionError(
+          "stale_stage",
+          `Customer stage changed concurrently; it is no longer ${customer.stage}`,
+          customer.id,
+          customer.stage,
+          stage,
+          { ...this.errorContext(), code: error.code }
+        );
+      }
+      if (error.code === "23514") {
+        throw new CustomerStageTransitionError(
+          "invalid_transition",
+          `Invalid customer stage change: ${customer.stage} → ${stage}`,
+          customer.id,
+          customer.stage,
+          stage,
+          { ...this.errorContext(), code: error.code }
+        );
+      }
+      throw this.fail("Failed to change customer stage", error);
     }
 
-    return data as Customer[];
+    return this.toCustomer(data);
+  }
+
+  // Get customers by stage, newest first
+  async getByStage(
+    stage: CustomerStage,
+    options: PaginationOptions = {}
+  ): Promise<PaginatedResult<Customer>> {
+    const limit = resolveLimit(options, 50);
+    const { data, error } = await applyKeyset(
+      this.db.customers.eq("stage", stage).eq("is_active", true),
+      "created_at",
+      options,
+      limit
+    );
+
+    if (error) {
+      throw this.fail("Failed to get customers by stage", error);
+    }
+
+    return toPaginatedResult(this.toCustomers(data), "created_at", limit);
+  }
+
+  // Search customers by name, email or phone, most relevant first.
+  // The query is passed to the database as a value, never as filter syntax.
+  // Throws an EncryptionError for brands that encrypt customer names; use
+  // getByEmail or getByPhone instead.
+  async search(
+    query: string,
+    options: PaginationOptions = {}
+  ): Promise<PaginatedResult<CustomerSearchResult>> {
+    this.encryption.assertSearchable("Customer search", [
+      "customers.first_name",
+      "customers.last_name",
+    ]);
+
+    const limit = resolveLimit(options, 20);
+    const offset = resolveOffset(options);
+
+    const { data, error } = await this.db.raw.rpc("search_customers", {
+      p_brand_id: this.db.context.brand_id,
+      p_query: query,
+      p_limit: limit + 1,
+      p_offset: offset,
+    });
+
+    if (error) {
+      throw this.fail("Failed to search customers", error);
+    }
+
+    const results = (data as Functions["search_customers"]["Returns"]).map(
+      (result): CustomerSearchResult => ({
+        customer: this.toCustomer(result.customer),
+        rank: result.rank,
+        matched_field: result.matched_field as CustomerSearchField | null,
+      })
+    );
+
+    return toOffsetPaginatedResult(results, offset, limit);
   }
 
   // Find or create customer (upsert logic)
@@ -170,11 +406,128 @@ export class CustomerOperations {
     } as CreateCustomer);
   }
 
+  // Create or update customers in bulk from a CSV (header row first) or
+  // NDJSON file, read as a stream. Rows are validated against
+  // CreateCustomerSchema and written a batch at a time by import_customers,
+  // which upserts on email and otherwise matches on phone. A matched
+  // customer takes the row's email, phone and names, merges its metadata and
+  // adds its tags; stage and source only apply to new customers. Rows
+  // repeating an earlier row's email or phone are skipped. Failures are
+  // reported per row, not thrown; the report keeps only the failed rows.
+  async importCustomers(
+    source: CustomerImportSource,
+    options: CustomerImportOptions = {}
+  ): Promise<CustomerImportReport> {
+    const format = options.format ?? "csv";
+    const schema = CreateCustomerSchema.extend({
+      phone: createPhoneNumberSchema(options.region).optional(),
+    });
+    const report: CustomerImportReport = {
+      dry_run: !!options.dry_run,
+      total: 0,
+      created: 0,
+      updated: 0,
+      skipped: 0,
+      errors: 0,
+      failed: [],
+    };
+    const seen = new Map<string, number>(); // Email or phone → first line
+    let batch: PendingImport[] = [];
+
+    const count = (result: CustomerImportRowResult) => {
+      report.total++;
+      if (result.status === "error") {
+        report.errors++;
+        report.failed.push(result);
+      } else {
+        report[result.status]++;
+      }
+    };
+    const flush = async () => {
+      await this.importBatch(batch, report.dry_run);
+      batch.forEach(({ result }) => count(result));
+      batch = [];
+    };
+
+    for await (const record of readImportRecords(source, format)) {
+      const result: CustomerImportRowResult = {
+        line: record.line,
+        status: "error",
+      };
+      if (record.error) {
+        result.reason = record.error;
+        count(result);
+        continue;
+      }
+
+      const mapped = toImportInput(record, options, format);
+      if (typeof mapped.email === "string") result.email = mapped.email;
+
+      let input: CreateCustomer;
+      try {
+        input = parseInput(schema, mapped, {}, "customer", this.errorContext());
+      } catch (error) {
+        if (!(error instanceof ValidationError)) throw error;
+        result.reason = error.message;
+        result.issues = error.issues;
+        count(result);
+        continue;
+      }
+
+      const first =
+        seen.get(input.email) ?? (input.phone && seen.get(input.phone));
+      if (first) {
+        result.status = "skipped";
+        result.reason = `Duplicate of line ${first}`;
+        count(result);
+        continue;
+      }
+      seen.set(input.email, record.line);
+      if (input.phone) seen.set(input.phone, record.line);
+
+      batch.push({ input, result });
+      if (batch.length >= (options.batch_size ?? 500)) await flush();
+    }
+    if (batch.length) await flush();
+
+    report.failed.sort((a, b) => a.line - b.line); // Batch rows come later
+    return report;
+  }
+
+  // Write a batch of valid import rows (import_customers) and set each row's
+  // outcome
+  private async importBatch(
+    batch: PendingImport[],
+    dryRun: boolean
+  ): Promise<void> {
+    const { data, error } = await this.db.raw.rpc("import_customers", {
+      p_brand_id: this.db.context.brand_id,
+      p_rows: batch.map(({ input }) => this.toNewRow(input)),
+      p_dry_run: dryRun,
+    });
+
+    if (error) {
+      const { message } = this.fail("Failed to import customers", error);
+      for (const { result } of batch) result.reason = message;
+      return;
+    }
+
+    for (const row of data) {
+      const { result } = batch[row.ordinal - 1];
+      result.status = row.status;
+      if (row.customer_id) result.customer_id = row.customer_id;
+      if (row.reason) result.reason = row.reason;
+    }
+  }
+
   // Add tags to customer
   async addTags(id: string, tags: string[]): Promise<Customer> {
     const customer = await this.getById(id);
     if (!customer) {
-      throw new Error("Customer not found");
+      throw new NotFoundError("Customer not found", {
+        table: "customers",
+        brand_id: this.db.context.brand_id,
+      });
     }
 
     const existingTags = customer.tags || [];
@@ -187,7 +540,10 @@ export class CustomerOperations {
   async removeTags(id: string, tags: string[]): Promise<Customer> {
     const customer = await this.getById(id);
     if (!customer) {
-      throw new Error("Customer not found");
+      throw new NotFoundError("Customer not found", {
+        table: "customers",
+        brand_id: this.db.context.brand_id,
+      });
     }
 
     const existingTags = customer.tags || [];
@@ -196,50 +552,448 @@ export class CustomerOperations {
     return this.update(id, { tags: newTags });
   }
 
-  // Get customer analytics for brand
-  async getAnalytics() {
+  // Likely duplicate customers (find_duplicate_customers): pairs sharing a
+  // phone number, a normalized email or, unless the brand encrypts names, a
+  // similar name. Most reasons first.
+  async findDuplicates(
+    options: CustomerDuplicateOptions = {}
+  ): Promise<PaginatedResult<CustomerDuplicate>> {
+    const limit = resolveLimit(options, 50);
+    const offset = resolveOffset(options);
+
+    const { data, error } = await this.db.raw.rpc("find_duplicate_customers", {
+      p_brand_id: this.db.context.brand_id,
+      p_customer_id: options.customer_id ?? null,
+      p_match_names: !(
+        this.encryption.encrypts("customers.first_name") ||
+        this.encryption.encrypts("customers.last_name")
+      ),
+      p_min_similarity: options.min_similarity ?? 0.6,
+      p_limit: limit + 1,
+      p_offset: offset,
+    });
+
+    if (error) {
+      throw this.fail("Failed to find duplicate customers", error);
+    }
+
+    const results = (
+      data as Functions["find_duplicate_customers"]["Returns"]
+    ).map(
+      (result): CustomerDuplicate => ({
+        customer: this.toCustomer(result.customer),
+        duplicate: this.toCustomer(result.duplicate),
+        matched_on: result.matched_on as CustomerDuplicateMatch[],
+        name_similarity: result.name_similarity,
+      })
+    );
+
+    return toOffsetPaginatedResult(results, offset, limit);
+  }
+
+  // Merge a duplicate into the survivor (merge_customers): conversations and
+  // stage history move over, tags and metadata are combined, the earliest
+  // journey timestamps are kept and the duplicate is deleted. Both customers
+  // get a merge audit event in the same transaction; the duplicate's keeps
+  // its old values.
+  async mergeCustomers(
+    survivorId: string,
+    duplicateId: string
+  ): Promise<Customer> {
+    if (survivorId === duplicateId) {
+      throw new ValidationError(
+        "Cannot merge a customer into itself",
+        this.errorContext()
+      );
+    }
+
+    const [survivor, duplicate] = await Promise.all([
+      this.getById(survivorId),
+      this.getById(duplicateId),
+    ]);
+    if (!survivor || !duplicate) {
+      throw new NotFoundError("Customer not found", this.errorContext());
+    }
+    if (survivor.erased_at || duplicate.erased_at) {
+      throw new ValidationError("Cannot merge erased customers", {
+        ...this.errorContext(),
+        column: "erased_at",
+      });
+    }
+
+    const { data, error } = await this.db.raw.rpc("merge_customers", {
+      p_brand_id: this.db.context.brand_id,
+      p_survivor_id: survivorId,
+      p_duplicate_id: duplicateId,
+    });
+
+    if (error) {
+      throw this.fail("Failed to merge customers", error);
+    }
+
+    return this.toCustomer(data);
+  }
+
+  // Everything stored about a customer as one JSON-serializable bundle, for
+  // data subject access requests. The export is recorded in
+  // customer_data_requests before it is returned.
+  async exportCustomerData(
+    id: string,
+    options: CustomerDataRequestOptions = {}
+  ): Promise<CustomerDataExport> {
+    const customer = await this.getById(id);
+    if (!customer) {
+      throw new NotFoundError("Customer not found", this.errorContext());
+    }
+
+    const [journey, conversations, requests] = await Promise.all([
+      this.getJourney(id),
+      this.exportConversations(id),
+      this.getDataRequests(id),
+    ]);
+
+    const audit = await this.audit.getCustomerHistory(
+      id,
+      conversations.map((item) => item.conversation.id)
+    );
+
+    await this.recordDataRequest(id, "export", options, {
+      customers: 1,
+      conversations: conversations.length,
+      messages: conversations.reduce(
+        (count, item) => count + item.messages.length,
+        0
+      ),
+      stage_changes: journey.length,
+      audit_events: audit.length,
+    });
+
+    return {
+      exported_at: new Date().toISOString(),
+      brand_id: this.db.context.brand_id,
+      customer,
+      journey,
+      conversations,
+      audit,
+      requests,
+    };
+  }
+
+  // Irreversibly remove a customer's personal data from the customer, their
+  // conversations and messages (erase_customer). Rows are kept without PII
+  // so analytics still add up; the returned record shows when and by whom,
+  // and an erase audit event is recorded in the same transaction.
+  async eraseCustomer(
+    id: string,
+    options: CustomerDataRequestOptions = {}
+  ): Promise<CustomerDataRequest> {
+    const customer = await this.getById(id);
+    if (!customer) {
+      throw new NotFoundError("Customer not found", this.errorContext());
+    }
+    if (customer.erased_at) {
+      throw new ValidationError("Customer was already erased", {
+        ...this.errorContext(),
+        column: "erased_at",
+      });
+    }
+
+    const { data, error } = await this.db.raw.rpc("erase_customer", {
+      p_brand_id: this.db.context.brand_id,
+      p_customer_id: id,
+      p_actor_id: this.db.context.user_id ?? null,
+      p_reason: options.reason ?? null,
+    });
+
+    if (error) {
+      throw this.fail("Failed to erase customer", error);
+    }
+
+    return this.toDataRequest(data);
+  }
+
+  // Exports and erasures of a customer, oldest first
+  async getDataRequests(id: string): Promise<CustomerDataRequest[]> {
     const { data, error } = await this.db.raw
-      .from("customers")
-      .select(
-        `
-        stage,
-        source,
-        created_at,
-        trial_started_at,
-        subscribed_at,
-        churned_at
-      `
-      )
-      .eq("brand_id", this.db.context.brand_id);
+      .from("customer_data_requests")
+      .select("*")
+      .eq("customer_id", id)
+      .eq("brand_id", this.db.context.brand_id)
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      throw this.fail(
+        "Failed to get customer data requests",
+        error,
+        "customer_data_requests"
+      );
+    }
+
+    return data.map((row) => this.toDataRequest(row));
+  }
+
+  // Conversations with their messages and delivery history, oldest first
+  private async exportConversations(
+    customerId: string
+  ): Promise<ExportedConversation[]> {
+    const { data, error } = await this.db.raw
+      .from("conversations")
+      .select("*, messages(*, message_status_events(*))")
+      .eq("customer_id", customerId)
+      .eq("brand_id", this.db.context.brand_id)
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      throw this.fail("Failed to export conversations", error, "conversations");
+    }
+
+    const oldestFirst =
+      <K extends string>(column: K) =>
+      (a: Record<K, string>, b: Record<K, string>) =>
+        a[column] < b[column] ? -1 : a[column] > b[column] ? 1 : 0;
+
+    return (data as ExportedConversationRow[]).map(
+      ({ messages, ...conversation }) => ({
+        conversation: parseRow(
+          ConversationSchema,
+          conversation,
+          this.validation,
+          this.errorContext("conversations")
+        ),
+        messages: [...(messages ?? [])]
+          .sort(oldestFirst("sent_at"))
+          .map(({ message_status_events, ...message }) => ({
+            message: parseRow(
+              MessageSchema,
+              this.encryption.decryptRow("messages", message),
+              this.validation,
+              this.errorContext("messages")
+            ),
+            status_history: parseRows(
+              MessageStatusEventSchema,
+              [...(message_status_events ?? [])].sort(
+                oldestFirst("created_at")
+              ),
+              this.validation,
+              this.errorContext("message_status_events")
+            ),
+          })),
+      })
+    );
+  }
+
+  private async recordDataRequest(
+    customerId: string,
+    type: CustomerDataRequestType,
+    options: CustomerDataRequestOptions,
+    summary: Record<string, number>
+  ): Promise<void> {
+    const { error } = await this.db.raw.from("customer_data_requests").insert({
+      brand_id: this.db.context.brand_id,
+      customer_id: customerId,
+      request_type: type,
+      actor_id: this.db.context.user_id ?? null,
+      reason: options.reason ?? null,
+      summary,
+    });
 
     if (error) {
-      throw new Error(`Failed to get customer analytics: ${error.message}`);
+      throw this.fail(
+        `Failed to record customer data ${type}`,
+        error,
+        "customer_data_requests"
+      );
     }
+  }
 
-    // Process analytics data
-    const analytics = {
-      total: data.length,
+  // Get customer analytics for brand, optionally for customers created in a
+  // time range. Counted in the database (get_customer_analytics).
+  async getAnalytics(range: AnalyticsRange = {}): Promise<CustomerAnalytics> {
+    const [byStage, bySource] = await Promise.all([
+      this.queryAnalytics({ ...range, group_by: "stage" }),
+      this.queryAnalytics({ ...range, group_by: "source" }),
+    ]);
+
+    const analytics: CustomerAnalytics = {
+      total: 0,
+      active: 0,
       byStage: {} as Record<CustomerStage, number>,
       bySource: {} as Record<CustomerSource, number>,
       conversionRate: 0,
       avgTimeToConversion: 0,
     };
 
-    data.forEach((customer: any) => {
-      // Count by stage
-      analytics.byStage[customer.stage as CustomerStage] =
-        (analytics.byStage[customer.stage as CustomerStage] || 0) + 1;
+    let converted = 0;
+    let conversionDays = 0;
+
+    byStage.forEach((row) => {
+      analytics.total += row.count;
+      analytics.active += row.active;
+      analytics.byStage[row.group as CustomerStage] = row.count;
 
-      // Count by source
-      analytics.bySource[customer.source as CustomerSource] =
-        (analytics.bySource[customer.source as CustomerSource] || 0) + 1;
+      converted += row.converted;
+      conversionDays += (row.avg_days_to_conversion || 0) * row.converted;
     });
 
-    // Calculate conversion rate (leads to paid)
-    const leads = analytics.byStage.lead || 0;
-    const active = analytics.byStage.active || 0;
-    analytics.conversionRate = leads > 0 ? (active / leads) * 100 : 0;
+    bySource.forEach((row) => {
+      analytics.bySource[row.group as CustomerSource] = row.count;
+    });
+
+    // Share of customers who ever subscribed, and how long it took them
+    analytics.conversionRate = toPercentage(converted, analytics.total);
+    analytics.avgTimeToConversion =
+      converted > 0 ? conversionDays / converted : 0;
 
     return analytics;
   }
+
+  // Get new customers per day, week or month, optionally per stage or source
+  async getAnalyticsSeries(
+    interval: AnalyticsInterval,
+    options: AnalyticsSeriesOptions<CustomerAnalyticsGroupBy> = {}
+  ): Promise<CustomerAnalyticsPoint[]> {
+    return this.queryAnalytics(options, interval);
+  }
+
+  private async queryAnalytics(
+    options: AnalyticsSeriesOptions<CustomerAnalyticsGroupBy>,
+    interval?: AnalyticsInterval
+  ): Promise<CustomerAnalyticsPoint[]> {
+    const { data, error } = await this.db.raw.rpc("get_customer_analytics", {
+      p_brand_id: this.db.context.brand_id,
+      p_group_by: options.group_by ?? null,
+      p_interval: interval ?? null,
+      p_start: options.start ?? null,
+      p_end: options.end ?? null,
+    });
+
+    if (error) {
+      throw this.fail("Failed to get customer analytics", error);
+    }
+
+    return (data as Functions["get_customer_analytics"]["Returns"]).map(
+      (row) => ({
+        bucket: row.bucket as string, // Only null without an interval
+        group: row.group_key,
+        count: row.count,
+        active: row.active,
+        converted: row.converted,
+        avg_days_to_conversion: row.avg_days_to_conversion,
+      })
+    );
+  }
+
+  // Get stage-to-stage conversion and time between stages, from the journey
+  // timestamps of customers who signed up in the range
+  async getFunnel(options: FunnelOptions = {}): Promise<FunnelConversion[]> {
+    const { data, error } = await this.db.raw.rpc("get_customer_funnel", {
+      p_brand_id: this.db.context.brand_id,
+      p_start: options.start ?? null,
+      p_end: options.end ?? null,
+      p_by_source: options.by_source ?? false,
+    });
+
+    if (error) {
+      throw this.fail("Failed to get customer funnel", error);
+    }
+
+    return (data as Functions["get_customer_funnel"]["Returns"]).map((row) => ({
+      source: row.source as CustomerSource | null,
+      from: row.from_step as FunnelStep,
+      to: row.to_step as FunnelStep,
+      entered: row.entered,
+      converted: row.converted,
+      conversion_rate: toPercentage(row.converted, row.entered),
+      median_days: row.median_days,
+      p90_days: row.p90_days,
+    }));
+  }
+
+  // Get monthly signup cohorts with their retention and churn curves
+  async getCohorts(options: CohortOptions = {}): Promise<CohortPoint[]> {
+    const { data, error } = await this.db.raw.rpc("get_customer_cohorts", {
+      p_brand_id: this.db.context.brand_id,
+      p_start: options.start ?? null,
+      p_end: options.end ?? null,
+      p_months: options.months ?? 12,
+      p_by_source: options.by_source ?? false,
+    });
+
+    if (error) {
+      throw this.fail("Failed to get customer cohorts", error);
+    }
+
+    return (data as Functions["get_customer_cohorts"]["Returns"]).map(
+      (row) => ({
+        cohort: row.cohort,
+        source: row.source as CustomerSource | null,
+        month: row.month,
+        customers: row.customers,
+        subscribed: row.subscribed,
+        retained: row.retained,
+        churned: row.churned,
+        conversion_rate: toPercentage(row.subscribed, row.customers),
+        retention_rate: toPercentage(row.retained, row.subscribed),
+        churn_rate: toPercentage(row.churned, row.subscribed),
+      })
+    );
+  }
+
+  // Row for a new customer, encrypted for writing
+  private toNewRow(input: CreateCustomer) {
+    const now = new Date().toISOString();
+    return this.encryption.encryptRow("customers", {
+      ...input,
+      phone: input.phone ? toE164(input.phone) : input.phone,
+      brand_id: this.db.context.brand_id,
+      stage: input.stage || ("lead" as CustomerStage),
+      source: input.source || ("website" as CustomerSource),
+      is_active: true,
+      created_at: now,
+      updated_at: now,
+      created_by: this.db.context.user_id,
+    });
+  }
+
+  // Database row to Customer (decrypted, nulls dropped, checked against the
+  // schema)
+  private toCustomer(row: Tables["customers"]["Row"]): Customer {
+    return parseRow(
+      CustomerSchema,
+      this.encryption.decryptRow("customers", row),
+      this.validation,
+      this.errorContext()
+    );
+  }
+
+  private toCustomers(rows: Tables["customers"]["Row"][]): Customer[] {
+    return parseRows(
+      CustomerSchema,
+      rows.map((row) => this.encryption.decryptRow("customers", row)),
+      this.validation,
+      this.errorContext()
+    );
+  }
+
+  private toDataRequest(row: unknown): CustomerDataRequest {
+    return parseRow(
+      CustomerDataRequestSchema,
+      row,
+      this.validation,
+      this.errorContext("customer_data_requests")
+    );
+  }
+
+  private errorContext(table = "customers") {
+    return { table, brand_id: this.db.context.brand_id };
+  }
+
+  // Typed error for a failed query, tagged with the table and brand
+  private fail(
+    message: string,
+    error: DatabaseError,
+    table = "customers"
+  ): DatabaseOperationError {
+    return toOperationError(message, error, this.errorContext(table));
+  }
 }
@@ -0,0 +1,431 @@
+import { createCipheriv, createDecipheriv, randomBytes } from "crypto";
+import type { BrandAwareSupabase } from "../client/supabase";
+import type { BrandContext, BrandId } from "../types/brand";
+import {
+  BrandEncryptionPolicy,
+  BrandKeyring,
+  EncryptedField,
+  EncryptionError,
+  EncryptionErrorCode,
+  EncryptionRotationOptions,
+  EncryptionRotationReport,
+} from "../types/encryption";
+import { toOperationError } from "../types/errors";
+
+// Envelope format, base64url parts separated by ":"
+//   enc:v1:<key id>:<wrapped data key>:<ciphertext>
+// Each value gets its own random AES-256-GCM data key, wrapped (encrypted)
+// with the brand's master key. Rotating the master key only re-wraps data
+// keys; the ciphertext itself is unchanged.
+const PREFIX = "enc:v1:";
+const ALGORITHM = "aes-256-gcm";
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+const KEY_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+export type EncryptedTable = "customers" | "messages";
+
+// Columns of each table that may hold encrypted values
+const TABLE_COLUMNS: Record<EncryptedTable, string[]> = {
+  customers: ["first_name", "last_name"],
+  messages: ["content", "media_urls"],
+};
+
+export function isEncryptedValue(value: unknown): value is string {
+  return typeof value === "string" && value.startsWith(PREFIX);
+}
+
+// Key id of an encrypted value
+export function encryptedKeyId(value: string): string {
+  return value.slice(PREFIX.length).split(":")[0];
+}
+
+function seal(key: Buffer, plaintext: Buffer, aad: string): string {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  cipher.setAAD(Buffer.from(aad));
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, ciphertext, cipher.getAuthTag()]).toString(
+    "base64url"
+  );
+}
+
+function open(key: Buffer, sealed: string, aad: string): Buffer {
+  const bytes = Buffer.from(sealed, "base64url");
+  const decipher = createDecipheriv(
+    ALGORITHM,
+    key,
+    bytes.subarray(0, IV_BYTES)
+  );
+  decipher.setAAD(Buffer.from(aad));
+  decipher.setAuthTag(bytes.subarray(bytes.length - TAG_BYTES));
+  return Buffer.concat([
+    decipher.update(bytes.subarray(IV_BYTES, bytes.length - TAG_BYTES)),
+    decipher.final(),
+  ]);
+}
+
+// Keyrings by brand from FIELD_ENCRYPTION_KEYRINGS, a JSON object such as
+// {"percymd": {"current_key_id": "2024-06", "keys": {"2024-06": "<base64>"}}}
+export function getEnvKeyring(brand_id: BrandId): BrandKeyring | null {
+  const raw = process.env.FIELD_ENCRYPTION_KEYRINGS;
+  if (!raw) return null;
+
+  let keyrings: Record<string, BrandKeyring>;
+  try {
+    keyrings = JSON.parse(raw);
+  } catch {
+    throw new EncryptionError(
+      "invalid_keyring",
+      "FIELD_ENCRYPTION_KEYRINGS is not valid JSON"
+    );
+  }
+
+  return Object.prototype.hasOwnProperty.call(keyrings, brand_id)
+    ? keyrings[brand_id]
+    : null;
+}
+
+// Generate a base64 master key for a keyring
+export function generateEncryptionKey(): string {
+  return randomBytes(KEY_BYTES).toString("base64");
+}
+
+// Encrypts and decrypts a brand's columns according to its
+// BrandConfig.encryption policy. Values are bound to the brand and column,
+// so an encrypted value copied to another brand or column fails to decrypt.
+export class FieldEncryption {
+  private fields: Set<EncryptedField>;
+  private required: boolean;
+  private keys = new Map<string, Buffer>();
+  private currentKeyId: string | null = null;
+
+  constructor(
+    private brand_id: BrandId,
+    policy: BrandEncryptionPolicy | undefined,
+    keyring: BrandKeyring | null
+  ) {
+    this.fields = new Set(policy?.fields ?? []);
+    this.required = !!policy?.required;
+
+    if (keyring) {
+      for (const [keyId, key] of Object.entries(keyring.keys ?? {})) {
+        const bytes = Buffer.from(key, "base64");
+        if (!KEY_ID_PATTERN.test(keyId) || bytes.length !== KEY_BYTES) {
+          throw this.error(
+            "invalid_keyring",
+            `Invalid encryption key ${keyId}: expected a base64 ${KEY_BYTES}-byte key and an id of letters, digits, "_" or "-"`
+          );
+        }
+        this.keys.set(keyId, bytes);
+      }
+
+      if (!this.keys.has(keyring.current_key_id)) {
+        throw this.error(
+          "invalid_keyring",
+          `Current encryption key ${keyring.current_key_id} is not in the keyring`
+        );
+      }
+      this.currentKeyId = keyring.current_key_id;
+    }
+  }
+
+  // Policy and keyring for a brand; the keyring defaults to getEnvKeyring
+  static forBrand(
+    context: BrandContext,
+    keyring: BrandKeyring | null = getEnvKeyring(context.brand_id)
+  ): FieldEncryption {
+    return new FieldEncryption(
+      context.brand_id,
+      context.config.encryption,
+      keyring
+    );
+  }
+
+  // Whether the policy encrypts a column
+  encrypts(field: EncryptedField): boolean {
+    return this.fields.has(field);
+  }
+
+  // Throw instead of searching columns that are encrypted: the database can
+  // only compare ciphertext, so matches would be silently missed
+  assertSearchable(operation: string, fields: EncryptedField[]): void {
+    const encrypted = fields.filter((field) => this.fields.has(field));
+    if (encrypted.length) {
+      throw this.error(
+        "encrypted_search",
+        `${operation} is not available for brand ${this.brand_id}: ${encrypted.join(", ")} ${
+          encrypted.length === 1 ? "is" : "are"
+        } encrypted`
+      );
+    }
+  }
+
+  // Encrypt the policy's columns of a row about to be written
+  encryptRow<T extends object>(table: EncryptedTable, row: T): T {
+    const columns = this.policyColumns(table);
+    if (!columns.length) return row;
+
+    const keyId = this.writeKeyId();
+    if (!keyId) return row;
+
+    const result = { ...row } as Record<string, unknown>;
+    for (const column of columns) {
+      result[column] = this.mapValue(result[column], (value) =>
+        isEncryptedValue(value)
+          ? value
+          : this.encryptValue(`${table}.${column}`, value, keyId)
+      );
+    }
+    return result as T;
+  }
+
+  // Decrypt any encrypted columns of a row read from the database. Columns
+  // are decrypted whatever the current policy, and plaintext (written before
+  // the policy applied) is returned as is.
+  decryptRow<T extends object>(table: EncryptedTable, row: T): T {
+    const result = { ...row } as Record<string, unknown>;
+    for (const column of TABLE_COLUMNS[table]) {
+      if (!(column in result)) continue;
+      result[column] = this.mapValue(result[column], (value) =>
+        isEncryptedValue(value)
+          ? this.decryptValue(`${table}.${column}`, value)
+          : value
+      );
+    }
+    return result as T;
+  }
+
+  // Columns whose values should change to be encrypted under the current key:
+  // encrypted with an older key (re-wrapped) or plaintext under the policy
+  // (encrypted). Returns null when the row is already up to date.
+  rotateRow(
+    table: EncryptedTable,
+    row: Record<string, unknown>
+  ): {
+    changes: Record<string, unknown>;
+    rewrapped: number;
+    encrypted: number;
+  } | null {
+    const keyId = this.writeKeyId();
+    if (!keyId) return null;
+
+    const changes: Record<string, unknown> = {};
+    let rewrapped = 0;
+    let encrypted = 0;
+
+    for (const column of TABLE_COLUMNS[table]) {
+      const field = `${table}.${column}` as EncryptedField;
+      let changed = false;
+
+      const value = this.mapValue(row[column], (item) => {
+        if (isEncryptedValue(item)) {
+          if (encryptedKeyId(item) === keyId) return item;
+          changed = true;
+          rewrapped++;
+          return this.rewrapValue(field, item, keyId);
+        }
+        if (!this.fields.has(field)) return item;
+        changed = true;
+        encrypted++;
+        return this.encryptValue(field, item, keyId);
+      });
+
+      if (changed) changes[column] = value;
+    }
+
+    return rewrapped || encrypted ? { changes, rewrapped, encrypted } : null;
+  }
+
+  // Key for new values: the current key, none when encryption is optional and
+  // no keyring is configured
+  private writeKeyId(): string | null {
+    if (!this.currentKeyId && this.required) {
+      throw this.error(
+        "missing_key",
+        `Brand ${this.brand_id} requires field encryption but no keyring is configured`
+      );
+    }
+    return this.currentKeyId;
+  }
+
+  private policyColumns(table: EncryptedTable): string[] {
+    return TABLE_COLUMNS[table].filter((column) =>
+      this.fields.has(`${table}.${column}` as EncryptedField)
+    );
+  }
+
+  // Apply fn to a string value or each string of an array (media_urls)
+  private mapValue(value: unknown, fn: (value: string) => string): unknown {
+    if (typeof value === "string") return fn(value);
+    if (Array.isArray(value)) {
+      return value.map((item) => (typeof item === "string" ? fn(item) : item));
+    }
+    return value;
+  }
+
+  private encryptValue(field: string, value: string, keyId: string): string {
+    const dataKey = randomBytes(KEY_BYTES);
+    const wrapped = this.wrap(dataKey, keyId);
+    const ciphertext = seal(
+      dataKey,
+      Buffer.from(value, "utf8"),
+      `${this.brand_id}:${field}`
+    );
+    return `${PREFIX}${keyId}:${wrapped}:${ciphertext}`;
+  }
+
+  private decryptValue(field: string, value: string): string {
+    const { dataKey, ciphertext } = this.unwrap(field, value);
+    try {
+      return open(dataKey, ciphertext, `${this.brand_id}:${field}`).toString(
+        "utf8"
+      );
+    } catch {
+      throw this.error("decrypt_failed", `Cannot decrypt ${field}`);
+    }
+  }
+
+  private rewrapValue(field: string, value: string, keyId: string): string {
+    const { dataKey, ciphertext } = this.unwrap(field, value);
+    return `${PREFIX}${keyId}:${this.wrap(dataKey, keyId)}:${ciphertext}`;
+  }
+
+  private wrap(dataKey: Buffer, keyId: string): string {
+    return seal(this.keys.get(keyId)!, dataKey, `${this.brand_id}:${keyId}`);
+  }
+
+  private unwrap(
+    field: string,
+    value: string
+  ): { dataKey: Buffer; ciphertext: string } {
+    const [keyId, wrapped, ciphertext] = value.slice(PREFIX.length).split(":");
+    if (!wrapped || !ciphertext) {
+      throw this.error(
+        "decrypt_failed",
+        `Malformed encrypted value in ${field}`
+      );
+    }
+
+    const key = this.keys.get(keyId);
+    if (!key) {
+      throw this.currentKeyId
+        ? this.error(
+            "unknown_key",
+            `Cannot decrypt ${field}: key ${keyId} is not in the keyring`
+          )
+        : this.error(
+            "missing_key",
+            `Cannot decrypt ${field}: no keyring is configured for brand ${this.brand_id}`
+          );
+    }
+
+    try {
+      return {
+        dataKey: open(key, wrapped, `${this.brand_id}:${keyId}`),
+        ciphertext,
+      };
+    } catch {
+      throw this.error(
+        "decrypt_failed",
+        `Cannot decrypt ${field}: key ${keyId} does not match`
+      );
+    }
+  }
+
+  private error(code: EncryptionErrorCode, message: string): EncryptionError {
+    return new EncryptionError(code, message, this.brand_id);
+  }
+}
+
+// Bring a brand's stored values under its current key after a keyring
+// change: values encrypted with older keys are re-wrapped and plaintext in
+// policy columns (written before the policy applied) is encrypted. Once a
+// run reports nothing left, older keys can be removed from the keyring.
+export async function rotateEncryptedFields(
+  db: BrandAwareSupabase,
+  encryption: FieldEncryption = FieldEncryption.forBrand(db.context),
+  options: EncryptionRotationOptions = {}
+): Promise<EncryptionRotationReport> {
+  const report: EncryptionRotationReport = {
+    dry_run: !!options.dry_run,
+    scanned: 0,
+    updated_rows: 0,
+    rewrapped: 0,
+    encrypted: 0,
+  };
+
+  for (const table of Object.keys(TABLE_COLUMNS) as EncryptedTable[]) {
+    const rows = await loadEncryptedRows(db, table, options.batch_size);
+    report.scanned += rows.length;
+
+    for (const row of rows) {
+      const rotation = encryption.rotateRow(table, row);
+      if (!rotation) continue;
+
+      if (!options.dry_run) {
+        const { error } = await db.raw
+          .from(table)
+          .update(rotation.changes)
+          .eq("id", row.id);
+
+        if (error) {
+          throw toOperationError(
+            `Failed to rotate encrypted ${table} fields`,
+            error,
+            { table, brand_id: db.context.brand_id }
+          );
+        }
+      }
+
+      report.updated_rows++;
+      report.rewrapped += rotation.rewrapped;
+      report.encrypted += rotation.encrypted;
+    }
+  }
+
+  return report;
+}
+
+// Read id and encryptable columns for every row of the brand, in batches.
+// Messages belong to the brand through their conversation.
+async function loadEncryptedRows(
+  db: BrandAwareSupabase,
+  table: EncryptedTable,
+  batchSize = 1000
+): Promise<Record<string, unknown>[]> {
+  const rows: Record<string, unknown>[] = [];
+  const columns = ["id", ...TABLE_COLUMNS[table]].join(",");
+
+  for (let from = 0; ; from += batchSize) {
+    const query =
+      table === "messages"
+        ? db.raw
+            .from(table)
+            .select(`${columns}, conversations!inner(brand_id)`)
+            .eq("conversations.brand_id", db.context.brand_id)
+        : db.raw
+            .from(table)
+            .select(columns)
+            .eq("brand_id", db.context.brand_id);
+
+    const { data, error } = await query
+      .order("id")
+      .range(from, from + batchSize - 1);
+
+    if (error) {
+      throw toOperationError(
+        `Failed to read encrypted ${table} fields`,
+        error,
+        {
+          table,
+          brand_id: db.context.brand_id,
+        }
+      );
+    }
+
+    rows.push(...(data as unknown as Record<string, unknown>[]));
+    if (data.length < batchSize) return rows;
+  }
+}
@@ -0,0 +1,343 @@
+import { createHash } from "crypto";
+import { readdirSync, readFileSync } from "fs";
+import { join } from "path";
+import {
+  MigrateDownOptions,
+  MigrateUpOptions,
+  Migration,
+  MigrationClient,
+  MigrationError,
+  MigrationRunnerOptions,
+  MigrationStatus,
+} from "../types/migration";
+
+// Resolved from the package root, so the compiled runner (dist/utils) reads
+// the same SQL files as the sources: tsc does not copy them into dist
+export const DEFAULT_MIGRATIONS_DIRECTORY = join(
+  __dirname,
+  "../../src/schemas/migrations"
+);
+
+const FILE_PATTERN = /^(\d{4})_([a-z0-9_]+)\.(up|down)\.sql$/;
+const NO_TRANSACTION = /^\s*--\s*migrate:no-transaction/;
+const TABLE_PATTERN = /^[a-z_][a-z0-9_]*$/;
+
+// Session advisory lock held while migrating, so two runners (e.g. two
+// deploys) never apply the same migration twice
+const LOCK_KEY = 48151623;
+
+interface AppliedMigration {
+  version: number;
+  name: string;
+  checksum: string;
+  applied_at: string;
+}
+
+// Row of the versions table; pg returns timestamps as Dates
+interface MigrationRow extends Omit<AppliedMigration, "applied_at"> {
+  applied_at: Date | string;
+}
+
+function checksum(sql: string): string {
+  return createHash("sha256").update(sql).digest("hex");
+}
+
+function label(migration: { version: number; name: string }): string {
+  return `${String(migration.version).padStart(4, "0")}_${migration.name}`;
+}
+
+// Read NNNN_name.up.sql / NNNN_name.down.sql pairs, lowest version first
+export function loadMigrations(
+  directory: string = DEFAULT_MIGRATIONS_DIRECTORY
+): Migration[] {
+  const found = new Map<number, { name: string; up?: string; down?: string }>();
+
+  for (const file of readdirSync(directory).sort()) {
+    if (!file.endsWith(".sql")) continue;
+
+    const match = file.match(FILE_PATTERN);
+    if (!match) {
+      throw new MigrationError(
+        "invalid_file",
+        `Invalid migration file name: ${file} (expected NNNN_name.up.sql or NNNN_name.down.sql)`
+      );
+    }
+
+    const version = Number(match[1]);
+    const name = match[2];
+    const direction = match[3] as "up" | "down";
+    const entry = found.get(version) ?? { name };
+
+    if (entry.name !== name || entry[direction] !== undefined) {
+      throw new MigrationError(
+        "duplicate_version",
+        `Duplicate migration version ${match[1]}: ${file}`,
+        version
+      );
+    }
+
+    entry[direction] = readFileSync(join(directory, file), "utf8");
+    found.set(version, entry);
+  }
+
+  return [...found.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([version, entry]) => {
+      if (entry.up === undefined) {
+        throw new MigrationError(
+          "invalid_file",
+          `Migration ${label({ version, name: entry.name })} has no up script`,
+          version
+        );
+      }
+
+      return {
+        version,
+        name: entry.name,
+        up: entry.up,
+        down: entry.down ?? null,
+        checksum: checksum(entry.up),
+        transaction: !NO_TRANSACTION.test(entry.up),
+      };
+    });
+}
+
+// Applies and rolls back numbered migrations, recording applied versions in
+// a versions table. Each migration runs in its own transaction unless its up
+// script starts with "-- migrate:no-transaction" (e.g. ALTER TYPE ... ADD
+// VALUE followed by a statement using the new value).
+export class MigrationRunner {
+  private table: string;
+
+  constructor(
+    private client: MigrationClient,
+    private options: MigrationRunnerOptions = {}
+  ) {
+    this.table = options.table ?? "schema_migrations";
+    if (!TABLE_PATTERN.test(this.table)) {
+      throw new Error(`Invalid migrations table name: ${this.table}`);
+    }
+  }
+
+  // Every migration on disk or in the versions table, lowest version first
+  async status(): Promise<MigrationStatus[]> {
+    await this.ensureTable();
+    const applied = await this.applied();
+    const migrations = this.load();
+
+    const statuses: MigrationStatus[] = migrations.map((migration) => {
+      const record = applied.get(migration.version);
+      return {
+        version: migration.version,
+        name: migration.name,
+        applied: !!record,
+        applied_at: record?.applied_at ?? null,
+        modified: !!record && record.checksum !== migration.checksum,
+        missing: false,
+      };
+    });
+
+    for (const record of applied.values()) {
+      if (migrations.some((m) => m.version === record.version)) continue;
+      statuses.push({
+        version: record.version,
+        name: record.name,
+        applied: true,
+        applied_at: record.applied_at,
+        modified: false,
+        missing: true,
+      });
+    }
+
+    return statuses.sort((a, b) => a.version - b.version);
+  }
+
+  // Apply pending migrations in order; returns the ones applied
+  async up(options: MigrateUpOptions = {}): Promise<Migration[]> {
+    return this.locked(async () => {
+      const applied = await this.applied();
+      const migrations = this.verified(applied);
+
+      const pending = migrations.filter(
+        (migration) =>
+          !applied.has(migration.version) &&
+          (options.to === undefined || migration.version <= options.to)
+      );
+
+      for (const migration of pending) {
+        await this.run(migration, "up");
+      }
+
+      return pending;
+    });
+  }
+
+  // Roll back applied migrations, newest first; returns the ones rolled back
+  async down(options: MigrateDownOptions = {}): Promise<Migration[]> {
+    return this.locked(async () => {
+      const applied = await this.applied();
+      const migrations = this.verified(applied)
+        .filter((migration) => applied.has(migration.version))
+        .reverse();
+
+      const selected =
+        options.to !== undefined
+          ? migrations.filter((migration) => migration.version > options.to!)
+          : migrations.slice(0, options.steps ?? 1);
+
+      // Refuse before changing anything
+      const irreversible = selected.find((migration) => !migration.down);
+      if (irreversible) {
+        throw new MigrationError(
+          "irreversible",
+          `Migration ${label(irreversible)} has no down script`,
+          irreversible.version
+        );
+      }
+
+      for (const migration of selected) {
+        await this.run(migration, "down");
+      }
+
+      return selected;
+    });
+  }
+
+  // Record migrations up to and including `version` as applied without
+  // running them, for databases created before migrations were versioned
+  async baseline(version: number): Promise<Migration[]> {
+    return this.locked(async () => {
+      const applied = await this.applied();
+      const migrations = this.verified(applied).filter(
+        (migration) =>
+          migration.version <= version && !applied.has(migration.version)
+      );
+
+      for (const migration of migrations) {
+        this.log(`Baseline ${label(migration)}`);
+        await this.record(migration);
+      }
+
+      return migrations;
+    });
+  }
+
+  private load(): Migration[] {
+    return loadMigrations(this.options.directory);
+  }
+
+  // Migrations on disk, after checking applied ones are present and unchanged
+  private verified(applied: Map<number, AppliedMigration>): Migration[] {
+    const migrations = this.load();
+
+    for (const record of applied.values()) {
+      const migration = migrations.find((m) => m.version === record.version);
+      if (!migration) {
+        throw new MigrationError(
+          "missing",
+          `Applied migration ${label(record)} is missing from ${this.options.directory ?? DEFAULT_MIGRATIONS_DIRECTORY}`,
+          record.version
+        );
+      }
+      if (migration.checksum !== record.checksum) {
+        throw new MigrationError(
+          "modified",
+          `Migration ${label(migration)} was changed after it was applied; add a new migration instead`,
+          migration.version
+        );
+      }
+    }
+
+    return migrations;
+  }
+
+  private async run(
+    migration: Migration,
+    direction: "up" | "down"
+  ): Promise<void> {
+    this.log(`${direction === "up" ? "Apply" : "Revert"} ${label(migration)}`);
+
+    if (migration.transaction) await this.client.query("BEGIN");
+    try {
+      await this.client.query(
+        direction === "up" ? migration.up : migration.down!
+      );
+
+      if (direction === "up") {
+        await this.record(migration);
+      } else {
+        await this.client.query(
+          `DELETE FROM ${this.table} WHERE version = $1`,
+          [migration.version]
+        );
+      }
+
+      if (migration.transaction) await this.client.query("COMMIT");
+    } catch (error) {
+      if (migration.transaction) {
+        await this.client.query("ROLLBACK").catch(() => undefined);
+      }
+      throw new MigrationError(
+        "failed",
+        `Migration ${label(migration)} (${direction}) failed: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        migration.version
+      );
+    }
+  }
+
+  private async record(migration: Migration): Promise<void> {
+    await this.client.query(
+      `INSERT INTO ${this.table} (version, name, checksum) VALUES ($1, $2, $3)`,
+      [migration.version, migration.name, migration.checksum]
+    );
+  }
+
+  private async applied(): Promise<Map<number, AppliedMigration>> {
+    const { rows } = await this.client.query(
+      `SELECT version, name, checksum, applied_at FROM ${this.table} ORDER BY version`
+    );
+
+    return new Map(
+      (rows as MigrationRow[]).map((row) => [
+        row.version,
+        {
+          version: row.version,
+          name: row.name,
+          checksum: row.checksum,
+          applied_at: new Date(row.applied_at).toISOString(),
+        },
+      ])
+    );
+  }
+
+  // RLS with no policies keeps the versions table out of the API roles' reach
+  private async ensureTable(): Promise<void> {
+    await this.client.query(
+      `CREATE TABLE IF NOT EXISTS ${this.table} (
+        version INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        checksum TEXT NOT NULL,
+        applied_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      )`
+    );
+    await this.client.query(
+      `ALTER TABLE ${this.table} ENABLE ROW LEVEL SECURITY`
+    );
+  }
+
+  private async locked<T>(fn: () => Promise<T>): Promise<T> {
+    await this.client.query("SELECT pg_advisory_lock($1)", [LOCK_KEY]);
+    try {
+      await this.ensureTable();
+      return await fn();
+    } finally {
+      await this.client.query("SELECT pg_advisory_unlock($1)", [LOCK_KEY]);
+    }
+  }
+
+  private log(message: string): void {
+    this.options.log?.(message);
+  }
+}
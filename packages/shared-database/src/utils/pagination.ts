@@ -0,0 +1,113 @@
+import {
+  PaginationOptions,
+  PaginatedResult,
+  MAX_PAGE_SIZE,
+  encodeCursor,
+  decodeCursor,
+  encodeOffsetCursor,
+  decodeOffsetCursor,
+} from "../types/pagination";
+
+// Quote a value for use inside a PostgREST filter string
+export function quote(value: string): string {
+  return `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+}
+
+export function resolveLimit(
+  options: PaginationOptions,
+  defaultLimit: number
+): number {
+  return Math.min(Math.max(options.limit ?? defaultLimit, 1), MAX_PAGE_SIZE);
+}
+
+// The PostgREST filter builder methods keyset paging needs
+interface KeysetQuery<Q> {
+  order(
+    column: string,
+    options: { ascending: boolean; nullsFirst?: boolean }
+  ): Q;
+  limit(count: number): Q;
+  is(column: string, value: null): Q;
+  lt(column: string, value: string): Q;
+  gt(column: string, value: string): Q;
+  or(filters: string): Q;
+}
+
+// Order a query newest-first (or oldest-first with `ascending`) by
+// (column, id) and continue after the cursor. Nullable columns sort NULLS
+// LAST, so rows without a value come at the end.
+export function applyKeyset<Q extends KeysetQuery<Q>>(
+  query: Q,
+  column: string,
+  options: PaginationOptions,
+  limit: number,
+  nullable = false,
+  ascending = false
+): Q {
+  const op = ascending ? "gt" : "lt";
+  let paged = query
+    .order(column, { ascending, nullsFirst: false })
+    .order("id", { ascending })
+    .limit(limit + 1); // One extra row tells us whether there is another page
+
+  if (options.cursor) {
+    const { value, id } = decodeCursor(options.cursor);
+
+    if (value === null) {
+      paged = paged.is(column, null)[op]("id", id);
+    } else {
+      const after = [
+        `${column}.${op}.${quote(value)}`,
+        `and(${column}.eq.${quote(value)},id.${op}.${quote(id)})`,
+      ];
+      if (nullable) after.push(`${column}.is.null`);
+
+      paged = paged.or(after.join(","));
+    }
+  }
+
+  return paged;
+}
+
+// Trim the extra row fetched by applyKeyset and build the next cursor
+export function toPaginatedResult<T extends { id: string }>(
+  rows: T[],
+  column: keyof T & string,
+  limit: number
+): PaginatedResult<T> {
+  const has_more = rows.length > limit;
+  const items = has_more ? rows.slice(0, limit) : rows;
+  const last = items[items.length - 1];
+
+  return {
+    items,
+    has_more,
+    next_cursor:
+      has_more && last
+        ? encodeCursor({
+            value: (last[column] as string | null | undefined) ?? null,
+            id: last.id,
+          })
+        : null,
+  };
+}
+
+// Offset of the page a cursor points at (0 for the first page)
+export function resolveOffset(options: PaginationOptions): number {
+  return options.cursor ? decodeOffsetCursor(options.cursor) : 0;
+}
+
+// Trim the extra row of an offset-paged query and build the next cursor
+export function toOffsetPaginatedResult<T>(
+  rows: T[],
+  offset: number,
+  limit: number
+): PaginatedResult<T> {
+  const has_more = rows.length > limit;
+
+  return {
+    items: has_more ? rows.slice(0, limit) : rows,
+    has_more,
+    next_cursor: has_more ? encodeOffsetCursor(offset + limit) : null,
+  };
+}
@@ -0,0 +1,202 @@
+import type { CountryCode } from "libphonenumber-js";
+import { BrandAwareSupabase } from "../client/supabase";
+import {
+  DEFAULT_PHONE_REGION,
+  normalizeValidPhoneNumber,
+} from "../types/phone";
+import { toOperationError } from "../types/errors";
+
+type PhoneTable = "customers" | "conversations" | "campaigns";
+
+export interface PhoneNormalizationOptions {
+  dry_run?: boolean; // Report only, write nothing
+  region?: CountryCode; // Region for numbers without a country code
+  batch_size?: number; // Rows read per request
+}
+
+export interface PhoneNormalizationChange {
+  table: PhoneTable;
+  id: string;
+  column: string;
+  from: string;
+  to: string;
+}
+
+export interface InvalidPhoneNumber {
+  table: PhoneTable;
+  id: string;
+  column: string;
+  value: string;
+}
+
+// Rows that would collide on a unique constraint once normalized.
+// They are left unchanged and need a manual merge.
+export interface PhoneDuplicate {
+  table: PhoneTable;
+  constraint: string;
+  normalized: string;
+  ids: string[];
+}
+
+export interface PhoneNormalizationReport {
+  dry_run: boolean;
+  scanned: number;
+  changes: PhoneNormalizationChange[];
+  invalid: InvalidPhoneNumber[];
+  duplicates: PhoneDuplicate[];
+}
+
+interface PlannedRow {
+  id: string;
+  key: string; // Unique-constraint key after normalization
+  update: Record<string, string>;
+  changes: PhoneNormalizationChange[];
+}
+
+// One-off normalization of stored phone numbers to E.164 for the client's
+// brand. Run with dry_run first to review invalid numbers and duplicates.
+export async function normalizeStoredPhoneNumbers(
+  db: BrandAwareSupabase,
+  options: PhoneNormalizationOptions = {}
+): Promise<PhoneNormalizationReport> {
+  const report: PhoneNormalizationReport = {
+    dry_run: !!options.dry_run,
+    scanned: 0,
+    changes: [],
+    invalid: [],
+    duplicates: [],
+  };
+
+  const tables: {
+    table: PhoneTable;
+    columns: string[];
+    constraint: string | null;
+  }[] = [
+    {
+      table: "customers",
+      columns: ["phone"],
+      constraint: "customers_brand_phone_unique",
+    },
+    {
+      table: "conversations",
+      columns: ["customer_phone", "brand_phone"],
+      constraint: "conversations_brand_phones_unique",
+    },
+    { table: "campaigns", columns: ["brand_phone"], constraint: null },
+  ];
+
+  for (const { table, columns, constraint } of tables) {
+    const rows = await loadPhoneRows(db, table, columns, options.batch_size);
+    report.scanned += rows.length;
+
+    const planned: PlannedRow[] = [];
+    for (const row of rows) {
+      const plan = planRow(table, columns, row, report, options.region);
+      if (plan) planned.push(plan);
+    }
+
+    // Group by normalized key to find rows that would collide
+    const groups = new Map<string, PlannedRow[]>();
+    for (const plan of planned) {
+      groups.set(plan.key, [...(groups.get(plan.key) || []), plan]);
+    }
+
+    for (const [key, group] of groups) {
+      if (constraint && group.length > 1) {
+        report.duplicates.push({
+          table,
+          constraint,
+          normalized: key,
+          ids: group.map((plan) => plan.id),
+        });
+        continue;
+      }
+
+      for (const plan of group) {
+        if (plan.changes.length === 0) continue;
+
+        if (!options.dry_run) {
+          const { error } = await db.raw
+            .from(table)
+            .update(plan.update)
+            .eq("id", plan.id)
+            .eq("brand_id", db.context.brand_id);
+
+          if (error) {
+            throw toOperationError(
+              `Failed to normalize phone numbers in ${table}`,
+              error,
+              { table, brand_id: db.context.brand_id }
+            );
+          }
+        }
+
+        report.changes.push(...plan.changes);
+      }
+    }
+  }
+
+  return report;
+}
+
+// Read id and phone columns for every row of the brand, in batches
+async function loadPhoneRows(
+  db: BrandAwareSupabase,
+  table: PhoneTable,
+  columns: string[],
+  batchSize = 1000
+): Promise<Record<string, string | null>[]> {
+  const rows: Record<string, string | null>[] = [];
+
+  for (let from = 0; ; from += batchSize) {
+    const { data, error } = await db.raw
+      .from(table)
+      .select(["id", ...columns].join(","))
+      .eq("brand_id", db.context.brand_id)
+      .order("id")
+      .range(from, from + batchSize - 1);
+
+    if (error) {
+      throw toOperationError(`Failed to read ${table} phone numbers`, error, {
+        table,
+        brand_id: db.context.brand_id,
+      });
+    }
+
+    rows.push(...(data as unknown as Record<string, string | null>[]));
+    if (data.length < batchSize) return rows;
+  }
+}
+
+// Work out a row's normalized values; null when it has nothing to normalize
+function planRow(
+  table: PhoneTable,
+  columns: string[],
+  row: Record<string, string | null>,
+  report: PhoneNormalizationReport,
+  region: CountryCode = DEFAULT_PHONE_REGION
+): PlannedRow | null {
+  const id = row.id as string;
+  const plan: PlannedRow = { id, key: "", update: {}, changes: [] };
+  const keyParts: string[] = [];
+
+  for (const column of columns) {
+    const value = row[column];
+    if (!value) return null;
+
+    const normalized = normalizeValidPhoneNumber(value, region);
+    if (!normalized) {
+      report.invalid.push({ table, id, column, value });
+      return null;
+    }
+
+    keyParts.push(normalized);
+    if (normalized !== value) {
+      plan.update[column] = normalized;
+      plan.changes.push({ table, id, column, from: value, to: normalized });
+    }
+  }
+
+  plan.key = keyParts.join(" / ");
+  return plan;
+}
@@ -0,0 +1,92 @@
+import { z } from "zod";
+import {
+  DatabaseErrorContext,
+  DatabaseOperationError,
+  ValidationError,
+  ValidationIssue,
+} from "../types/errors";
+
+// Which paths the operations classes parse with the Zod schemas. Both are on
+// by default; turn them off for hot paths that trust their data.
+export interface ValidationOptions {
+  input?: boolean; // Create/update input, before writing
+  output?: boolean; // Rows read back from the database
+}
+
+function toIssues(error: z.ZodError): ValidationIssue[] {
+  return error.issues.map((issue) => ({
+    path: issue.path.join("."),
+    message: issue.message,
+    code: issue.code,
+  }));
+}
+
+function describe(issues: ValidationIssue[]): string {
+  return issues
+    .map((issue) => (issue.path ? `${issue.path}: ` : "") + issue.message)
+    .join("; ");
+}
+
+// Postgres returns NULL where the domain types have optional fields
+export function fromDatabaseRow(row: unknown): unknown {
+  if (!row || typeof row !== "object" || Array.isArray(row)) return row;
+
+  return Object.fromEntries(
+    Object.entries(row).filter(([, value]) => value !== null)
+  );
+}
+
+// Parse input before it is written; throws ValidationError with one issue
+// per invalid field
+export function parseInput<S extends z.ZodTypeAny>(
+  schema: S,
+  data: unknown,
+  options: ValidationOptions,
+  what: string,
+  context: DatabaseErrorContext = {}
+): z.output<S> {
+  if (options.input === false) return data as z.output<S>;
+
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    const issues = toIssues(result.error);
+    throw new ValidationError(`Invalid ${what}: ${describe(issues)}`, {
+      ...context,
+      issues,
+    });
+  }
+
+  return result.data;
+}
+
+// Convert a row to its domain type. A row that does not match its schema
+// means the schema and database disagree, so it is an internal error.
+export function parseRow<S extends z.ZodTypeAny>(
+  schema: S,
+  row: unknown,
+  options: ValidationOptions,
+  context: DatabaseErrorContext = {}
+): z.output<S> {
+  if (options.output === false) return row as z.output<S>;
+
+  const result = schema.safeParse(fromDatabaseRow(row));
+  if (!result.success) {
+    const issues = toIssues(result.error);
+    throw new DatabaseOperationError(
+      `Invalid ${context.table ?? "database"} row: ${describe(issues)}`,
+      { ...context, issues }
+    );
+  }
+
+  return result.data;
+}
+
+export function parseRows<S extends z.ZodTypeAny>(
+  schema: S,
+  rows: unknown[],
+  options: ValidationOptions,
+  context: DatabaseErrorContext = {}
+): z.output<S>[] {
+  if (options.output === false) return rows as z.output<S>[];
+  return rows.map((row) => parseRow(schema, row, options, context));
+}